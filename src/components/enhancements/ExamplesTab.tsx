@@ -1,11 +1,12 @@
 import { useState } from 'react';
 import { useBook } from '../../contexts/BookContext';
 import { getExamplesForSection, Example } from '../../data/examples';
+import { getExampleEntry } from '../../data/simulatorExamples';
 import { getConceptsForPage } from '../../data/bookStructure';
 import './TabContent.css';
 
 export default function ExamplesTab() {
-  const { currentPage, currentSection } = useBook();
+  const { currentPage, currentSection, openExampleInSimulator } = useBook();
   const [expandedExamples, setExpandedExamples] = useState<Set<string>>(new Set());
   const concepts = getConceptsForPage(currentPage);
 
@@ -113,6 +114,16 @@ export default function ExamplesTab() {
                 ))}
               </div>
 
+              {getExampleEntry(example.id) && (
+                <button
+                  className="btn btn-sm btn-primary example-open"
+                  onClick={() => openExampleInSimulator(example.id)}
+                  title="Open this example with concrete sets in the simulator"
+                >
+                  Open in simulator
+                </button>
+              )}
+
               {example.mathNotation && (
                 <div className="example-math">
                   <div className="math-header">Mathematical Notation</div>
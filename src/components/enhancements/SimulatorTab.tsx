@@ -1,27 +1,109 @@
+import { Fragment, useState } from 'react';
 import { useBook } from '../../contexts/BookContext';
 import CategoryBuilder from '../simulators/CategoryBuilder';
 import NaturalTransformationVisualizer from '../simulators/NaturalTransformationVisualizer';
 import MorphismComposer from '../simulators/MorphismComposer';
 import ProductBuilder from '../simulators/ProductBuilder';
 import FunctorMapper from '../simulators/FunctorMapper';
+import AdjunctionExplorer from '../simulators/AdjunctionExplorer';
+import GaloisPlayground from '../simulators/GaloisPlayground';
+import DualityTranslator from '../simulators/DualityTranslator';
+import DiagramChaser from '../simulators/DiagramChaser';
+import EqualiserBuilder from '../simulators/EqualiserBuilder';
+import ExponentialBuilder from '../simulators/ExponentialBuilder';
+import { getExamplesForSection } from '../../data/examples';
+import { getExampleEntry } from '../../data/simulatorExamples';
+import { SimulatorType } from '../../utils/categoryTypes';
 import './TabContent.css';
 
-type SimulatorType =
-  | 'category-builder'
-  | 'morphism-composer'
-  | 'natural-transformation'
-  | 'functor-mapper'
-  | 'product-builder'
-  | 'diagram-chaser';
-
 interface SimulatorConfig {
   type: SimulatorType;
   title: string;
   description: string;
 }
 
+// How each simulator introduces itself when an example or quick access opens it outside its own section
+const simulatorConfigs: Record<SimulatorType, SimulatorConfig> = {
+  'category-builder': {
+    type: 'category-builder',
+    title: 'Category Builder',
+    description: 'Build and explore categories with objects and morphisms',
+  },
+  'morphism-composer': {
+    type: 'morphism-composer',
+    title: 'Morphism Composer',
+    description: 'Compose morphisms and explore iso, epic, and monic properties',
+  },
+  'natural-transformation': {
+    type: 'natural-transformation',
+    title: 'Natural Transformation Visualizer',
+    description: 'Explore naturality squares and component morphisms',
+  },
+  'functor-mapper': {
+    type: 'functor-mapper',
+    title: 'Functor Mapper',
+    description: 'Visualize how functors map between categories',
+  },
+  'adjunction-explorer': {
+    type: 'adjunction-explorer',
+    title: 'Adjunction Explorer',
+    description: 'Find the unit and counit of F ⊣ G and check the triangle identities',
+  },
+  'galois-playground': {
+    type: 'galois-playground',
+    title: 'Galois Playground',
+    description: 'Draw two posets, choose monotone maps, and check the Galois condition f(x) ≤ y ⟺ x ≤ g(y)',
+  },
+  'duality-translator': {
+    type: 'duality-translator',
+    title: 'Duality Translator',
+    description: 'Reverse every arrow of a construction and read off its dual',
+  },
+  'product-builder': {
+    type: 'product-builder',
+    title: 'Product/Coproduct Builder',
+    description: 'Construct products, coproducts, pullbacks and pushouts with universal properties',
+  },
+  'equaliser-builder': {
+    type: 'equaliser-builder',
+    title: 'Equaliser/Coequaliser Builder',
+    description: 'Compute equalisers and coequalisers of two functions between finite sets',
+  },
+  'exponential-builder': {
+    type: 'exponential-builder',
+    title: 'Exponential Builder',
+    description: 'Build function sets B^A, evaluate them, and curry functions out of products',
+  },
+  'diagram-chaser': {
+    type: 'diagram-chaser',
+    title: 'Diagram Chaser',
+    description: 'Chase through commutative diagrams and verify limits',
+  },
+};
+
+// Simulators offered under "Quick access", in book order
+const quickAccess: { type: SimulatorType; label: string }[] = [
+  { type: 'category-builder', label: 'Categories' },
+  { type: 'morphism-composer', label: 'Composition' },
+  { type: 'functor-mapper', label: 'Functors' },
+  { type: 'natural-transformation', label: 'Naturality' },
+  { type: 'adjunction-explorer', label: 'Adjunctions' },
+  { type: 'galois-playground', label: 'Galois' },
+  { type: 'duality-translator', label: 'Duality' },
+  { type: 'product-builder', label: 'Products' },
+  { type: 'equaliser-builder', label: 'Equalisers' },
+  { type: 'exponential-builder', label: 'Exponentials' },
+  { type: 'diagram-chaser', label: 'Diagrams' },
+];
+
 export default function SimulatorTab() {
-  const { currentSection } = useBook();
+  const { currentSection, simulatorExample } = useBook();
+  const [chosen, setChosen] = useState<{ type: SimulatorType; section?: string; example: string | null } | null>(null);
+
+  // An example opened from the Examples tab brings its own simulator while its section is showing
+  const opened = simulatorExample !== null && currentSection !== undefined
+    && getExamplesForSection(currentSection.number).some((e) => e.id === simulatorExample);
+  const entry = opened ? getExampleEntry(simulatorExample) : undefined;
 
   // Determine which simulator to show based on section
   const getSimulatorForSection = (): SimulatorConfig => {
@@ -53,11 +135,17 @@ export default function SimulatorTab() {
           description: 'Explore naturality squares and component morphisms',
         };
       case '1d':
+      case 'A':
+        return {
+          type: 'adjunction-explorer',
+          title: 'Adjunction Explorer',
+          description: 'Find the unit and counit of F ⊣ G and check the triangle identities',
+        };
       case '1e':
         return {
           type: 'category-builder',
           title: 'Category Builder',
-          description: 'Explore adjunctions and duality through category construction',
+          description: 'Build a category and click "op" to reverse every arrow',
         };
       case '2a':
         return {
@@ -75,9 +163,14 @@ export default function SimulatorTab() {
         return {
           type: 'product-builder',
           title: 'Product/Coproduct Builder',
-          description: 'Construct products and coproducts with universal properties',
+          description: 'Construct products, coproducts, pullbacks and pushouts with universal properties',
         };
       case '2d':
+        return {
+          type: 'equaliser-builder',
+          title: 'Equaliser/Coequaliser Builder',
+          description: 'Compute equalisers and coequalisers of two functions between finite sets',
+        };
       case '2e':
         return {
           type: 'diagram-chaser',
@@ -93,31 +186,41 @@ export default function SimulatorTab() {
     }
   };
 
-  const simulator = getSimulatorForSection();
+  const sectionSimulator = getSimulatorForSection();
+  const configFor = (type: SimulatorType) => (type === sectionSimulator.type ? sectionSimulator : simulatorConfigs[type]);
+
+  // A quick-access choice holds until the reader moves to another section or opens another example
+  const picked = chosen && chosen.section === currentSection?.number && chosen.example === simulatorExample
+    ? chosen.type
+    : null;
+  const simulator = configFor(picked ?? entry?.simulator ?? sectionSimulator.type);
+  const pick = (type: SimulatorType) => setChosen({ type, section: currentSection?.number, example: simulatorExample });
+  const example = entry?.simulator === simulator.type ? simulatorExample ?? undefined : undefined;
 
   const renderSimulator = () => {
     switch (simulator.type) {
       case 'category-builder':
-        return <CategoryBuilder />;
+        return <CategoryBuilder findUniversal={currentSection?.number === '2b'} />;
       case 'natural-transformation':
-        return <NaturalTransformationVisualizer />;
+        return <NaturalTransformationVisualizer initialExample={example} />;
       case 'morphism-composer':
-        return <MorphismComposer />;
+        return <MorphismComposer initialExample={example} />;
       case 'product-builder':
         return <ProductBuilder />;
       case 'functor-mapper':
         return <FunctorMapper />;
+      case 'adjunction-explorer':
+        return <AdjunctionExplorer initialExample={example} />;
+      case 'galois-playground':
+        return <GaloisPlayground initialExample={example} />;
+      case 'duality-translator':
+        return <DualityTranslator initialExample={example} />;
+      case 'equaliser-builder':
+        return <EqualiserBuilder initialExample={example} />;
+      case 'exponential-builder':
+        return <ExponentialBuilder initialExample={example} />;
       case 'diagram-chaser':
-        // Diagram chaser coming soon - show product builder as alternative
-        return (
-          <div className="simulator-wrapper">
-            <div className="simulator-note">
-              Diagram chasing involves limits and colimits.
-              Explore the product/coproduct builder below to understand universal constructions.
-            </div>
-            <ProductBuilder />
-          </div>
-        );
+        return <DiagramChaser />;
       default:
         return <CategoryBuilder />;
     }
@@ -140,27 +243,37 @@ export default function SimulatorTab() {
         <div className="simulator-description">
           {simulator.description}
         </div>
-        {renderSimulator()}
+        {/* A newly opened example starts its simulator afresh */}
+        <Fragment key={example ?? ''}>{renderSimulator()}</Fragment>
       </div>
 
       <div className="simulator-switcher">
         <span className="switcher-label">Quick access:</span>
         <div className="switcher-buttons">
-          <SimulatorQuickButton type="category-builder" label="Categories" />
-          <SimulatorQuickButton type="morphism-composer" label="Composition" />
-          <SimulatorQuickButton type="functor-mapper" label="Functors" />
-          <SimulatorQuickButton type="natural-transformation" label="Naturality" />
-          <SimulatorQuickButton type="product-builder" label="Products" />
+          {quickAccess.map(({ type, label }) => (
+            <SimulatorQuickButton key={type} type={type} label={label} active={simulator.type === type} onPick={pick} />
+          ))}
         </div>
       </div>
     </div>
   );
 }
 
-// Quick switch button component (simplified - actual switching would need state management)
-function SimulatorQuickButton({ label }: { type: SimulatorType; label: string }) {
+interface SimulatorQuickButtonProps {
+  type: SimulatorType;
+  label: string;
+  active: boolean;
+  onPick: (type: SimulatorType) => void;
+}
+
+// Quick switch button component
+function SimulatorQuickButton({ type, label, active, onPick }: SimulatorQuickButtonProps) {
   return (
-    <button className="btn btn-ghost btn-sm switcher-btn" title={`Switch to ${label}`}>
+    <button
+      className={`btn btn-ghost btn-sm switcher-btn ${active ? 'active' : ''}`}
+      title={`Switch to ${label}`}
+      onClick={() => onPick(type)}
+    >
       {label}
     </button>
   );
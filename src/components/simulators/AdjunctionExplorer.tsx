@@ -0,0 +1,508 @@
+import { useState, useRef, useEffect, useMemo } from 'react';
+import * as d3 from 'd3';
+import SimulatorHint, { HintStep } from './SimulatorHint';
+import CategoryPicker from './CategoryPicker';
+import { CategoryDefinition } from '../../utils/categoryTypes';
+import { createFiniteCategory, FiniteCategory, hom } from '../../utils/categoryEngine';
+import { arrowGeometry, fitLayout } from '../../utils/layout';
+import { enumerateFunctors, FunctorMap } from '../../utils/functorEngine';
+import { homComparison, searchAdjunction, triangleChecks } from '../../utils/adjunction';
+import { ordinalThree, ordinalTwo } from '../../data/smallCategories';
+import { adjunctionPresets } from '../../data/adjunctions';
+import { getExamplePreset } from '../../data/simulatorExamples';
+import './AdjunctionExplorer.css';
+
+interface AdjunctionExplorerProps {
+  initialExample?: string; // example id from examples.ts to open with
+}
+
+// Index of the "build your own" entry in the preset dropdown
+const CUSTOM = adjunctionPresets.length;
+
+// C on the left, D on the right of a 560×260 canvas
+const paneC = { x: 50, y: 55, width: 110, height: 150 };
+const paneD = { x: 400, y: 55, width: 110, height: 150 };
+
+const hintSteps: HintStep[] = [
+  {
+    title: 'Two Functors',
+    description: 'An adjunction is a pair F: C → D and G: D → C. The canvas shows C on the left, D on the right, F\'s object map above and G\'s below.',
+  },
+  {
+    title: 'Pick a Pair',
+    description: 'The presets include Galois connections between finite posets: rounding up is left adjoint to the inclusion of the integers, rounding down is right adjoint to it.',
+    action: 'Choose a preset',
+  },
+  {
+    title: 'Unit and Counit',
+    description: 'The explorer lists every natural η: id_C ⇒ GF and ε: FG ⇒ id_D. When there are several, choose which pair to test.',
+  },
+  {
+    title: 'Triangle Identities',
+    description: 'F ⊣ G when ε_F(A)∘F(η_A) = id_F(A) for every A and G(ε_B)∘η_G(B) = id_G(B) for every B. Failing components turn red on the canvas.',
+  },
+  {
+    title: 'Hom-set Bijection',
+    description: 'Equivalently, φ(g) = G(g)∘η_A must match Hom_D(F(A), B) one-to-one with Hom_C(A, G(B)). The last table checks every pair A, B.',
+  },
+  {
+    title: 'Build Your Own',
+    description: 'Choose "Custom", pick finite categories C and D, and select F and G from the list of all functors between them.',
+    action: 'Select "Custom" in the preset dropdown',
+  },
+];
+
+const tips = [
+  'For posets, F ⊣ G means F(x) ≤ y ⟺ x ≤ G(y): a Galois connection',
+  'Left adjoints preserve colimits, right adjoints preserve limits',
+  'Adjoints are unique up to isomorphism when they exist',
+  'A left adjoint to D → 1 is an initial object of D',
+  'With ε and η fixed, each triangle identity is checked one object at a time',
+];
+
+const objectLabel = (cat: FiniteCategory, id: string) => cat.objects.find((o) => o.id === id)?.label ?? id;
+const morphismLabel = (cat: FiniteCategory, id: string | null | undefined) =>
+  id == null ? '—' : cat.morphismById.get(id)?.label ?? id;
+
+// Arrows that are not composites of two others: the ones worth drawing
+const generators = (cat: CategoryDefinition) =>
+  cat.morphisms.filter((m) =>
+    !cat.compositions.some((e) => e.result === m.id && e.before !== m.id && e.after !== m.id)
+  );
+
+/**
+ * Adjunctions between finite categories: given F: C → D and G: D → C, find
+ * a natural unit and counit, check both triangle identities and the
+ * hom-set bijection, and point at the component that breaks.
+ */
+export default function AdjunctionExplorer({ initialExample }: AdjunctionExplorerProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const opened = getExamplePreset('adjunction-explorer', initialExample);
+  const [presetIndex, setPresetIndex] = useState(opened ? adjunctionPresets.indexOf(opened) : 0);
+  const [customC, setCustomC] = useState<CategoryDefinition>(ordinalTwo);
+  const [customD, setCustomD] = useState<CategoryDefinition>(ordinalThree);
+  const [customF, setCustomF] = useState(0);
+  const [customG, setCustomG] = useState(0);
+  // null picks the unit/counit pair that breaks the fewest triangle identities
+  const [unitIndex, setUnitIndex] = useState<number | null>(null);
+  const [counitIndex, setCounitIndex] = useState<number | null>(null);
+  const [showHint, setShowHint] = useState(true);
+
+  const loadPreset = (index: number) => {
+    setPresetIndex(index);
+    setCustomF(0);
+    setCustomG(0);
+    setUnitIndex(null);
+    setCounitIndex(null);
+  };
+
+  const preset = presetIndex < CUSTOM ? adjunctionPresets[presetIndex] : null;
+  const C = preset?.C ?? customC;
+  const D = preset?.D ?? customD;
+  const finiteC = useMemo(() => createFiniteCategory(C, C.compositions), [C]);
+  const finiteD = useMemo(() => createFiniteCategory(D, D.compositions), [D]);
+  const placedC = useMemo(() => fitLayout(C.objects, paneC), [C]);
+  const placedD = useMemo(() => fitLayout(D.objects, paneD), [D]);
+
+  // Every functor each way, for the custom selects
+  const candidates = useMemo(() => preset ? null : {
+    F: enumerateFunctors(finiteC, finiteD, 200).functors,
+    G: enumerateFunctors(finiteD, finiteC, 200).functors,
+  }, [preset, finiteC, finiteD]);
+  const F: FunctorMap | undefined = preset?.F ?? candidates?.F[customF];
+  const G: FunctorMap | undefined = preset?.G ?? candidates?.G[customG];
+
+  const search = useMemo(
+    () => (F && G ? searchAdjunction(finiteC, finiteD, F, G) : null),
+    [finiteC, finiteD, F, G]
+  );
+  const unit = search?.units[unitIndex ?? search.best?.unit ?? 0];
+  const counit = search?.counits[counitIndex ?? search.best?.counit ?? 0];
+  const triangles = useMemo(
+    () => (F && G && unit && counit ? triangleChecks(finiteC, finiteD, F, G, unit, counit) : []),
+    [finiteC, finiteD, F, G, unit, counit]
+  );
+  // φ is only the adjunction's once some unit and counit pass the triangles; until then compare sizes
+  const homUnit = search?.adjoint ? unit : undefined;
+  const homRows = useMemo(
+    () => (F && G && search?.functorIssues.length === 0 ? homComparison(finiteC, finiteD, F, G, homUnit) : []),
+    [finiteC, finiteD, F, G, search, homUnit]
+  );
+
+  // Objects with nowhere to send η_A: A → GF(A) or ε_B: FG(B) → B
+  const missing = useMemo(() => {
+    if (!F || !G || search?.functorIssues.length !== 0) return { unit: [] as string[], counit: [] as string[] };
+    return {
+      unit: C.objects.filter((a) => hom(finiteC, a.id, G.objectMap[F.objectMap[a.id]]).length === 0).map((a) => a.id),
+      counit: D.objects.filter((b) => hom(finiteD, F.objectMap[G.objectMap[b.id]], b.id).length === 0).map((b) => b.id),
+    };
+  }, [C, D, finiteC, finiteD, F, G, search]);
+
+  // Everything that is wrong at an object, for the canvas
+  const failing = useMemo(() => ({
+    C: new Set([
+      ...missing.unit,
+      ...triangles.filter((t) => t.identity === 'left' && !t.holds).map((t) => t.object),
+      ...homRows.filter((r) => !r.bijective).map((r) => r.a),
+    ]),
+    D: new Set([
+      ...missing.counit,
+      ...triangles.filter((t) => t.identity === 'right' && !t.holds).map((t) => t.object),
+      ...homRows.filter((r) => !r.bijective).map((r) => r.b),
+    ]),
+  }), [missing, triangles, homRows]);
+
+  const changeCategory = (side: 'C' | 'D', category: CategoryDefinition) => {
+    (side === 'C' ? setCustomC : setCustomD)(category);
+    loadPreset(CUSTOM);
+  };
+
+  // "A↦X, B↦Y; f↦α" with the labels of both categories
+  const describeFunctor = (source: FiniteCategory, target: FiniteCategory, functor: FunctorMap) => {
+    const objects = source.objects.map((o) => `${o.label}↦${objectLabel(target, functor.objectMap[o.id])}`);
+    const arrows = source.morphisms
+      .filter((m) => functor.morphismMap[m.id] !== undefined && m.id !== source.identities[m.source])
+      .map((m) => `${m.label}↦${morphismLabel(target, functor.morphismMap[m.id])}`);
+    return [objects.join(', '), arrows.join(', ')].filter(Boolean).join('; ');
+  };
+
+  const describeComponents = (cat: FiniteCategory, name: string, components: Map<string, string>) =>
+    [...components].map(([obj, m]) => `${name}_${objectLabel(cat, obj)} = ${morphismLabel(cat, m)}`).join(', ');
+
+  // Draw C and D with the object maps of F (above) and G (below)
+  useEffect(() => {
+    if (!svgRef.current) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll('*').remove();
+    if (!F || !G) return;
+
+    const defs = svg.append('defs');
+    [['c', 'var(--color-accent)'], ['d', 'var(--color-success)'], ['f', '#f59f00'], ['g', 'var(--color-text-muted)']]
+      .forEach(([name, color]) => {
+        defs.append('marker')
+          .attr('id', `adj-arrow-${name}`)
+          .attr('viewBox', '-0 -5 10 10')
+          .attr('refX', 8)
+          .attr('refY', 0)
+          .attr('orient', 'auto')
+          .attr('markerWidth', 5)
+          .attr('markerHeight', 5)
+          .append('path')
+          .attr('d', 'M 0,-4 L 8,0 L 0,4')
+          .attr('fill', color);
+      });
+
+    // Object maps first, so the categories are drawn on top of them
+    const objectMap = (
+      from: { x: number; y: number }, to: { x: number; y: number }, bulge: number, marker: string, color: string
+    ) => {
+      const dx = to.x - from.x;
+      const dy = to.y - from.y;
+      const len = Math.sqrt(dx * dx + dy * dy) || 1;
+      const midX = (from.x + to.x) / 2;
+      const midY = (from.y + to.y) / 2 + bulge;
+      svg.append('path')
+        .attr('d', `M ${from.x + (dx / len) * 16} ${from.y + (dy / len) * 16} Q ${midX} ${midY} ${to.x - (dx / len) * 18} ${to.y - (dy / len) * 18}`)
+        .attr('fill', 'none')
+        .attr('stroke', color)
+        .attr('stroke-width', 1.5)
+        .attr('stroke-dasharray', '4,4')
+        .attr('opacity', 0.7)
+        .attr('marker-end', `url(#adj-arrow-${marker})`);
+    };
+
+    placedC.forEach((a) => {
+      const fa = placedD.find((b) => b.id === F.objectMap[a.id]);
+      if (fa) objectMap(a, fa, -50, 'f', '#f59f00');
+    });
+    placedD.forEach((b) => {
+      const gb = placedC.find((a) => a.id === G.objectMap[b.id]);
+      if (gb) objectMap(b, gb, 50, 'g', 'var(--color-text-muted)');
+    });
+
+    svg.append('text')
+      .attr('x', 280)
+      .attr('y', 22)
+      .attr('text-anchor', 'middle')
+      .attr('font-size', '14px')
+      .attr('font-weight', 'bold')
+      .attr('fill', '#f59f00')
+      .text('F →');
+    svg.append('text')
+      .attr('x', 280)
+      .attr('y', 248)
+      .attr('text-anchor', 'middle')
+      .attr('font-size', '14px')
+      .attr('font-weight', 'bold')
+      .attr('fill', 'var(--color-text-muted)')
+      .text('← G');
+
+    const drawCategory = (
+      cat: CategoryDefinition, placed: typeof placedC, failing: Set<string>, marker: string, color: string, labelX: number
+    ) => {
+      svg.append('text')
+        .attr('x', labelX)
+        .attr('y', 22)
+        .attr('text-anchor', 'middle')
+        .attr('font-size', '16px')
+        .attr('font-weight', 'bold')
+        .attr('fill', color)
+        .text(cat.name);
+
+      const arrows = generators(cat);
+      arrows.forEach((m) => {
+        const geometry = arrowGeometry(m, arrows, placed, 16);
+        if (!geometry) return;
+        svg.append('path')
+          .attr('d', geometry.d)
+          .attr('fill', 'none')
+          .attr('stroke', color)
+          .attr('stroke-width', 2)
+          .attr('marker-end', `url(#adj-arrow-${marker})`);
+        svg.append('text')
+          .attr('x', geometry.labelX)
+          .attr('y', geometry.labelY)
+          .attr('text-anchor', 'middle')
+          .attr('dy', '0.35em')
+          .attr('font-size', '10px')
+          .attr('fill', color)
+          .text(m.label);
+      });
+
+      placed.forEach((obj, idx) => {
+        const isFailing = failing.has(obj.id);
+        const group = svg.append('g')
+          .attr('class', `adj-object ${isFailing ? 'failing' : ''}`)
+          .attr('transform', `translate(${obj.x}, ${obj.y})`);
+
+        if (isFailing) {
+          group.append('circle')
+            .attr('r', 21)
+            .attr('fill', 'none')
+            .attr('stroke', 'var(--color-error)')
+            .attr('stroke-width', 3)
+            .attr('opacity', 0.5);
+        }
+
+        group.append('circle')
+          .attr('r', 0)
+          .attr('fill', 'var(--color-bg-primary)')
+          .attr('stroke', isFailing ? 'var(--color-error)' : color)
+          .attr('stroke-width', 2)
+          .transition()
+          .delay(idx * 60)
+          .duration(300)
+          .attr('r', 16);
+
+        group.append('text')
+          .attr('text-anchor', 'middle')
+          .attr('dy', '0.35em')
+          .attr('font-size', '12px')
+          .attr('font-weight', 'bold')
+          .attr('fill', 'var(--color-text-primary)')
+          .text(obj.label);
+      });
+    };
+
+    drawCategory(C, placedC, failing.C, 'c', 'var(--color-accent)', paneC.x + paneC.width / 2);
+    drawCategory(D, placedD, failing.D, 'd', 'var(--color-success)', paneD.x + paneD.width / 2);
+  }, [C, D, F, G, placedC, placedD, failing]);
+
+  const verdict = (() => {
+    if (!search) return null;
+    if (search.functorIssues.length > 0) return 'F or G is not a functor, so there is nothing to adjoin.';
+    if (search.adjoint) return 'F ⊣ G: F is left adjoint to G.';
+    if (search.units.length === 0) return 'There is no natural transformation η: id_C ⇒ GF, so F is not left adjoint to G.';
+    if (search.counits.length === 0) return 'There is no natural transformation ε: FG ⇒ id_D, so F is not left adjoint to G.';
+    return `None of the ${search.units.length * search.counits.length} unit/counit pairs satisfies both triangle identities, so F is not left adjoint to G.`;
+  })();
+
+  return (
+    <div className="adjunction-explorer">
+      {showHint && (
+        <SimulatorHint
+          title="Adjunction Explorer"
+          description="Check whether F: C → D is left adjoint to G: D → C by finding the unit and counit and testing the triangle identities."
+          steps={hintSteps}
+          tips={tips}
+          onDismiss={() => setShowHint(false)}
+          compact={false}
+        />
+      )}
+
+      {!showHint && (
+        <button
+          className="hint-toggle-btn"
+          onClick={() => setShowHint(true)}
+          title="Show help"
+        >
+          <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <circle cx="12" cy="12" r="10" />
+            <path d="M9.09 9a3 3 0 0 1 5.83 1c0 2-3 3-3 3" />
+            <line x1="12" y1="17" x2="12.01" y2="17" />
+          </svg>
+          <span>Help</span>
+        </button>
+      )}
+
+      <div className="adj-controls">
+        <select value={presetIndex} onChange={(e) => loadPreset(Number(e.target.value))}>
+          {adjunctionPresets.map((p, i) => <option key={p.id} value={i}>{p.name}</option>)}
+          <option value={CUSTOM}>Custom F, G</option>
+        </select>
+        <span className="adj-description">
+          {preset ? preset.description : 'Pick two finite categories and a functor each way'}
+        </span>
+      </div>
+
+      {!preset && candidates && (
+        <div className="adj-custom">
+          <div className="adj-row">
+            <span className="adj-label">C =</span>
+            <CategoryPicker value={customC} defaults={[]} onChange={(c) => changeCategory('C', c)} />
+            <span className="adj-label">D =</span>
+            <CategoryPicker value={customD} defaults={[]} onChange={(c) => changeCategory('D', c)} />
+          </div>
+          {(['F', 'G'] as const).map((name) => {
+            const list = candidates[name];
+            const [source, target] = name === 'F' ? [finiteC, finiteD] : [finiteD, finiteC];
+            return (
+              <div key={name} className="adj-row">
+                <span className="adj-label">{name}:</span>
+                {list.length === 0 ? (
+                  <span className="adj-error">There is no functor {source.name} → {target.name}.</span>
+                ) : (
+                  <select
+                    value={name === 'F' ? customF : customG}
+                    onChange={(e) => {
+                      (name === 'F' ? setCustomF : setCustomG)(Number(e.target.value));
+                      setUnitIndex(null);
+                      setCounitIndex(null);
+                    }}
+                  >
+                    {list.map((f, i) => <option key={i} value={i}>{describeFunctor(source, target, f) || 'Empty functor'}</option>)}
+                  </select>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="adj-canvas">
+        <svg ref={svgRef} width="100%" height="260" viewBox="0 0 560 260" />
+      </div>
+
+      {search && (
+        <div className={`adj-verdict ${search.adjoint ? 'holds' : 'fails'}`}>
+          <strong>{verdict}</strong>
+          <ul>
+            {search.functorIssues.map((issue, i) => <li key={i}>{issue}</li>)}
+            {missing.unit.map((a) => (
+              <li key={`u-${a}`}>
+                η_{objectLabel(finiteC, a)} would need an arrow {objectLabel(finiteC, a)} → GF({objectLabel(finiteC, a)}) = {objectLabel(finiteC, G!.objectMap[F!.objectMap[a]])}, and there is none.
+              </li>
+            ))}
+            {missing.counit.map((b) => (
+              <li key={`e-${b}`}>
+                ε_{objectLabel(finiteD, b)} would need an arrow FG({objectLabel(finiteD, b)}) = {objectLabel(finiteD, F!.objectMap[G!.objectMap[b]])} → {objectLabel(finiteD, b)}, and there is none.
+              </li>
+            ))}
+            {search.countMismatches.map((row) => (
+              <li key={`${row.a}-${row.b}`}>
+                |Hom_D(F({objectLabel(finiteC, row.a)}), {objectLabel(finiteD, row.b)})| = {row.left.length}
+                {' '}but |Hom_C({objectLabel(finiteC, row.a)}, G({objectLabel(finiteD, row.b)}))| = {row.right.length}
+              </li>
+            ))}
+          </ul>
+          {search.truncated && <p className="adj-note">The search stopped at 200 transformations each way.</p>}
+        </div>
+      )}
+
+      {search && unit && counit && (
+        <div className="adj-panel">
+          <div className="adj-title">Unit and counit</div>
+          <div className="adj-row">
+            <span className="adj-label">η:</span>
+            {search.units.length > 1 ? (
+              <select value={unitIndex ?? search.best?.unit ?? 0} onChange={(e) => setUnitIndex(Number(e.target.value))}>
+                {search.units.map((u, i) => <option key={i} value={i}>{describeComponents(finiteC, 'η', u)}</option>)}
+              </select>
+            ) : (
+              <code>{describeComponents(finiteC, 'η', unit)}</code>
+            )}
+          </div>
+          <div className="adj-row">
+            <span className="adj-label">ε:</span>
+            {search.counits.length > 1 ? (
+              <select value={counitIndex ?? search.best?.counit ?? 0} onChange={(e) => setCounitIndex(Number(e.target.value))}>
+                {search.counits.map((c, i) => <option key={i} value={i}>{describeComponents(finiteD, 'ε', c)}</option>)}
+              </select>
+            ) : (
+              <code>{describeComponents(finiteD, 'ε', counit)}</code>
+            )}
+          </div>
+          <p className="adj-note">
+            {search.units.length} natural unit{search.units.length === 1 ? '' : 's'} and {search.counits.length} natural
+            counit{search.counits.length === 1 ? '' : 's'}.
+          </p>
+        </div>
+      )}
+
+      {triangles.length > 0 && (
+        <div className="adj-panel">
+          <div className="adj-title">Triangle identities</div>
+          <table className="adj-table">
+            <tbody>
+              {triangles.map((t) => {
+                const [cat, name] = t.identity === 'left'
+                  ? [finiteD, objectLabel(finiteC, t.object)]
+                  : [finiteC, objectLabel(finiteD, t.object)];
+                const formula = t.identity === 'left'
+                  ? `ε_F(${name}) ∘ F(η_${name})`
+                  : `G(ε_${name}) ∘ η_G(${name})`;
+                return (
+                  <tr key={`${t.identity}-${t.object}`} className={t.holds ? '' : 'fails'}>
+                    <td>{formula}</td>
+                    <td>= {morphismLabel(cat, t.composite)}</td>
+                    <td>{t.holds ? '=' : '≠'} {morphismLabel(cat, t.expected)}</td>
+                    <td>{t.holds ? '✓' : '✗'}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {homRows.length > 0 && (
+        <div className="adj-panel">
+          <div className="adj-title">Hom_D(F(A), B) ≅ Hom_C(A, G(B)){homUnit ? ' via φ(g) = G(g)∘η_A' : ''}</div>
+          <table className="adj-table">
+            <thead>
+              <tr>
+                <th>A, B</th>
+                <th>Hom_D(F(A), B)</th>
+                <th>φ</th>
+                <th>Hom_C(A, G(B))</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {homRows.map((row) => (
+                <tr key={`${row.a}-${row.b}`} className={row.bijective ? '' : 'fails'}>
+                  <td>{objectLabel(finiteC, row.a)}, {objectLabel(finiteD, row.b)}</td>
+                  <td>{row.left.map((g) => morphismLabel(finiteD, g)).join(', ') || '∅'}</td>
+                  <td>{homUnit ? row.images.map((f) => morphismLabel(finiteC, f)).join(', ') || '∅' : '—'}</td>
+                  <td>{row.right.map((f) => morphismLabel(finiteC, f)).join(', ') || '∅'}</td>
+                  <td>{row.bijective ? '✓' : '✗'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
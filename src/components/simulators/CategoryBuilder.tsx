@@ -1,22 +1,35 @@
-import { useState, useRef, useEffect, useCallback } from 'react';
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import * as d3 from 'd3';
 import SimulatorHint, { HintStep } from './SimulatorHint';
+import CategoryPicker from './CategoryPicker';
+import { CategoryConstruction, CategoryDefinition, CompositeEntry, DiagramNode, Morphism, PlacedObject } from '../../utils/categoryTypes';
+import {
+  AxiomViolation,
+  checkCategoryAxioms,
+  composablePairs,
+  createFiniteCategory,
+  forcedComposites,
+  hom,
+  identityId,
+  opposite,
+  pairKey,
+} from '../../utils/categoryEngine';
+import { generateCategory, oppositeEquation, parsePathEquation, PathEquation } from '../../utils/freeCategory';
+import { toCategoryFile } from '../../utils/categoryFile';
+import { HomSet, uniqueIsomorphisms, universalObjects } from '../../utils/universalObjects';
+import {
+  arrowCategory,
+  cosliceCategory,
+  fullSubcategory,
+  functorCategory,
+  productCategory,
+  sliceCategory,
+} from '../../utils/categoryConstructions';
+import { arrowGeometry, fitLayout } from '../../utils/layout';
+import { diamondPoset, walkingArrow } from '../../data/smallCategories';
+import { useSavedCategories } from '../../hooks/useLocalStorage';
 import './CategoryBuilder.css';
 
-interface CategoryObject {
-  id: string;
-  label: string;
-  x: number;
-  y: number;
-}
-
-interface Morphism {
-  id: string;
-  label: string;
-  source: string;
-  target: string;
-}
-
 const hintSteps: HintStep[] = [
   {
     title: 'Add Objects',
@@ -33,23 +46,94 @@ const hintSteps: HintStep[] = [
     description: 'Organize your category diagram by dragging objects to new positions. The morphism arrows will follow.',
     action: 'Click and drag any object to reposition it',
   },
+  {
+    title: 'Generate a Free Category',
+    description: 'Switch on "Free" to close the drawn graph under composition. Paths become morphisms (dashed arrows); add equations like g∘f = h to take a quotient.',
+    action: 'Click "Free" and set the path-length bound for cyclic graphs',
+  },
+  {
+    title: 'Take the Opposite',
+    description: 'Click "op" to reverse every arrow. Composition flips with it: g∘f = h becomes fᵒᵖ∘gᵒᵖ = hᵒᵖ. Click again to get the original back, since (Cᵒᵖ)ᵒᵖ = C.',
+    action: 'Click "op" and watch the arrows turn around',
+  },
+  {
+    title: 'Derive a Category',
+    description: 'Click "Derive" to build a new category from a finite one: a product C × D, a slice C/X or coslice X/C, the arrow category C^→ or a full subcategory. It opens here, laid out and ready to check.',
+    action: 'Slice the diamond poset over ⊤ and look for the product of a and b',
+  },
+  {
+    title: 'Build a Functor Category',
+    description: 'Under "Derive", the functor category [C, D] has every functor C → D as an object and every natural transformation as an arrow. Compare [2, D] with the arrow category of D: they are the same.',
+    action: 'Choose C = 2 and D = "FinSet on ∅, 1, 2"',
+  },
+  {
+    title: 'Declare Composites',
+    description: 'For every composable pair g∘f, say which morphism it equals. When only one arrow fits, the composite is forced and filled in for you.',
+    action: 'Pick the result of each pair in the composition table',
+  },
   {
     title: 'Check Category Axioms',
-    description: 'A valid category must have identity morphisms and be closed under composition. The status bar shows if your category is valid.',
+    description: 'The checker reports missing or ambiguous composites, identity-law violations and associativity failures. Click a counterexample to highlight it.',
     action: 'Watch the verification status as you add morphisms',
   },
+  {
+    title: 'Find Initial and Terminal Objects',
+    description: 'Switch on "0 / 1" to mark initial, terminal and zero objects. Objects that miss out are explained by the hom-set that is empty or has too many arrows.',
+    action: 'Click "0 / 1" and click an isomorphism to highlight it',
+  },
+  {
+    title: 'Save and Share',
+    description: 'Once the axioms hold, save the category under a name to load it in the Functor Mapper, or export it as a JSON file.',
+    action: 'Name your category and click "Save"',
+  },
 ];
 
+const violationTitles: Record<AxiomViolation['kind'], string> = {
+  'ill-typed-composite': 'Ill-typed composite',
+  'missing-composite': 'Missing composite',
+  'ambiguous-composite': 'Ambiguous composite',
+  'identity-law': 'Identity law',
+  'associativity': 'Associativity',
+};
+
+const exampleCompositions: CompositeEntry[] = [
+  { before: 'f', after: 'g', result: 'gf' },
+];
+
+// Derived categories can have thousands of composable pairs; only the first are listed
+const maxTableRows = 60;
+
+const constructionLabels: Record<CategoryConstruction, string> = {
+  product: 'Product C × D',
+  slice: 'Slice C/X',
+  coslice: 'Coslice X/C',
+  arrow: 'Arrow category C^→',
+  'full-subcategory': 'Full subcategory',
+  'functor-category': 'Functor category [C, D]',
+};
+
+// Ring colours for the objects the finder marks
+const universalColors: Record<'initial' | 'terminal', string> = {
+  initial: 'var(--color-success)',
+  terminal: 'var(--color-warning)',
+};
+
 const tips = [
   'Every object has an implicit identity morphism (not shown)',
   'Composition must be associative: (h∘g)∘f = h∘(g∘f)',
   'If f: A→B and g: B→C exist, then g∘f: A→C should exist',
   'Click an object to select it, then click Delete to remove it',
+  'Initial and terminal objects are unique up to unique isomorphism',
+  'A product in the slice C/X is a pullback over X in C',
 ];
 
-export default function CategoryBuilder() {
+interface CategoryBuilderProps {
+  findUniversal?: boolean; // start with initial and terminal objects marked
+}
+
+export default function CategoryBuilder({ findUniversal = false }: CategoryBuilderProps) {
   const svgRef = useRef<SVGSVGElement>(null);
-  const [objects, setObjects] = useState<CategoryObject[]>([
+  const [objects, setObjects] = useState<PlacedObject[]>([
     { id: 'A', label: 'A', x: 80, y: 80 },
     { id: 'B', label: 'B', x: 220, y: 80 },
     { id: 'C', label: 'C', x: 150, y: 180 },
@@ -65,15 +149,30 @@ export default function CategoryBuilder() {
   const [nextLabel, setNextLabel] = useState('D');
   const [showHint, setShowHint] = useState(true);
   const [animatingMorphism, setAnimatingMorphism] = useState<string | null>(null);
-  const [verification, setVerification] = useState({
-    hasIdentities: true,
-    compositionClosed: true,
-    message: 'Valid category structure',
-  });
+  const [compositions, setCompositions] = useState<CompositeEntry[]>(exampleCompositions);
+  const [highlighted, setHighlighted] = useState<string[]>([]);
+  const [freeMode, setFreeMode] = useState(false);
+  const [pathBound, setPathBound] = useState(3);
+  const [equations, setEquations] = useState<string[]>([]);
+  const [equationInput, setEquationInput] = useState('');
+  const [equationError, setEquationError] = useState<string | null>(null);
+  const [saveName, setSaveName] = useState('My category');
+  const [savedMessage, setSavedMessage] = useState<string | null>(null);
+  const [showUniversal, setShowUniversal] = useState(findUniversal);
+  const [isoHighlight, setIsoHighlight] = useState<string[]>([]);
+  const [isOpposite, setIsOpposite] = useState(false);
+  const [flipping, setFlipping] = useState(false);
+  const [showConstruct, setShowConstruct] = useState(false);
+  const [construction, setConstruction] = useState<CategoryConstruction>('slice');
+  const [constructFrom, setConstructFrom] = useState<CategoryDefinition>(diamondPoset);
+  const [constructWith, setConstructWith] = useState<CategoryDefinition>(walkingArrow);
+  const [constructAt, setConstructAt] = useState('top');
+  const [constructKeep, setConstructKeep] = useState<string[]>(diamondPoset.objects.map((o) => o.id));
+  const { saveCategory } = useSavedCategories();
 
   // Add new object with animation
   const addObject = () => {
-    const newObj: CategoryObject = {
+    const newObj: PlacedObject = {
       id: nextLabel,
       label: nextLabel,
       x: 50 + Math.random() * 200,
@@ -133,8 +232,11 @@ export default function CategoryBuilder() {
   const clearCategory = () => {
     setObjects([]);
     setMorphisms([]);
+    setCompositions([]);
+    setEquations([]);
     setNextLabel('A');
     setSelectedObject(null);
+    setIsOpposite(false);
   };
 
   // Reset to example
@@ -149,53 +251,262 @@ export default function CategoryBuilder() {
       { id: 'g', label: 'g', source: 'B', target: 'C' },
       { id: 'gf', label: 'g∘f', source: 'A', target: 'C' },
     ]);
+    setCompositions(exampleCompositions);
+    setEquations([]);
     setNextLabel('D');
     setSelectedObject(null);
+    setIsOpposite(false);
+  };
+
+  // Replace the category by its opposite: arrows, composition table and equations all turn around
+  const flipToOpposite = () => {
+    const op = opposite({ id: 'builder', name: 'Builder', objects, morphisms, compositions });
+    setMorphisms(op.morphisms);
+    setCompositions(op.compositions);
+    setEquations(equations.map((text) => oppositeEquation({ id: 'builder', name: 'Builder', objects, morphisms }, text)));
+    setHighlighted([]);
+    setIsOpposite(!isOpposite);
+    setFlipping(true);
+    setTimeout(() => setFlipping(false), 700);
+  };
+
+  // Replace the drawing by a finished category; identities stay implicit
+  const openDefinition = (def: CategoryDefinition) => {
+    const identities = new Set(def.objects.map((o) => identityId(o.id)));
+    setObjects(fitLayout(def.objects, { x: 40, y: 40, width: 220, height: 140 }));
+    setMorphisms(def.morphisms.filter((m) => !identities.has(m.id)));
+    setCompositions(def.compositions.filter((e) => !identities.has(e.before) && !identities.has(e.after)));
+    setEquations([]);
+    setFreeMode(false);
+    setIsOpposite(false);
+    setSelectedObject(null);
+    setHighlighted([]);
+    setSaveName(def.name);
+    setNextLabel([...'ABCDEFGHIJKLMNOPQRSTUVWXYZ'].find((l) => !def.objects.some((o) => o.id === l)) ?? 'A');
+  };
+
+  // A new base category resets the object to slice over and the objects to keep
+  const pickConstructFrom = (base: CategoryDefinition) => {
+    setConstructFrom(base);
+    setConstructAt(base.objects[base.objects.length - 1]?.id ?? '');
+    setConstructKeep(base.objects.map((o) => o.id));
   };
 
   // Delete selected object
   const deleteSelected = () => {
     if (selectedObject) {
-      setObjects(objects.filter((o) => o.id !== selectedObject));
-      setMorphisms(morphisms.filter(
+      const remaining = morphisms.filter(
         (m) => m.source !== selectedObject && m.target !== selectedObject
+      );
+      const remainingIds = new Set(remaining.map((m) => m.id));
+      setObjects(objects.filter((o) => o.id !== selectedObject));
+      setMorphisms(remaining);
+      setCompositions(compositions.filter(
+        (c) => remainingIds.has(c.before) && remainingIds.has(c.after) && remainingIds.has(c.result)
       ));
       setSelectedObject(null);
     }
   };
 
-  // Verify category axioms
-  useEffect(() => {
-    let message = 'Valid category structure';
-    let compositionClosed = true;
+  // Declare (or clear) the composite of a pair
+  const declareComposite = (before: string, after: string, result: string) => {
+    const others = compositions.filter((c) => !(c.before === before && c.after === after));
+    setCompositions(result ? [...others, { before, after, result }] : others);
+  };
+
+  // Category as the engine sees it, with forced composites filled in
+  // Keyed on ids and labels only, so dragging an object does not re-run the checks
+  const objectKey = JSON.stringify(objects.map((o) => [o.id, o.label]));
+  const category = useMemo(
+    () => ({
+      id: 'builder',
+      name: 'Builder',
+      objects: (JSON.parse(objectKey) as [string, string][]).map(([id, label]) => ({ id, label })),
+      morphisms,
+    }),
+    [objectKey, morphisms]
+  );
+  const forced = useMemo(
+    () => forcedComposites(category, compositions),
+    [category, compositions]
+  );
+
+  // In free mode the drawn graph only generates the category
+  const parsedEquations = useMemo(
+    () => equations.map((text) => parsePathEquation(category, text)),
+    [category, equations]
+  );
+  const generated = useMemo(() => {
+    if (!freeMode) return null;
+    const valid: PathEquation[] = parsedEquations.flatMap((p) => (p.ok ? [p.equation] : []));
+    return generateCategory(category, valid, pathBound);
+  }, [freeMode, category, parsedEquations, pathBound]);
+  const generatedMorphisms = useMemo(
+    () => generated
+      ? generated.category.morphisms.filter((m) => generated.generated.includes(m.id))
+      : [],
+    [generated]
+  );
+
+  // Add a path equation for the free category quotient
+  const addEquation = () => {
+    const parsed = parsePathEquation(category, equationInput);
+    if (!parsed.ok) {
+      setEquationError(parsed.error);
+      return;
+    }
+    setEquations([...equations, equationInput.trim()]);
+    setEquationInput('');
+    setEquationError(null);
+  };
+
+  const finite = useMemo(
+    () => generated
+      ? createFiniteCategory(generated.category, generated.table)
+      : createFiniteCategory(category, [...compositions, ...forced]),
+    [generated, category, compositions, forced]
+  );
+  const pairs = useMemo(() => composablePairs(finite), [finite]);
 
+  // Initial, terminal and zero objects, and the isomorphisms that make them unique
+  const universal = useMemo(() => universalObjects(finite), [finite]);
+  const isos = useMemo(() => uniqueIsomorphisms(finite, universal), [finite, universal]);
+  const nodeTypes = useMemo(() => {
+    const types: Record<string, DiagramNode['type']> = {};
+    if (!showUniversal) return types;
+    universal.forEach((r) => {
+      types[r.object] = r.zero ? 'zero' : r.initial ? 'initial' : r.terminal ? 'terminal' : 'object';
+    });
+    return types;
+  }, [showUniversal, universal]);
+
+  // Verify category axioms (a generated category satisfies them by construction)
+  const violations = useMemo(
+    () => generated ? [] : checkCategoryAxioms(category, [...compositions, ...forced]),
+    [generated, category, compositions, forced]
+  );
+
+  const verification = useMemo(() => {
+    if (generated) {
+      const arrows = generated.category.morphisms.length;
+      const quotient = parsedEquations.some((p) => p.ok) ? ' (quotient by path equations)' : '';
+      return generated.truncated
+        ? { valid: false, message: `${arrows} morphisms${quotient}; composites longer than ${pathBound} arrows are cut off` }
+        : { valid: true, message: `Generated category with ${arrows} non-identity morphisms${quotient}` };
+    }
     if (objects.length === 0) {
-      message = 'Empty category (valid)';
-    } else if (morphisms.length === 0) {
-      message = 'Only identity morphisms present';
-    } else {
-      const composablePairs: string[] = [];
-      morphisms.forEach((m1) => {
-        morphisms.forEach((m2) => {
-          if (m1.target === m2.source && m1.id !== m2.id) {
-            const compositionExists = morphisms.some(
-              (m) => m.source === m1.source && m.target === m2.target
-            );
-            if (!compositionExists) {
-              composablePairs.push(`${m2.label}∘${m1.label}`);
-            }
-          }
-        });
-      });
+      return { valid: true, message: 'Empty category (valid)' };
+    }
+    if (morphisms.length === 0) {
+      return { valid: true, message: 'Only identity morphisms present' };
+    }
+    if (violations.length > 0) {
+      return {
+        valid: false,
+        message: `${violations.length} axiom violation${violations.length > 1 ? 's' : ''}: ${violations[0].message}`,
+      };
+    }
+    return { valid: true, message: 'Valid category: composition is closed, unital and associative' };
+  }, [generated, parsedEquations, pathBound, objects, morphisms, violations]);
+
+  // What gets saved or exported: the generated category, or the drawn one with its table
+  const definition = useMemo((): CategoryDefinition => {
+    const name = saveName.trim() || 'My category';
+    const base = generated
+      ? { morphisms: generated.category.morphisms, compositions: generated.table }
+      : { morphisms, compositions: [...compositions, ...forced] };
+    return { id: `saved-${name}`, name, objects, ...base };
+  }, [saveName, generated, objects, morphisms, compositions, forced]);
+
+  const handleSave = () => {
+    saveCategory(definition);
+    setSavedMessage(`Saved "${definition.name}"; pick it in the Functor Mapper`);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([toCategoryFile(definition)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${definition.name.replace(/[^\w-]+/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // A save confirmation goes stale as soon as the category changes
+  useEffect(() => {
+    setSavedMessage(null);
+  }, [definition]);
+
+  // Drop highlights that no longer point at a counterexample
+  useEffect(() => {
+    setHighlighted((current) =>
+      violations.some((v) => v.morphisms.join() === current.join()) ? current : []
+    );
+  }, [violations]);
 
-      if (composablePairs.length > 0) {
-        compositionClosed = false;
-        message = `Missing compositions: ${composablePairs.slice(0, 3).join(', ')}${composablePairs.length > 3 ? '...' : ''}`;
+  // Opening a section about initial and terminal objects switches the finder on
+  useEffect(() => {
+    setShowUniversal(findUniversal);
+  }, [findUniversal]);
+
+  // Forget a highlighted isomorphism once it is no longer one of the connecting isos
+  useEffect(() => {
+    setIsoHighlight((current) =>
+      showUniversal && isos.some((iso) => [iso.forward, iso.backward].join() === current.join()) ? current : []
+    );
+  }, [showUniversal, isos]);
+
+  // The derived category the "Open" button would load
+  const derived = useMemo(() => {
+    if (!showConstruct) return null;
+    const hasX = constructFrom.objects.some((o) => o.id === constructAt);
+    switch (construction) {
+      case 'product':
+        return productCategory(constructFrom, constructWith);
+      case 'slice':
+        return hasX ? sliceCategory(constructFrom, constructAt) : null;
+      case 'coslice':
+        return hasX ? cosliceCategory(constructFrom, constructAt) : null;
+      case 'arrow':
+        return arrowCategory(constructFrom);
+      case 'full-subcategory':
+        return fullSubcategory(constructFrom, constructKeep);
+      case 'functor-category': {
+        const result = functorCategory(constructFrom, constructWith);
+        return result.truncated ? null : result.definition;
       }
     }
+  }, [showConstruct, construction, constructFrom, constructWith, constructAt, constructKeep]);
 
-    setVerification({ hasIdentities: true, compositionClosed, message });
-  }, [objects, morphisms]);
+  const constructNote = () => {
+    const x = constructFrom.objects.find((o) => o.id === constructAt)?.label ?? constructAt;
+    switch (construction) {
+      case 'product':
+        return 'An arrow (f, g): (A, B) → (A′, B′) pairs f in C with g in D; projecting to either factor is a functor.';
+      case 'slice':
+        return `Objects are the arrows into ${x}. The identity on ${x} is terminal, and a product of two objects is their pullback over ${x} in C.`;
+      case 'coslice':
+        return `Objects are the arrows out of ${x}. The identity on ${x} is initial, and a coproduct of two objects is their pushout under ${x} in C.`;
+      case 'arrow':
+        return 'Objects are the arrows of C; an arrow between them is a commuting square.';
+      case 'full-subcategory':
+        return 'Every arrow of C between the chosen objects is kept, so the inclusion is full and faithful.';
+      case 'functor-category':
+        return 'Objects are the functors C → D, arrows the natural transformations, composed component by component. A functor 2 → D is just an arrow of D, so [2, D] is the arrow category D^→.';
+    }
+  };
+
+  const objectLabel = (id: string) => objects.find((o) => o.id === id)?.label ?? id;
+  const arrowLabel = (id: string) => finite.morphismById.get(id)?.label ?? id;
+
+  // "Hom(A, C) is empty" or "Hom(A, B) has 2 arrows: f, g"
+  const describeHomSet = (h: HomSet) => {
+    const name = `Hom(${objectLabel(h.source)}, ${objectLabel(h.target)})`;
+    return h.arrows.length === 0
+      ? `${name} is empty`
+      : `${name} has ${h.arrows.length} arrows: ${h.arrows.map(arrowLabel).join(', ')}`;
+  };
 
   // D3 rendering with animations
   useEffect(() => {
@@ -231,109 +542,83 @@ export default function CategoryBuilder() {
     createMarker('arrowhead', 'var(--color-accent)');
     createMarker('arrowhead-new', 'var(--color-success)');
     createMarker('arrowhead-source', '#f59f00');
+    createMarker('arrowhead-error', 'var(--color-error)');
 
-    // Draw morphisms (arrows)
-    const linkGroup = svg.append('g').attr('class', 'links');
-
-    morphisms.forEach((morphism) => {
-      const source = objects.find((o) => o.id === morphism.source);
-      const target = objects.find((o) => o.id === morphism.target);
-
-      if (!source || !target) return;
+    createMarker('arrowhead-generated', 'var(--color-text-muted)');
 
-      const dx = target.x - source.x;
-      const dy = target.y - source.y;
-      const dist = Math.sqrt(dx * dx + dy * dy);
-
-      if (dist === 0) return;
+    // Draw morphisms (arrows); generated composites are dashed
+    const linkGroup = svg.append('g').attr('class', 'links');
+    const drawn = [
+      ...morphisms.map((m) => ({ morphism: m, generated: false })),
+      ...generatedMorphisms.map((m) => ({ morphism: m, generated: true })),
+    ];
 
-      const nodeRadius = 20;
-      const startX = source.x + (dx / dist) * nodeRadius;
-      const startY = source.y + (dy / dist) * nodeRadius;
-      const endX = target.x - (dx / dist) * nodeRadius;
-      const endY = target.y - (dy / dist) * nodeRadius;
+    const drawnMorphisms = drawn.map((d) => d.morphism);
+    // The arrows as they were before "op": every one turned back round
+    const unflipped = drawnMorphisms.map((m) => ({ ...m, source: m.target, target: m.source }));
 
-      const hasReverse = morphisms.some(
-        (m) => m.source === morphism.target && m.target === morphism.source
-      );
+    drawn.forEach(({ morphism, generated }, index) => {
+      const geometry = arrowGeometry(morphism, drawnMorphisms, objects, 20);
+      if (!geometry) return;
 
       const isNew = morphism.id === animatingMorphism;
+      const isFlagged = highlighted.includes(morphism.id);
+      const isIso = isoHighlight.includes(morphism.id);
+      const stroke = isFlagged ? 'var(--color-error)'
+        : isIso ? '#f59f00'
+        : isNew ? 'var(--color-success)'
+        : generated ? 'var(--color-text-muted)'
+        : 'var(--color-accent)';
+      const marker = isFlagged ? 'arrowhead-error'
+        : isIso ? 'arrowhead-source'
+        : isNew ? 'arrowhead-new'
+        : generated ? 'arrowhead-generated'
+        : 'arrowhead';
       const link = linkGroup.append('g')
-        .attr('class', `link ${isNew ? 'new-morphism' : ''}`);
-
-      if (hasReverse) {
-        const midX = (startX + endX) / 2;
-        const midY = (startY + endY) / 2;
-        const perpX = -(endY - startY) / dist * 25;
-        const perpY = (endX - startX) / dist * 25;
+        .attr('class', `link ${isNew ? 'new-morphism' : ''} ${isFlagged ? 'flagged' : ''} ${generated ? 'generated' : ''}`);
 
-        const path = link.append('path')
-          .attr('fill', 'none')
-          .attr('stroke', isNew ? 'var(--color-success)' : 'var(--color-accent)')
-          .attr('stroke-width', 2)
-          .attr('marker-end', `url(#${isNew ? 'arrowhead-new' : 'arrowhead'})`);
-
-        if (isNew) {
-          path
-            .attr('d', `M ${startX} ${startY} Q ${startX} ${startY} ${startX} ${startY}`)
-            .transition()
-            .duration(duration)
-            .attr('d', `M ${startX} ${startY} Q ${midX + perpX} ${midY + perpY} ${endX} ${endY}`);
-        } else {
-          path.attr('d', `M ${startX} ${startY} Q ${midX + perpX} ${midY + perpY} ${endX} ${endY}`);
-        }
+      const path = link.append('path')
+        .attr('fill', 'none')
+        .attr('stroke', stroke)
+        .attr('stroke-width', isFlagged ? 3 : 2)
+        .attr('stroke-dasharray', generated ? '4,3' : null)
+        .attr('marker-end', `url(#${marker})`)
+        .attr('d', geometry.d);
 
-        link.append('text')
-          .attr('x', midX + perpX * 1.5)
-          .attr('y', midY + perpY * 1.5)
-          .attr('text-anchor', 'middle')
-          .attr('font-size', '12px')
-          .attr('font-weight', isNew ? 'bold' : 'normal')
-          .attr('fill', isNew ? 'var(--color-success)' : 'var(--color-text-primary)')
-          .style('opacity', isNew ? 0 : 1)
-          .text(morphism.label)
+      const before = flipping ? arrowGeometry(unflipped[index], unflipped, objects, 20) : null;
+      if (isNew) {
+        // Draw the new arrow out from its source
+        const length = path.node()!.getTotalLength();
+        path
+          .attr('stroke-dasharray', `${length} ${length}`)
+          .attr('stroke-dashoffset', length)
           .transition()
           .duration(duration)
-          .style('opacity', 1);
-      } else {
-        const line = link.append('line')
-          .attr('stroke', isNew ? 'var(--color-success)' : 'var(--color-accent)')
-          .attr('stroke-width', 2)
-          .attr('marker-end', `url(#${isNew ? 'arrowhead-new' : 'arrowhead'})`);
-
-        if (isNew) {
-          line
-            .attr('x1', startX)
-            .attr('y1', startY)
-            .attr('x2', startX)
-            .attr('y2', startY)
-            .transition()
-            .duration(duration)
-            .attr('x2', endX)
-            .attr('y2', endY);
-        } else {
-          line
-            .attr('x1', startX)
-            .attr('y1', startY)
-            .attr('x2', endX)
-            .attr('y2', endY);
-        }
-
-        const labelX = (startX + endX) / 2;
-        const labelY = (startY + endY) / 2 - 10;
-        link.append('text')
-          .attr('x', labelX)
-          .attr('y', labelY)
-          .attr('text-anchor', 'middle')
-          .attr('font-size', '12px')
-          .attr('font-weight', isNew ? 'bold' : 'normal')
-          .attr('fill', isNew ? 'var(--color-success)' : 'var(--color-text-primary)')
-          .style('opacity', isNew ? 0 : 1)
-          .text(morphism.label)
+          .attr('stroke-dashoffset', 0);
+      } else if (before) {
+        // Start from the arrow as it was before "op" and swing it round
+        path
+          .attr('d', before.d)
           .transition()
-          .duration(duration)
-          .style('opacity', 1);
+          .duration(600)
+          .ease(d3.easeCubicInOut)
+          .attr('d', geometry.d);
       }
+
+      link.append('text')
+        .attr('x', geometry.labelX)
+        .attr('y', geometry.labelY)
+        .attr('text-anchor', 'middle')
+        .attr('dy', '0.35em')
+        .attr('font-size', generated ? '10px' : '12px')
+        .attr('font-weight', isNew || isFlagged ? 'bold' : 'normal')
+        .attr('fill', isFlagged ? 'var(--color-error)' : isNew ? 'var(--color-success)' : generated ? 'var(--color-text-muted)' : 'var(--color-text-primary)')
+        .style('opacity', isNew || flipping ? 0 : 1)
+        .text(morphism.label)
+        .transition()
+        .delay(flipping ? 450 : 0)
+        .duration(duration)
+        .style('opacity', 1);
     });
 
     // Draw objects (circles)
@@ -390,6 +675,27 @@ export default function CategoryBuilder() {
         .attr('fill', isSelected ? 'white' : 'var(--color-text-primary)')
         .style('pointer-events', 'none')
         .text(obj.label);
+
+      // Rings and a caption for initial, terminal and zero objects
+      const kind = nodeTypes[obj.id];
+      if (kind === 'initial' || kind === 'terminal' || kind === 'zero') {
+        const rings = kind === 'zero' ? ['initial', 'terminal'] as const : [kind];
+        rings.forEach((ring, idx) => {
+          node.append('circle')
+            .attr('r', 24 + idx * 4)
+            .attr('fill', 'none')
+            .attr('stroke', universalColors[ring])
+            .attr('stroke-width', 2)
+            .style('pointer-events', 'none');
+        });
+        node.append('text')
+          .attr('text-anchor', 'middle')
+          .attr('y', kind === 'zero' ? 40 : 36)
+          .attr('font-size', '10px')
+          .attr('fill', kind === 'zero' ? 'var(--color-text-secondary)' : universalColors[kind])
+          .style('pointer-events', 'none')
+          .text(kind);
+      }
     });
 
     // Drag behavior
@@ -418,7 +724,7 @@ export default function CategoryBuilder() {
 
     nodeGroup.selectAll<SVGGElement, unknown>('.node').call(drag);
 
-  }, [objects, morphisms, selectedObject, morphismSource, animatingMorphism, handleObjectClick, nextLabel, isAddingMorphism]);
+  }, [objects, morphisms, selectedObject, morphismSource, animatingMorphism, handleObjectClick, nextLabel, isAddingMorphism, highlighted, generatedMorphisms, nodeTypes, isoHighlight, flipping]);
 
   return (
     <div className="category-builder">
@@ -473,6 +779,34 @@ export default function CategoryBuilder() {
             Delete
           </button>
         )}
+        <button
+          className={`btn btn-sm ${freeMode ? 'btn-primary' : 'btn-ghost'}`}
+          onClick={() => setFreeMode(!freeMode)}
+          title="Generate free category"
+        >
+          Free
+        </button>
+        <button
+          className={`btn btn-sm ${isOpposite ? 'btn-primary' : 'btn-ghost'}`}
+          onClick={flipToOpposite}
+          title={isOpposite ? 'Back to the original category' : 'Reverse every arrow (opposite category)'}
+        >
+          op
+        </button>
+        <button
+          className={`btn btn-sm ${showUniversal ? 'btn-primary' : 'btn-ghost'}`}
+          onClick={() => setShowUniversal(!showUniversal)}
+          title="Find initial, terminal and zero objects"
+        >
+          0 / 1
+        </button>
+        <button
+          className={`btn btn-sm ${showConstruct ? 'btn-primary' : 'btn-ghost'}`}
+          onClick={() => setShowConstruct(!showConstruct)}
+          title="Build a product, slice, coslice, arrow category or full subcategory"
+        >
+          Derive
+        </button>
         <div className="toolbar-spacer" />
         <button className="btn btn-ghost btn-sm" onClick={resetToExample} title="Reset to example">
           <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -552,9 +886,231 @@ export default function CategoryBuilder() {
         </div>
       </div>
 
-      <div className={`builder-verification ${verification.compositionClosed ? 'valid' : 'warning'}`}>
+      {freeMode && (
+        <div className="builder-free-panel">
+          <label className="free-bound">
+            <span>Path-length bound</span>
+            <input
+              type="number"
+              min={1}
+              max={6}
+              value={pathBound}
+              onChange={(e) => setPathBound(Math.max(1, Math.min(6, Number(e.target.value) || 1)))}
+            />
+          </label>
+          <div className="free-equation-input">
+            <input
+              type="text"
+              placeholder="g∘f = h"
+              value={equationInput}
+              onChange={(e) => setEquationInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addEquation()}
+            />
+            <button className="btn btn-secondary btn-sm" onClick={addEquation}>
+              Add equation
+            </button>
+          </div>
+          {equationError && <div className="free-equation-error">{equationError}</div>}
+          {equations.length > 0 && (
+            <div className="info-list">
+              {equations.map((text, idx) => {
+                const parsed = parsedEquations[idx];
+                return (
+                  <span
+                    key={`${text}-${idx}`}
+                    className={`morphism-tag equation-tag ${parsed?.ok ? '' : 'invalid'}`}
+                    title={parsed && !parsed.ok ? parsed.error : undefined}
+                  >
+                    {text}
+                    <button onClick={() => setEquations(equations.filter((_, i) => i !== idx))}>×</button>
+                  </span>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+
+      {showConstruct && (
+        <div className="builder-construct">
+          <div className="construct-controls">
+            <select
+              value={construction}
+              onChange={(e) => setConstruction(e.target.value as CategoryConstruction)}
+            >
+              {(Object.keys(constructionLabels) as CategoryConstruction[]).map((c) => (
+                <option key={c} value={c}>{constructionLabels[c]}</option>
+              ))}
+            </select>
+            <span className="construct-label">C</span>
+            <CategoryPicker value={constructFrom} defaults={[definition]} onChange={pickConstructFrom} />
+            {(construction === 'product' || construction === 'functor-category') && (
+              <>
+                <span className="construct-label">D</span>
+                <CategoryPicker value={constructWith} defaults={[definition]} onChange={setConstructWith} />
+              </>
+            )}
+            {(construction === 'slice' || construction === 'coslice') && (
+              <>
+                <span className="construct-label">X</span>
+                <select value={constructAt} onChange={(e) => setConstructAt(e.target.value)}>
+                  {constructFrom.objects.map((o) => <option key={o.id} value={o.id}>{o.label}</option>)}
+                </select>
+              </>
+            )}
+          </div>
+          {construction === 'full-subcategory' && (
+            <div className="construct-keep">
+              {constructFrom.objects.map((o) => (
+                <label key={o.id}>
+                  <input
+                    type="checkbox"
+                    checked={constructKeep.includes(o.id)}
+                    onChange={() => setConstructKeep(
+                      constructKeep.includes(o.id)
+                        ? constructKeep.filter((id) => id !== o.id)
+                        : constructFrom.objects.map((c) => c.id).filter((id) => id === o.id || constructKeep.includes(id))
+                    )}
+                  />
+                  {o.label}
+                </label>
+              ))}
+            </div>
+          )}
+          <p className="construct-note">{constructNote()}</p>
+          <div className="construct-open">
+            {derived ? (
+              <span>
+                {derived.name}: {derived.objects.length} objects,{' '}
+                {derived.morphisms.filter((m) => m.id !== identityId(m.source)).length} non-identity arrows
+              </span>
+            ) : construction === 'functor-category' && (
+              <span>Too many functors or natural transformations to draw; pick smaller categories.</span>
+            )}
+            <button
+              className="btn btn-secondary btn-sm"
+              onClick={() => derived && openDefinition(derived)}
+              disabled={!derived || derived.objects.length === 0}
+            >
+              Open
+            </button>
+          </div>
+        </div>
+      )}
+
+      {!freeMode && pairs.length > 0 && (
+        <div className="builder-compositions">
+          <h4>Composition table</h4>
+          <div className="composition-rows">
+            {pairs.slice(0, maxTableRows).map(([f, g]) => {
+              const mf = finite.morphismById.get(f)!;
+              const mg = finite.morphismById.get(g)!;
+              const declared = compositions.find((c) => c.before === f && c.after === g);
+              const isForced = !declared && finite.composites.has(pairKey(f, g));
+              return (
+                <label key={pairKey(f, g)} className={`composition-row ${isForced ? 'forced' : ''}`}>
+                  <span className="composition-formal">{mg.label}∘{mf.label} =</span>
+                  <select
+                    value={declared?.result ?? ''}
+                    onChange={(e) => declareComposite(f, g, e.target.value)}
+                  >
+                    <option value="">
+                      {isForced ? `${finite.morphismById.get(finite.composites.get(pairKey(f, g))!)?.label} (forced)` : '— undeclared —'}
+                    </option>
+                    {hom(finite, mf.source, mg.target).map((m) => (
+                      <option key={m.id} value={m.id}>{m.label}</option>
+                    ))}
+                  </select>
+                </label>
+              );
+            })}
+          </div>
+          {pairs.length > maxTableRows && (
+            <p className="composition-more">
+              {pairs.length - maxTableRows} more composable pairs are not listed; the checker still covers them.
+            </p>
+          )}
+        </div>
+      )}
+
+      {violations.length > 0 && (
+        <ul className="builder-violations">
+          {violations.map((v, idx) => (
+            <li
+              key={idx}
+              className={`violation-item ${highlighted.join() === v.morphisms.join() ? 'active' : ''}`}
+              onClick={() => setHighlighted(highlighted.join() === v.morphisms.join() ? [] : v.morphisms)}
+            >
+              <span className="violation-kind">{violationTitles[v.kind]}</span>
+              <span className="violation-message">{v.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {showUniversal && objects.length > 0 && (
+        <div className="builder-universal">
+          <h4>Initial and terminal objects</h4>
+          <div className="universal-summary">
+            {(['initial', 'terminal', 'zero'] as const).map((kind) => {
+              const found = universal.filter((r) => r[kind]).map((r) => objectLabel(r.object));
+              return (
+                <span key={kind} className={`universal-kind ${kind}`}>
+                  {kind[0].toUpperCase() + kind.slice(1)}: {found.length > 0 ? found.join(', ') : 'none'}
+                </span>
+              );
+            })}
+          </div>
+
+          {isos.length > 0 && (
+            <ul className="universal-isos">
+              {isos.map((iso) => {
+                const pair = [iso.forward, iso.backward];
+                const active = isoHighlight.join() === pair.join();
+                return (
+                  <li
+                    key={`${iso.kind}-${iso.b}`}
+                    className={active ? 'active' : ''}
+                    onClick={() => setIsoHighlight(active ? [] : pair)}
+                  >
+                    Both {objectLabel(iso.a)} and {objectLabel(iso.b)} are {iso.kind}: the only arrows{' '}
+                    {arrowLabel(iso.forward)}: {objectLabel(iso.a)} → {objectLabel(iso.b)} and{' '}
+                    {arrowLabel(iso.backward)}: {objectLabel(iso.b)} → {objectLabel(iso.a)}{' '}
+                    {iso.roundTrip
+                      ? <>compose to the identities, so {arrowLabel(iso.forward)} is the unique isomorphism.</>
+                      : <>should compose to the identities, but the composition table says otherwise.</>}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          <ul className="universal-reports">
+            {universal.map((r) => (
+              <li key={r.object}>
+                <strong>{objectLabel(r.object)}</strong>
+                {r.initial
+                  ? <span className="universal-yes"> is initial</span>
+                  : <span> is not initial: {r.outgoing.map(describeHomSet).join('; ')}</span>}
+                <br />
+                {r.terminal
+                  ? <span className="universal-yes"> is terminal</span>
+                  : <span> is not terminal: {r.incoming.map(describeHomSet).join('; ')}</span>}
+              </li>
+            ))}
+          </ul>
+
+          {violations.length > 0 && (
+            <p className="universal-note">
+              The composition table is not a category yet, so these hom-sets are only the arrows drawn so far.
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className={`builder-verification ${verification.valid ? 'valid' : 'warning'}`}>
         <span className="verification-icon">
-          {verification.compositionClosed ? (
+          {verification.valid ? (
             <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
               <path d="M22 11.08V12a10 10 0 1 1-5.93-9.14" />
               <polyline points="22 4 12 14.01 9 11.01" />
@@ -569,6 +1125,31 @@ export default function CategoryBuilder() {
         </span>
         <span className="verification-message">{verification.message}</span>
       </div>
+
+      <div className="builder-save">
+        <input
+          type="text"
+          value={saveName}
+          onChange={(e) => setSaveName(e.target.value)}
+          placeholder="Category name"
+        />
+        <button
+          className="btn btn-secondary btn-sm"
+          onClick={handleSave}
+          disabled={!verification.valid || objects.length === 0}
+          title={verification.valid ? 'Save for use in other simulators' : 'Fix the axiom violations first'}
+        >
+          Save
+        </button>
+        <button
+          className="btn btn-ghost btn-sm"
+          onClick={handleExport}
+          disabled={!verification.valid || objects.length === 0}
+        >
+          Export JSON
+        </button>
+        {savedMessage && <span className="save-message">{savedMessage}</span>}
+      </div>
     </div>
   );
 }
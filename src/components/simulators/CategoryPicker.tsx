@@ -0,0 +1,90 @@
+import { useRef, useState } from 'react';
+import { CategoryDefinition } from '../../utils/categoryTypes';
+import { parseCategoryFile } from '../../utils/categoryFile';
+import { smallCategories } from '../../data/smallCategories';
+import { useSavedCategories } from '../../hooks/useLocalStorage';
+import './CategoryPicker.css';
+
+interface CategoryPickerProps {
+  value: CategoryDefinition;
+  defaults: CategoryDefinition[]; // the simulator's own example categories
+  onChange: (category: CategoryDefinition) => void;
+}
+
+const IMPORT = 'import';
+
+// Option key for a category; saved and imported ones are keyed by name
+const optionKey = (group: string, category: CategoryDefinition) => `${group}:${category.id}:${category.name}`;
+
+/**
+ * Dropdown for choosing a finite category: a simulator's defaults, the
+ * library of standard small categories, categories saved from the Category
+ * Builder, or a JSON file.
+ */
+export default function CategoryPicker({ value, defaults, onChange }: CategoryPickerProps) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const { savedCategories } = useSavedCategories();
+  const [imported, setImported] = useState<CategoryDefinition | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const groups: [string, string, CategoryDefinition[]][] = [
+    ['default', 'Examples', defaults],
+    ['library', 'Standard categories', smallCategories],
+    ['saved', 'Saved from Category Builder', savedCategories.map((s) => s.definition)],
+    ['file', 'Imported', imported ? [imported] : []],
+  ];
+  const options = groups.flatMap(([group, , categories]) =>
+    categories.map((c) => [optionKey(group, c), c] as const)
+  );
+  const selected = options.find(([, c]) => c === value)?.[0]
+    ?? options.find(([, c]) => c.id === value.id && c.name === value.name)?.[0]
+    ?? '';
+
+  const handleSelect = (key: string) => {
+    setError(null);
+    if (key === IMPORT) {
+      fileRef.current?.click();
+      return;
+    }
+    const option = options.find(([k]) => k === key);
+    if (option) onChange(option[1]);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const result = parseCategoryFile(await file.text(), file.name.replace(/\.json$/, ''));
+    if (result.ok) {
+      setImported(result.category);
+      setError(null);
+      onChange(result.category);
+    } else {
+      setError(result.error);
+    }
+    if (fileRef.current) fileRef.current.value = '';
+  };
+
+  return (
+    <div className="category-picker">
+      <select value={selected} onChange={(e) => handleSelect(e.target.value)} title={value.description}>
+        {groups.map(([group, label, categories]) =>
+          categories.length > 0 && (
+            <optgroup key={group} label={label}>
+              {categories.map((c) => (
+                <option key={optionKey(group, c)} value={optionKey(group, c)}>{c.name}</option>
+              ))}
+            </optgroup>
+          )
+        )}
+        <option value={IMPORT}>Import file…</option>
+      </select>
+      <input
+        ref={fileRef}
+        type="file"
+        accept=".json,application/json"
+        hidden
+        onChange={(e) => handleFile(e.target.files?.[0])}
+      />
+      {error && <div className="category-picker-error">{error}</div>}
+    </div>
+  );
+}
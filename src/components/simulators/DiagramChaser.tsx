@@ -0,0 +1,552 @@
+import { useState, useRef, useEffect, useMemo } from 'react';
+import * as d3 from 'd3';
+import SimulatorHint, { HintStep } from './SimulatorHint';
+import CategoryPicker from './CategoryPicker';
+import LimitCalculator from './LimitCalculator';
+import { CategoryDefinition } from '../../utils/categoryTypes';
+import { createFiniteCategory } from '../../utils/categoryEngine';
+import { arrowGeometry, fitLayout } from '../../utils/layout';
+import { enumeratePaths, GraphPath, graphPathLabel, parsePathEquation, pathKey, pathTarget } from '../../utils/freeCategory';
+import { evaluatePath } from '../../utils/finiteSets';
+import {
+  checkCommutation,
+  Diagram,
+  diagramFromCategory,
+  equationLabel,
+  ProofStep,
+  provePathEquality,
+} from '../../utils/diagramChase';
+import { exampleDiagrams } from '../../data/diagrams';
+import { diamondPoset } from '../../data/smallCategories';
+import './DiagramChaser.css';
+
+// Longest path the chaser considers; rewrites may not go beyond it either
+const chaseBound = 4;
+
+const canvasBox = { x: 50, y: 45, width: 280, height: 170 };
+
+// Index of the "build your own" entry in the diagram dropdown
+const CUSTOM = exampleDiagrams.length;
+
+const hintSteps: HintStep[] = [
+  {
+    title: 'Pick a Diagram',
+    description: 'Choose an example diagram, or "Build your own" to load a category from the library and add objects, arrows and equations.',
+    action: 'Use the dropdown to select a diagram',
+  },
+  {
+    title: 'Start a Path',
+    description: 'Click an object to start there, then click the highlighted outgoing arrows to step along a path.',
+    action: 'Click an object, then an arrow leaving it',
+  },
+  {
+    title: 'Compare Parallel Paths',
+    description: 'Every other path with the same start and end is listed. The chaser rewrites with the asserted equations, also inside longer paths, to decide whether they are equal.',
+    action: 'Click a parallel path to see the proof',
+  },
+  {
+    title: 'Does It Commute?',
+    description: 'The verdict checks every pair of parallel paths. Equalities that follow from the asserted ones are listed as derived, each with its proof trace.',
+  },
+  {
+    title: 'Chase an Element',
+    description: 'Diagrams in Set come with actual functions: pick an element of the start object and follow its image along the path.',
+  },
+  {
+    title: 'Compute Limits and Colimits',
+    description: 'Below the verdict, the diagram is read in FinSet. Edit the sets and functions, see the limit and colimit with their (co)cone maps, and test a competing (co)cone against the universal property.',
+    action: 'Open "Sets and functions" and change a value',
+  },
+];
+
+const tips = [
+  'A diagram commutes when any two paths with the same start and end compose to the same morphism',
+  'Pasting: if two adjacent squares commute, so does the outer rectangle',
+  'Equations can be used inside longer paths: from g∘f = k it follows that h∘g∘f = h∘k',
+  'h∘f = h∘g does not give f = g unless h is a monomorphism',
+  `Only paths of up to ${chaseBound} arrows are considered, so loops are checked up to that bound`,
+];
+
+// Copy of a diagram that can be edited without touching the examples
+const editable = (diagram: Diagram): Diagram => ({
+  ...diagram,
+  id: 'custom-diagram',
+  graph: { ...diagram.graph, objects: [...diagram.graph.objects], morphisms: [...diagram.graph.morphisms] },
+  equations: [...diagram.equations],
+});
+
+// Fresh ID based on a label, avoiding the ones in use
+const freshId = (label: string, taken: string[]) => {
+  const base = label.replace(/\s+/g, '') || 'x';
+  let id = base;
+  for (let n = 2; taken.includes(id); n++) id = `${base}${n}`;
+  return id;
+};
+
+export default function DiagramChaser() {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [activeDiagram, setActiveDiagram] = useState(0);
+  const [showHint, setShowHint] = useState(true);
+  const [start, setStart] = useState<string | null>(null);
+  const [steps, setSteps] = useState<string[]>([]);
+  const [element, setElement] = useState<string | null>(null);
+  const [comparison, setComparison] = useState<[GraphPath, GraphPath] | null>(null);
+
+  // Custom diagram and its editor fields
+  const [loadedCategory, setLoadedCategory] = useState<CategoryDefinition>(diamondPoset);
+  const [custom, setCustom] = useState<Diagram>(() => editable(diagramFromCategory(diamondPoset)));
+  const [objectLabel, setObjectLabel] = useState('');
+  const [arrowDraft, setArrowDraft] = useState({ label: '', source: '', target: '' });
+  const [equationText, setEquationText] = useState('');
+  const [editError, setEditError] = useState<string | null>(null);
+
+  const isCustom = activeDiagram === CUSTOM;
+  const diagram = isCustom ? custom : exampleDiagrams[activeDiagram];
+  const { graph } = diagram;
+  const finite = useMemo(() => createFiniteCategory(graph), [graph]);
+  const report = useMemo(() => checkCommutation(diagram, chaseBound), [diagram]);
+
+  const path: GraphPath | null = useMemo(() => start ? { source: start, arrows: steps } : null, [start, steps]);
+  const end = path ? pathTarget(graph, path) : null;
+  const label = (p: GraphPath) => graphPathLabel(graph, p);
+  const objectName = (id: string | null) => graph.objects.find((o) => o.id === id)?.label ?? id ?? '';
+
+  // Other paths with the same endpoints as the current one, with proofs where they exist
+  const parallel = useMemo(() => {
+    if (!path || path.arrows.length === 0) return [];
+    return enumeratePaths(graph, chaseBound)
+      .filter((p) => p.arrows.length > 0 && p.source === path.source && pathTarget(graph, p) === end)
+      .filter((p) => pathKey(p) !== pathKey(path))
+      .map((p) => ({ path: p, proof: provePathEquality(diagram, path, p, chaseBound) }));
+  }, [diagram, graph, path, end]);
+
+  const proof: ProofStep[] | null = useMemo(
+    () => comparison ? provePathEquality(diagram, comparison[0], comparison[1], chaseBound) : null,
+    [comparison, diagram]
+  );
+
+  // Element chase, for diagrams interpreted in Set
+  const interpretation = diagram.interpretation;
+  const startElements = interpretation && start ? interpretation.sets[start] ?? [] : [];
+  const x = element !== null && startElements.includes(element) ? element : startElements[0];
+  const valueAlong = (p: GraphPath) =>
+    interpretation && x !== undefined ? evaluatePath(finite, interpretation, p.arrows, x) : [];
+
+  // A witness element for a failing pair, when there are sets to look in
+  const counterexample = (a: GraphPath, b: GraphPath) => {
+    if (!interpretation) return undefined;
+    return (interpretation.sets[a.source] ?? []).find((e) => {
+      const ea = evaluatePath(finite, interpretation, a.arrows, e);
+      const eb = evaluatePath(finite, interpretation, b.arrows, e);
+      return ea[ea.length - 1] !== eb[eb.length - 1];
+    });
+  };
+
+  const resetPath = () => {
+    setStart(null);
+    setSteps([]);
+    setComparison(null);
+  };
+
+  const chooseDiagram = (index: number) => {
+    setActiveDiagram(index);
+    setElement(null);
+    setEditError(null);
+    resetPath();
+  };
+
+  const updateCustom = (next: Diagram) => {
+    setCustom(next);
+    setEditError(null);
+    resetPath();
+  };
+
+  const loadCategory = (category: CategoryDefinition) => {
+    setLoadedCategory(category);
+    updateCustom(editable(diagramFromCategory(category)));
+  };
+
+  const addObject = () => {
+    const text = objectLabel.trim();
+    if (!text) return;
+    const id = freshId(text, graph.objects.map((o) => o.id));
+    updateCustom({ ...custom, graph: { ...graph, objects: [...graph.objects, { id, label: text }] } });
+    setObjectLabel('');
+  };
+
+  const addArrow = () => {
+    const text = arrowDraft.label.trim();
+    if (!text || !arrowDraft.source || !arrowDraft.target) {
+      setEditError('An arrow needs a label, a source and a target');
+      return;
+    }
+    const id = freshId(text, graph.morphisms.map((m) => m.id));
+    updateCustom({
+      ...custom,
+      graph: {
+        ...graph,
+        morphisms: [...graph.morphisms, { id, label: text, source: arrowDraft.source, target: arrowDraft.target }],
+      },
+    });
+    setArrowDraft({ ...arrowDraft, label: '' });
+  };
+
+  const removeArrow = (id: string) => {
+    updateCustom({
+      ...custom,
+      graph: { ...graph, morphisms: graph.morphisms.filter((m) => m.id !== id) },
+      equations: custom.equations.filter((eq) => !eq.lhs.arrows.includes(id) && !eq.rhs.arrows.includes(id)),
+    });
+  };
+
+  const addEquation = () => {
+    const parsed = parsePathEquation(graph, equationText);
+    if (!parsed.ok) {
+      setEditError(parsed.error);
+      return;
+    }
+    updateCustom({ ...custom, equations: [...custom.equations, parsed.equation] });
+    setEquationText('');
+  };
+
+  const removeEquation = (index: number) => {
+    updateCustom({ ...custom, equations: custom.equations.filter((_, i) => i !== index) });
+  };
+
+  // Draw the diagram with the current path
+  useEffect(() => {
+    if (!svgRef.current) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll('*').remove();
+
+    const placed = fitLayout(graph.objects, canvasBox);
+    const onPath = new Map<string, number[]>();
+    steps.forEach((id, i) => onPath.set(id, [...(onPath.get(id) ?? []), i + 1]));
+
+    const defs = svg.append('defs');
+    [['default', 'var(--color-accent)'], ['path', '#f59f00'], ['muted', 'var(--color-text-muted)']].forEach(([name, color]) => {
+      defs.append('marker')
+        .attr('id', `dc-arrow-${name}`)
+        .attr('viewBox', '-0 -5 10 10')
+        .attr('refX', 8)
+        .attr('refY', 0)
+        .attr('orient', 'auto')
+        .attr('markerWidth', 6)
+        .attr('markerHeight', 6)
+        .append('path')
+        .attr('d', 'M 0,-4 L 8,0 L 0,4')
+        .attr('fill', color);
+    });
+
+    // Arrows: on the path, available as the next step, or neither
+    graph.morphisms.forEach((m) => {
+      const geometry = arrowGeometry(m, graph.morphisms, placed, 20);
+      if (!geometry) return;
+      const stepNumbers = onPath.get(m.id);
+      const available = end !== null && m.source === end;
+      const color = stepNumbers ? '#f59f00' : available ? 'var(--color-accent)' : 'var(--color-text-muted)';
+      const group = svg.append('g')
+        .attr('class', `dc-arrow ${available ? 'available' : ''}`)
+        .style('cursor', available ? 'pointer' : 'default')
+        .on('click', () => {
+          if (available) {
+            setSteps([...steps, m.id]);
+            setComparison(null);
+          }
+        });
+
+      group.append('path')
+        .attr('d', geometry.d)
+        .attr('fill', 'none')
+        .attr('stroke', 'transparent')
+        .attr('stroke-width', 12);
+
+      group.append('path')
+        .attr('d', geometry.d)
+        .attr('fill', 'none')
+        .attr('stroke', color)
+        .attr('stroke-width', stepNumbers ? 3 : available ? 2 : 1.5)
+        .attr('stroke-dasharray', available && !stepNumbers ? '5,3' : null)
+        .attr('marker-end', `url(#dc-arrow-${stepNumbers ? 'path' : available ? 'default' : 'muted'})`);
+
+      group.append('text')
+        .attr('x', geometry.labelX)
+        .attr('y', geometry.labelY)
+        .attr('dy', '0.35em')
+        .attr('text-anchor', 'middle')
+        .attr('font-size', '12px')
+        .attr('font-weight', stepNumbers ? 'bold' : 'normal')
+        .attr('fill', color)
+        .text(stepNumbers ? `${m.label} (${stepNumbers.join(',')})` : m.label);
+    });
+
+    // Objects: click to start a path there
+    placed.forEach((obj, index) => {
+      const isStart = obj.id === start;
+      const isEnd = obj.id === end;
+      const group = svg.append('g')
+        .attr('class', 'dc-object')
+        .attr('transform', `translate(${obj.x}, ${obj.y})`)
+        .attr('opacity', 0)
+        .style('cursor', 'pointer')
+        .on('click', () => {
+          setStart(obj.id);
+          setSteps([]);
+          setComparison(null);
+        });
+
+      group.append('circle')
+        .attr('r', 18)
+        .attr('fill', 'var(--color-bg-primary)')
+        .attr('stroke', isStart ? 'var(--color-success)' : isEnd ? '#f59f00' : 'var(--color-accent)')
+        .attr('stroke-width', isStart || isEnd ? 3 : 2);
+
+      group.append('text')
+        .attr('text-anchor', 'middle')
+        .attr('dy', '0.35em')
+        .attr('font-size', '14px')
+        .attr('font-weight', 'bold')
+        .attr('fill', 'var(--color-text-primary)')
+        .text(obj.label);
+
+      group.transition()
+        .delay(index * 60)
+        .duration(300)
+        .attr('opacity', 1);
+    });
+  }, [graph, start, steps, end]);
+
+  const trace = path ? valueAlong(path) : [];
+
+  return (
+    <div className="diagram-chaser">
+      {showHint && (
+        <SimulatorHint
+          title="Diagram Chaser"
+          description="Walk along the paths of a diagram and let the chaser decide which of them are equal. A diagram commutes when all parallel paths agree."
+          steps={hintSteps}
+          tips={tips}
+          onDismiss={() => setShowHint(false)}
+          compact={false}
+        />
+      )}
+
+      {!showHint && (
+        <button
+          className="hint-toggle-btn"
+          onClick={() => setShowHint(true)}
+          title="Show help"
+        >
+          <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <circle cx="12" cy="12" r="10" />
+            <path d="M9.09 9a3 3 0 0 1 5.83 1c0 2-3 3-3 3" />
+            <line x1="12" y1="17" x2="12.01" y2="17" />
+          </svg>
+          <span>Help</span>
+        </button>
+      )}
+
+      <div className="dc-controls">
+        <div className="dc-selector">
+          <label>Diagram:</label>
+          <select value={activeDiagram} onChange={(e) => chooseDiagram(Number(e.target.value))}>
+            {exampleDiagrams.map((d, i) => (
+              <option key={d.id} value={i}>{d.name}</option>
+            ))}
+            <option value={CUSTOM}>Build your own</option>
+          </select>
+        </div>
+        <button className="btn btn-ghost btn-sm" onClick={() => setSteps(steps.slice(0, -1))} disabled={steps.length === 0}>
+          Back
+        </button>
+        <button className="btn btn-ghost btn-sm" onClick={resetPath} disabled={!start}>
+          Reset path
+        </button>
+      </div>
+
+      {diagram.description && (
+        <div className="dc-description">{diagram.description}</div>
+      )}
+
+      {isCustom && (
+        <div className="dc-editor">
+          <div className="dc-editor-row">
+            <span className="dc-editor-label">Load</span>
+            <CategoryPicker value={loadedCategory} defaults={[]} onChange={loadCategory} />
+            <button className="btn btn-ghost btn-sm" onClick={() => updateCustom({ ...custom, graph: { ...graph, objects: [], morphisms: [] }, equations: [] })}>
+              Clear
+            </button>
+          </div>
+          <div className="dc-editor-row">
+            <span className="dc-editor-label">Object</span>
+            <input
+              value={objectLabel}
+              placeholder="label"
+              onChange={(e) => setObjectLabel(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addObject()}
+            />
+            <button className="btn btn-ghost btn-sm" onClick={addObject}>Add</button>
+          </div>
+          <div className="dc-editor-row">
+            <span className="dc-editor-label">Arrow</span>
+            <input
+              value={arrowDraft.label}
+              placeholder="label"
+              onChange={(e) => setArrowDraft({ ...arrowDraft, label: e.target.value })}
+            />
+            <select value={arrowDraft.source} onChange={(e) => setArrowDraft({ ...arrowDraft, source: e.target.value })}>
+              <option value="">from…</option>
+              {graph.objects.map((o) => <option key={o.id} value={o.id}>{o.label}</option>)}
+            </select>
+            <select value={arrowDraft.target} onChange={(e) => setArrowDraft({ ...arrowDraft, target: e.target.value })}>
+              <option value="">to…</option>
+              {graph.objects.map((o) => <option key={o.id} value={o.id}>{o.label}</option>)}
+            </select>
+            <button className="btn btn-ghost btn-sm" onClick={addArrow}>Add</button>
+          </div>
+          <div className="dc-editor-row">
+            <span className="dc-editor-label">Equation</span>
+            <input
+              value={equationText}
+              placeholder="g∘f = h"
+              onChange={(e) => setEquationText(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addEquation()}
+            />
+            <button className="btn btn-ghost btn-sm" onClick={addEquation}>Assert</button>
+          </div>
+          {editError && <div className="dc-error">{editError}</div>}
+          <div className="dc-chips">
+            {graph.morphisms.map((m) => (
+              <span key={m.id} className="dc-chip">
+                {m.label}: {objectName(m.source)}→{objectName(m.target)}
+                <button onClick={() => removeArrow(m.id)} title="Remove arrow">×</button>
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="dc-canvas">
+        <svg ref={svgRef} width="100%" height="260" viewBox="0 0 380 260" />
+      </div>
+
+      <div className="dc-equations">
+        <span className="dc-section-title">Asserted</span>
+        {diagram.equations.length === 0 && <span className="dc-note">no equations</span>}
+        {diagram.equations.map((eq, i) => (
+          <span key={i} className="dc-chip equation">
+            ({i + 1}) {equationLabel(graph, eq)}
+            {isCustom && <button onClick={() => removeEquation(i)} title="Remove equation">×</button>}
+          </span>
+        ))}
+      </div>
+
+      <div className="dc-path">
+        {!path ? (
+          <span className="dc-note">Click an object to start a path</span>
+        ) : (
+          <>
+            <div>
+              <span className="dc-section-title">Path</span>{' '}
+              <code>{path.arrows.length === 0 ? `start at ${objectName(start)}` : label(path)}</code>
+              {path.arrows.length > 0 && <span className="dc-note"> : {objectName(start)} → {objectName(end)}</span>}
+            </div>
+            {interpretation && x !== undefined && (
+              <div className="dc-trace">
+                <select value={x} onChange={(e) => setElement(e.target.value)}>
+                  {startElements.map((el) => <option key={el} value={el}>{el}</option>)}
+                </select>
+                {path.arrows.map((id, i) => (
+                  <span key={i}>
+                    <span className="dc-note"> ↦<sub>{finite.morphismById.get(id)?.label}</sub> </span>
+                    <code>{trace[i + 1] ?? '?'}</code>
+                  </span>
+                ))}
+              </div>
+            )}
+            {path.arrows.length > 0 && (
+              <ul className="dc-parallel">
+                {parallel.length === 0 && <li className="dc-note">No other path from {objectName(start)} to {objectName(end)}</li>}
+                {parallel.map(({ path: other, proof: otherProof }) => {
+                  const values = valueAlong(other);
+                  return (
+                    <li
+                      key={pathKey(other)}
+                      className={`dc-parallel-item ${otherProof ? 'equal' : 'unknown'}`}
+                      onClick={() => setComparison([path, other])}
+                    >
+                      <span className="dc-status">{otherProof ? '=' : '?'}</span>
+                      <code>{label(other)}</code>
+                      <span className="dc-note">
+                        {otherProof ? `proved in ${otherProof.length} step${otherProof.length === 1 ? '' : 's'}` : 'not provable from the equations'}
+                        {values.length > 0 && ` · sends ${x} to ${values[values.length - 1]}`}
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </>
+        )}
+      </div>
+
+      {comparison && (
+        <div className={`dc-proof ${proof ? 'proved' : 'unproved'}`}>
+          <div className="dc-section-title">
+            {label(comparison[0])} {proof ? '=' : '≟'} {label(comparison[1])}
+          </div>
+          {proof ? (
+            <ol className="dc-proof-steps">
+              <li><code>{label(comparison[0])}</code></li>
+              {proof.map((step, i) => (
+                <li key={i}>
+                  <code>= {label(step.path)}</code>
+                  <span className="dc-note">
+                    {' '}by ({step.equation + 1}) {equationLabel(graph, diagram.equations[step.equation])}
+                    {step.reversed && ', right to left'}
+                    {step.position > 0 && `, after ${step.position} arrow${step.position === 1 ? '' : 's'}`}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <p className="dc-note">
+              No chain of rewrites with paths of up to {chaseBound} arrows connects them.
+              {counterexample(comparison[0], comparison[1]) !== undefined &&
+                ` In Set they really differ: at ${counterexample(comparison[0], comparison[1])}.`}
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className={`dc-verdict ${report.commutes ? 'commutes' : 'fails'}`}>
+        <h4>
+          {report.commutes ? 'The diagram commutes' : 'The diagram does not commute'}
+          <span className="dc-note"> (paths of up to {chaseBound} arrows{report.truncated ? ', some rewrites cut off' : ''})</span>
+        </h4>
+        {report.failures.map(([a, b]) => {
+          const witness = counterexample(a, b);
+          return (
+            <div key={`${pathKey(a)}|${pathKey(b)}`} className="dc-verdict-item fails" onClick={() => setComparison([a, b])}>
+              <code>{label(a)}</code> and <code>{label(b)}</code> are not provably equal
+              {witness !== undefined && <span className="dc-note"> (they differ at {witness})</span>}
+            </div>
+          );
+        })}
+        {report.derived.length > 0 && (
+          <>
+            <div className="dc-section-title">Derived</div>
+            {report.derived.map((eq) => (
+              <div key={`${pathKey(eq.lhs)}|${pathKey(eq.rhs)}`} className="dc-verdict-item" onClick={() => setComparison([eq.lhs, eq.rhs])}>
+                <code>{equationLabel(graph, eq)}</code>
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+
+      <LimitCalculator key={diagram.id} graph={graph} interpretation={diagram.interpretation} />
+    </div>
+  );
+}
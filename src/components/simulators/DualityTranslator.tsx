@@ -0,0 +1,259 @@
+import { useState, useRef, useEffect, useMemo } from 'react';
+import * as d3 from 'd3';
+import SimulatorHint, { HintStep } from './SimulatorHint';
+import { oppositeGraph } from '../../utils/categoryEngine';
+import { arrowGeometry, fitLayout } from '../../utils/layout';
+import { dualizeStatement } from '../../utils/duality';
+import { dualityPresets, dualTerms } from '../../data/dualities';
+import { getExamplePreset } from '../../data/simulatorExamples';
+import './DualityTranslator.css';
+
+interface DualityTranslatorProps {
+  initialExample?: string; // example id from examples.ts to open with
+}
+
+// The construction on the left, its dual on the right of a 560×240 canvas
+const paneC = { x: 50, y: 60, width: 180, height: 140 };
+const paneOp = { x: 330, y: 60, width: 180, height: 140 };
+
+const hintSteps: HintStep[] = [
+  {
+    title: 'Pick a Construction',
+    description: 'Products, monos, initial objects, equalisers and limits are all defined by arrows. Choose one to see its diagram in 𝒞 on the left.',
+    action: 'Choose a construction from the dropdown',
+  },
+  {
+    title: 'Read It in 𝒞ᵒᵖ',
+    description: 'The right pane is the same diagram with every arrow reversed. Read in the opposite category, it is the diagram of the dual construction.',
+    action: 'Click "Replay" to watch the arrows turn around',
+  },
+  {
+    title: 'Translate the Statement',
+    description: 'Reversing arrows turns A → B into B → A and g∘f into f∘g; the concepts swap for their duals: product ↔ coproduct, mono ↔ epi, initial ↔ terminal.',
+  },
+  {
+    title: 'Dualise a Theorem',
+    description: 'Type any statement at the bottom. If it holds in every category, so does its dual: that is the duality principle.',
+    action: 'Try "Every isomorphism is a monomorphism"',
+  },
+];
+
+const tips = [
+  'Objects stay put; only the arrows and the order of composition change',
+  '(𝒞ᵒᵖ)ᵒᵖ = 𝒞, so dualising twice gives back the original',
+  'Dual concepts usually get a "co-" prefix: limit and colimit, equaliser and coequaliser',
+  'Isomorphism is self-dual: the inverse of f in 𝒞 is the inverse of fᵒᵖ in 𝒞ᵒᵖ',
+];
+
+/**
+ * Duality: a construction in 𝒞 next to the same diagram read in 𝒞ᵒᵖ, with
+ * its universal property translated term by term into the dual one.
+ */
+export default function DualityTranslator({ initialExample }: DualityTranslatorProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const opened = getExamplePreset('duality-translator', initialExample);
+  const [presetIndex, setPresetIndex] = useState(opened ? dualityPresets.indexOf(opened) : 0);
+  const [replay, setReplay] = useState(0);
+  const [ownStatement, setOwnStatement] = useState('Every isomorphism is a monomorphism.');
+  const [showHint, setShowHint] = useState(true);
+
+  const preset = dualityPresets[presetIndex];
+  const dualName = dualizeStatement(preset.name, dualTerms).text;
+  const dual = useMemo(() => dualizeStatement(preset.statement, dualTerms), [preset]);
+  const own = useMemo(() => dualizeStatement(ownStatement, dualTerms), [ownStatement]);
+  const opGraph = useMemo(() => oppositeGraph(preset.diagram), [preset]);
+  const placedC = useMemo(() => fitLayout(preset.diagram.objects, paneC), [preset]);
+  const placedOp = useMemo(() => fitLayout(preset.diagram.objects, paneOp), [preset]);
+
+  // Draw both panes; the dual arrows start out as the originals and swing round
+  useEffect(() => {
+    if (!svgRef.current) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll('*').remove();
+
+    const defs = svg.append('defs');
+    [['c', 'var(--color-accent)'], ['op', 'var(--color-success)'], ['u', '#f59f00']].forEach(([name, color]) => {
+      defs.append('marker')
+        .attr('id', `dt-arrow-${name}`)
+        .attr('viewBox', '-0 -5 10 10')
+        .attr('refX', 8)
+        .attr('refY', 0)
+        .attr('orient', 'auto')
+        .attr('markerWidth', 5)
+        .attr('markerHeight', 5)
+        .append('path')
+        .attr('d', 'M 0,-4 L 8,0 L 0,4')
+        .attr('fill', color);
+    });
+
+    svg.append('text')
+      .attr('x', 280)
+      .attr('y', 135)
+      .attr('text-anchor', 'middle')
+      .attr('font-size', '14px')
+      .attr('font-weight', 'bold')
+      .attr('fill', 'var(--color-text-muted)')
+      .text('( )ᵒᵖ ⟶');
+
+    const drawPane = (
+      pane: typeof paneC, placed: typeof placedC, title: string, marker: string, color: string, flip: boolean
+    ) => {
+      svg.append('text')
+        .attr('x', pane.x + pane.width / 2)
+        .attr('y', 24)
+        .attr('text-anchor', 'middle')
+        .attr('font-size', '15px')
+        .attr('font-weight', 'bold')
+        .attr('fill', color)
+        .text(title);
+
+      const arrows = flip ? opGraph.morphisms : preset.diagram.morphisms;
+      arrows.forEach((m) => {
+        const geometry = arrowGeometry(m, arrows, placed, 16);
+        if (!geometry) return;
+        const isUniversal = preset.universal.includes(m.id);
+        const stroke = isUniversal ? '#f59f00' : color;
+
+        const path = svg.append('path')
+          .attr('fill', 'none')
+          .attr('stroke', stroke)
+          .attr('stroke-width', 2)
+          .attr('stroke-dasharray', isUniversal ? '5,4' : null)
+          .attr('marker-end', `url(#dt-arrow-${isUniversal ? 'u' : marker})`);
+
+        const label = svg.append('text')
+          .attr('x', geometry.labelX)
+          .attr('y', geometry.labelY)
+          .attr('text-anchor', 'middle')
+          .attr('dy', '0.35em')
+          .attr('font-size', '11px')
+          .attr('fill', stroke)
+          .text(flip ? preset.dualLabels[m.id] ?? preset.diagram.morphisms.find((o) => o.id === m.id)!.label : m.label);
+
+        const before = flip
+          ? arrowGeometry(preset.diagram.morphisms.find((o) => o.id === m.id)!, preset.diagram.morphisms, placed, 16)
+          : null;
+        if (before) {
+          path
+            .attr('d', before.d)
+            .transition()
+            .delay(300)
+            .duration(800)
+            .ease(d3.easeCubicInOut)
+            .attr('d', geometry.d);
+          label
+            .attr('opacity', 0)
+            .transition()
+            .delay(900)
+            .duration(300)
+            .attr('opacity', 1);
+        } else {
+          path.attr('d', geometry.d);
+        }
+      });
+
+      placed.forEach((obj) => {
+        const isConstructed = preset.constructed.includes(obj.id);
+        const group = svg.append('g')
+          .attr('class', 'dt-object')
+          .attr('transform', `translate(${obj.x}, ${obj.y})`);
+
+        group.append('circle')
+          .attr('r', 16)
+          .attr('fill', 'var(--color-bg-primary)')
+          .attr('stroke', isConstructed ? '#f59f00' : color)
+          .attr('stroke-width', isConstructed ? 3 : 2);
+
+        group.append('text')
+          .attr('text-anchor', 'middle')
+          .attr('dy', '0.35em')
+          .attr('font-size', '12px')
+          .attr('font-weight', 'bold')
+          .attr('fill', 'var(--color-text-primary)')
+          .text(obj.label);
+      });
+    };
+
+    drawPane(paneC, placedC, `𝒞: ${preset.name}`, 'c', 'var(--color-accent)', false);
+    drawPane(paneOp, placedOp, `𝒞ᵒᵖ: ${dualName}`, 'op', 'var(--color-success)', true);
+  }, [preset, opGraph, placedC, placedOp, dualName, replay]);
+
+  return (
+    <div className="duality-translator">
+      {showHint && (
+        <SimulatorHint
+          title="Duality Translator"
+          description="Every construction defined by arrows has a dual, obtained by reversing all of them. See a construction and its dual side by side."
+          steps={hintSteps}
+          tips={tips}
+          onDismiss={() => setShowHint(false)}
+          compact={false}
+        />
+      )}
+
+      {!showHint && (
+        <button
+          className="hint-toggle-btn"
+          onClick={() => setShowHint(true)}
+          title="Show help"
+        >
+          <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <circle cx="12" cy="12" r="10" />
+            <path d="M9.09 9a3 3 0 0 1 5.83 1c0 2-3 3-3 3" />
+            <line x1="12" y1="17" x2="12.01" y2="17" />
+          </svg>
+          <span>Help</span>
+        </button>
+      )}
+
+      <div className="dt-controls">
+        <select value={presetIndex} onChange={(e) => setPresetIndex(Number(e.target.value))}>
+          {dualityPresets.map((p, i) => <option key={p.id} value={i}>{p.name}</option>)}
+        </select>
+        <span className="dt-pair">
+          {preset.name} ↔ {dualName}
+        </span>
+        <button className="btn btn-ghost btn-sm" onClick={() => setReplay(replay + 1)}>
+          Replay
+        </button>
+      </div>
+
+      <div className="dt-canvas">
+        <svg ref={svgRef} width="100%" height="240" viewBox="0 0 560 240" />
+      </div>
+
+      <div className="dt-statements">
+        <div className="dt-statement">
+          <span className="dt-heading">In 𝒞</span>
+          <p>{preset.statement}</p>
+        </div>
+        <div className="dt-statement dual">
+          <span className="dt-heading">In 𝒞ᵒᵖ</span>
+          <p>{dual.text}</p>
+        </div>
+      </div>
+
+      {dual.used.length > 0 && (
+        <div className="dt-terms">
+          {dual.used.map(([term, dualTerm]) => (
+            <span key={term} className="dt-term">{term} ↔ {dualTerm}</span>
+          ))}
+          <span className="dt-term">A → B ↔ B → A</span>
+          <span className="dt-term">g∘f ↔ f∘g</span>
+        </div>
+      )}
+
+      <div className="dt-own">
+        <label className="dt-heading" htmlFor="dt-own-input">Dualise your own statement</label>
+        <textarea
+          id="dt-own-input"
+          rows={2}
+          value={ownStatement}
+          onChange={(e) => setOwnStatement(e.target.value)}
+        />
+        <p className="dt-own-result">{own.text || '—'}</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,416 @@
+import { useState, useRef, useEffect, useMemo } from 'react';
+import * as d3 from 'd3';
+import SimulatorHint, { HintStep } from './SimulatorHint';
+import { FunctionTable, parseElements } from '../../utils/finiteSets';
+import {
+  checkCoequaliserTest,
+  checkEqualiserTest,
+  computeCoequaliser,
+  computeEqualiser,
+  defaultCoconeLeg,
+  defaultConeLeg,
+  initialTestApex,
+  ParallelPair,
+  restrictFunction,
+} from '../../utils/finiteLimits';
+import { parallelPairPresets } from '../../data/parallelPairs';
+import { getExamplePreset } from '../../data/simulatorExamples';
+import './EqualiserBuilder.css';
+
+interface EqualiserBuilderProps {
+  initialExample?: string; // example id from examples.ts to open with
+}
+
+type ConstructionType = 'equaliser' | 'coequaliser';
+
+// Node positions: E → A ⇉ B for equalisers, A ⇉ B → Q for coequalisers
+const layouts = {
+  equaliser: { universal: { x: 50, y: 150 }, A: { x: 160, y: 150 }, B: { x: 300, y: 150 }, X: { x: 105, y: 45 } },
+  coequaliser: { A: { x: 80, y: 150 }, B: { x: 220, y: 150 }, universal: { x: 330, y: 150 }, X: { x: 275, y: 45 } },
+};
+
+const hintSteps: HintStep[] = [
+  {
+    title: 'Enter Two Functions',
+    description: 'Type the elements of A and B, then choose f(a) and g(a) for every a. Presets load the examples from the text.',
+    action: 'Edit "Sets and functions"',
+  },
+  {
+    title: 'Equaliser',
+    description: 'E is the subset of A where f and g agree, with its inclusion e: E → A. It is the largest part of A on which f∘e = g∘e.',
+  },
+  {
+    title: 'Coequaliser',
+    description: 'Q glues f(a) to g(a) for every a and closes up to an equivalence relation. The quotient map q: B → Q is the best map with q∘f = q∘g.',
+  },
+  {
+    title: 'Test the Universal Property',
+    description: 'Give a test object X and a map into A (or out of B). If it equalises f and g, the unique mediating arrow u is computed; otherwise you see where it fails.',
+    action: 'Edit the test map',
+  },
+];
+
+const tips = [
+  'Equalisers and coequalisers are dual: reverse the arrows to swap them',
+  'In Set the equaliser is a subset and the coequaliser a quotient',
+  'Every equaliser map e is monic; every coequaliser map q is epic',
+  'Quotient types (like fractions) are coequalisers',
+];
+
+// Elements of a set as "{a, b, c}"
+const setLabel = (elements: string[]) => `{${elements.join(', ')}}`;
+
+/**
+ * Equaliser and coequaliser of two parallel functions between finite sets,
+ * with a test object to check the universal property against.
+ */
+export default function EqualiserBuilder({ initialExample }: EqualiserBuilderProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const opened = getExamplePreset('equaliser-builder', initialExample);
+  const [presetIndex, setPresetIndex] = useState(opened ? parallelPairPresets.indexOf(opened) : 0);
+  const [constructionType, setConstructionType] = useState<ConstructionType>(opened?.mode ?? 'equaliser');
+  const [pair, setPair] = useState<ParallelPair>((opened ?? parallelPairPresets[0]).pair);
+  const [setTexts, setSetTexts] = useState<{ A?: string; B?: string }>({});
+  const [testApexText, setTestApexText] = useState(initialTestApex);
+  const [testMap, setTestMap] = useState<FunctionTable>({});
+  const [showHint, setShowHint] = useState(true);
+
+  const loadPreset = (index: number) => {
+    const preset = parallelPairPresets[index];
+    setPresetIndex(index);
+    setPair(preset.pair);
+    setConstructionType(preset.mode);
+    setSetTexts({});
+    setTestMap({});
+  };
+
+  const isEqualiser = constructionType === 'equaliser';
+  const equaliser = useMemo(() => computeEqualiser(pair), [pair]);
+  const coequaliser = useMemo(() => computeCoequaliser(pair), [pair]);
+
+  // The test map h: X → A or k: B → X; unset values default to ones that factor
+  const testApex = useMemo(() => parseElements(testApexText), [testApexText]);
+  const test: FunctionTable = useMemo(() => {
+    return isEqualiser
+      ? defaultConeLeg(testApex, testMap, pair.domain, equaliser, (e) => e)
+      : defaultCoconeLeg(pair.codomain, testMap, testApex, coequaliser.apex, (b) => coequaliser.quotient[b]);
+  }, [isEqualiser, testApex, testMap, pair, equaliser, coequaliser]);
+
+  const check = useMemo(
+    () => isEqualiser ? checkEqualiserTest(pair, testApex, test) : checkCoequaliserTest(pair, coequaliser, test),
+    [isEqualiser, pair, coequaliser, testApex, test]
+  );
+
+  const handleTypeChange = (type: ConstructionType) => {
+    setConstructionType(type);
+    setTestMap({});
+  };
+
+  // Editing A or B keeps the values that are still in range and sends the rest to the first element
+  const changeSet = (which: 'A' | 'B', text: string) => {
+    setSetTexts({ ...setTexts, [which]: text });
+    const domain = which === 'A' ? parseElements(text) : pair.domain;
+    const codomain = which === 'B' ? parseElements(text) : pair.codomain;
+    setPair({
+      domain,
+      codomain,
+      f: restrictFunction(pair.f, domain, codomain),
+      g: restrictFunction(pair.g, domain, codomain),
+    });
+  };
+
+  const changeFunction = (which: 'f' | 'g', a: string, b: string) => {
+    setPair({ ...pair, [which]: { ...pair[which], [a]: b } });
+  };
+
+  // Draw E → A ⇉ B or A ⇉ B → Q, the test object and the mediating arrow
+  useEffect(() => {
+    if (!svgRef.current) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll('*').remove();
+
+    const positions = layouts[constructionType];
+    const ok = check.mediating !== null;
+
+    const defs = svg.append('defs');
+    [['blue', 'var(--color-accent)'], ['green', 'var(--color-success)'], ['orange', '#f59f00'], ['red', 'var(--color-error)'], ['muted', 'var(--color-text-muted)']].forEach(([name, color]) => {
+      defs.append('marker')
+        .attr('id', `eb-arrow-${name}`)
+        .attr('viewBox', '-0 -5 10 10')
+        .attr('refX', 8)
+        .attr('refY', 0)
+        .attr('orient', 'auto')
+        .attr('markerWidth', 6)
+        .attr('markerHeight', 6)
+        .append('path')
+        .attr('d', 'M 0,-4 L 8,0 L 0,4')
+        .attr('fill', color);
+    });
+
+    // Arrow between two nodes, bent sideways by `bend` so parallel arrows stay apart
+    const arrow = (
+      from: { x: number; y: number }, to: { x: number; y: number },
+      label: string, color: string, marker: string, dashed = false, bend = 0
+    ) => {
+      const dx = to.x - from.x;
+      const dy = to.y - from.y;
+      const len = Math.sqrt(dx * dx + dy * dy) || 1;
+      const [nx, ny] = [-dy / len, dx / len];
+      const x1 = from.x + (dx / len) * 22 + nx * bend * 0.4;
+      const y1 = from.y + (dy / len) * 22 + ny * bend * 0.4;
+      const x2 = to.x - (dx / len) * 22 + nx * bend * 0.4;
+      const y2 = to.y - (dy / len) * 22 + ny * bend * 0.4;
+      const cx = (x1 + x2) / 2 + nx * bend;
+      const cy = (y1 + y2) / 2 + ny * bend;
+
+      svg.append('path')
+        .attr('d', `M ${x1},${y1} Q ${cx},${cy} ${x2},${y2}`)
+        .attr('fill', 'none')
+        .attr('stroke', color)
+        .attr('stroke-width', 2)
+        .attr('stroke-dasharray', dashed ? '5,5' : null)
+        .attr('marker-end', `url(#eb-arrow-${marker})`);
+      svg.append('text')
+        .attr('x', cx + nx * 10)
+        .attr('y', cy + ny * 10)
+        .attr('dy', '0.35em')
+        .attr('text-anchor', 'middle')
+        .attr('font-size', '13px')
+        .attr('font-weight', '500')
+        .attr('fill', color)
+        .text(label);
+    };
+
+    // The parallel pair, drawn the same way in both modes
+    arrow(positions.A, positions.B, 'f', 'var(--color-text-muted)', 'muted', false, -16);
+    arrow(positions.A, positions.B, 'g', 'var(--color-text-muted)', 'muted', false, 16);
+
+    const mediatingColor = ok ? '#f59f00' : 'var(--color-error)';
+    if (isEqualiser) {
+      arrow(positions.universal, positions.A, 'e', 'var(--color-accent)', 'blue');
+      arrow(positions.X, positions.A, 'h', 'var(--color-success)', 'green');
+      arrow(positions.X, positions.universal, ok ? '∃! u' : 'no u', mediatingColor, ok ? 'orange' : 'red', true);
+    } else {
+      arrow(positions.B, positions.universal, 'q', 'var(--color-accent)', 'blue');
+      arrow(positions.B, positions.X, 'k', 'var(--color-success)', 'green');
+      arrow(positions.universal, positions.X, ok ? '∃! u' : 'no u', mediatingColor, ok ? 'orange' : 'red', true);
+    }
+
+    // Node with its elements listed underneath; highlighted elements in orange
+    const node = (
+      position: { x: number; y: number }, label: string, elements: string[][],
+      stroke: string, highlighted: (group: string[]) => boolean = () => false
+    ) => {
+      const group = svg.append('g').attr('class', 'eb-node').attr('transform', `translate(${position.x}, ${position.y})`);
+      group.append('circle')
+        .attr('r', 20)
+        .attr('fill', 'var(--color-bg-primary)')
+        .attr('stroke', stroke)
+        .attr('stroke-width', 2);
+      group.append('text')
+        .attr('text-anchor', 'middle')
+        .attr('dy', '0.35em')
+        .attr('font-size', '15px')
+        .attr('font-weight', 'bold')
+        .attr('fill', 'var(--color-text-primary)')
+        .text(label);
+
+      const list = group.append('text')
+        .attr('y', 38)
+        .attr('text-anchor', 'middle')
+        .attr('font-size', '10px')
+        .attr('font-family', 'var(--font-mono)');
+      elements.forEach((members, i) => {
+        list.append('tspan')
+          .attr('fill', highlighted(members) ? '#f59f00' : 'var(--color-text-muted)')
+          .attr('font-weight', highlighted(members) ? 'bold' : 'normal')
+          .text(`${i > 0 ? ' ' : ''}${members.length > 1 ? setLabel(members) : members[0]}`);
+      });
+    };
+
+    const singletons = (elements: string[]) => elements.map((x) => [x]);
+    if (isEqualiser) {
+      node(positions.A, 'A', singletons(pair.domain), 'var(--color-border)', ([a]) => equaliser.includes(a));
+      node(positions.B, 'B', singletons(pair.codomain), 'var(--color-border)');
+      node(positions.universal, 'E', singletons(equaliser), 'var(--color-accent)');
+    } else {
+      node(positions.A, 'A', singletons(pair.domain), 'var(--color-border)');
+      node(positions.B, 'B', coequaliser.apex.map((c) => coequaliser.classes[c]), 'var(--color-border)', (members) => members.length > 1);
+      node(positions.universal, 'Q', singletons(coequaliser.apex), 'var(--color-accent)');
+    }
+    node(positions.X, 'X', singletons(testApex), 'var(--color-success)');
+  }, [constructionType, isEqualiser, pair, equaliser, coequaliser, testApex, check]);
+
+  return (
+    <div className="equaliser-builder">
+      {showHint && (
+        <SimulatorHint
+          title="Equaliser & Coequaliser Builder"
+          description="Enter two parallel functions f, g: A → B between finite sets and compute where they agree (the equaliser) and what you get by forcing them to agree (the coequaliser)."
+          steps={hintSteps}
+          tips={tips}
+          onDismiss={() => setShowHint(false)}
+          compact={false}
+        />
+      )}
+
+      {!showHint && (
+        <button
+          className="hint-toggle-btn"
+          onClick={() => setShowHint(true)}
+          title="Show help"
+        >
+          <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <circle cx="12" cy="12" r="10" />
+            <path d="M9.09 9a3 3 0 0 1 5.83 1c0 2-3 3-3 3" />
+            <line x1="12" y1="17" x2="12.01" y2="17" />
+          </svg>
+          <span>Help</span>
+        </button>
+      )}
+
+      <div className="eb-controls">
+        <div className="eb-type-toggle">
+          <button
+            className={`btn btn-sm ${isEqualiser ? 'btn-primary' : 'btn-ghost'}`}
+            onClick={() => handleTypeChange('equaliser')}
+          >
+            Equaliser
+          </button>
+          <button
+            className={`btn btn-sm ${!isEqualiser ? 'btn-primary' : 'btn-ghost'}`}
+            onClick={() => handleTypeChange('coequaliser')}
+          >
+            Coequaliser
+          </button>
+        </div>
+        <select value={presetIndex} onChange={(e) => loadPreset(Number(e.target.value))}>
+          {parallelPairPresets.map((p, i) => <option key={p.id} value={i}>{p.name}</option>)}
+        </select>
+      </div>
+      <div className="eb-description">{parallelPairPresets[presetIndex].description}</div>
+
+      <details className="eb-functions">
+        <summary>Sets and functions</summary>
+        {(['A', 'B'] as const).map((which) => (
+          <label key={which} className="eb-row">
+            <span className="eb-label">{which} =</span>
+            <input
+              value={setTexts[which] ?? (which === 'A' ? pair.domain : pair.codomain).join(', ')}
+              onChange={(e) => changeSet(which, e.target.value)}
+            />
+          </label>
+        ))}
+        {(['f', 'g'] as const).map((which) => (
+          <div key={which} className="eb-row">
+            <span className="eb-label">{which}:</span>
+            {pair.domain.map((a) => (
+              <span key={a} className="eb-mapping">
+                {a} ↦
+                <select value={pair[which][a] ?? ''} onChange={(e) => changeFunction(which, a, e.target.value)}>
+                  {pair.codomain.map((b) => <option key={b} value={b}>{b}</option>)}
+                </select>
+              </span>
+            ))}
+            {pair.domain.length > 0 && pair.codomain.length === 0 && (
+              <span className="eb-error">no function into the empty set</span>
+            )}
+          </div>
+        ))}
+      </details>
+
+      <div className="eb-canvas">
+        <svg ref={svgRef} width="100%" height="260" viewBox="0 0 380 260" />
+      </div>
+
+      {isEqualiser ? (
+        <div className="eb-result">
+          <div className="eb-title">E = {'{'}a ∈ A | f(a) = g(a){'}'} = {setLabel(equaliser)}</div>
+          <table className="eb-table">
+            <thead>
+              <tr><th>a</th><th>f(a)</th><th>g(a)</th><th>a ∈ E</th></tr>
+            </thead>
+            <tbody>
+              {pair.domain.map((a) => (
+                <tr key={a} className={equaliser.includes(a) ? 'hit' : ''}>
+                  <td>{a}</td><td>{pair.f[a]}</td><td>{pair.g[a]}</td><td>{equaliser.includes(a) ? '✓' : '✗'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="eb-result">
+          <div className="eb-title">Q = B/~ with f(a) ~ g(a), |Q| = {coequaliser.apex.length}</div>
+          <ul className="eb-classes">
+            {coequaliser.apex.map((c) => (
+              <li key={c}>
+                <code>{c}</code> = {setLabel(coequaliser.classes[c])}
+              </li>
+            ))}
+          </ul>
+          <div className="eb-note">
+            Glued: {pair.domain.filter((a) => pair.f[a] !== pair.g[a]).map((a) => `${pair.f[a]} ~ ${pair.g[a]}`).join(', ') || 'nothing, since f = g'}
+          </div>
+        </div>
+      )}
+
+      <div className={`eb-test ${check.mediating ? 'valid' : 'invalid'}`}>
+        <div className="eb-title">Test object</div>
+        <label className="eb-row">
+          <span className="eb-label">X =</span>
+          <input value={testApexText} onChange={(e) => setTestApexText(e.target.value)} />
+        </label>
+        <div className="eb-row">
+          <span className="eb-label">{isEqualiser ? 'h:' : 'k:'}</span>
+          {(isEqualiser ? testApex : pair.codomain).map((x) => (
+            <span key={x} className="eb-mapping">
+              {x} ↦
+              <select value={test[x] ?? ''} onChange={(e) => setTestMap({ ...test, [x]: e.target.value })}>
+                {(isEqualiser ? pair.domain : testApex).map((y) => <option key={y} value={y}>{y}</option>)}
+              </select>
+            </span>
+          ))}
+        </div>
+
+        {check.mediating ? (
+          <div className="eb-mediating">
+            <div>
+              {isEqualiser ? 'f∘h = g∘h' : 'k∘f = k∘g'}, so there is a unique u: {isEqualiser ? 'X → E with e∘u = h' : 'Q → X with u∘q = k'}:
+            </div>
+            {Object.entries(check.mediating).map(([from, to]) => (
+              <code key={from}>u({from}) = {to}</code>
+            ))}
+            <p className="eb-note">
+              {isEqualiser
+                ? 'Unique because e is an inclusion: u(x) has to be h(x) itself.'
+                : 'Unique because q is onto: u([b]) has to be k(b).'}
+            </p>
+          </div>
+        ) : (
+          <div className="eb-failures">
+            {isEqualiser ? 'h does not equalise f and g' : 'k does not coequalise f and g'}, so it need not factor:
+            {check.failures.slice(0, 4).map((f, i) => <div key={i} className="eb-error">{f.message}</div>)}
+            {check.failures.length > 4 && <div className="eb-note">…and {check.failures.length - 4} more</div>}
+          </div>
+        )}
+      </div>
+
+      <div className={`eb-info ${isEqualiser ? 'equaliser-info' : 'coequaliser-info'}`}>
+        <h4>{isEqualiser ? 'Equaliser' : 'Coequaliser'} Universal Property</h4>
+        {isEqualiser ? (
+          <p>
+            The <strong>equaliser</strong> of f, g: A→B is e: E→A with f∘e = g∘e such that every
+            h: X→A with f∘h = g∘h factors as h = e∘u for a <em>unique</em> u: X→E.
+          </p>
+        ) : (
+          <p>
+            The <strong>coequaliser</strong> of f, g: A→B is q: B→Q with q∘f = q∘g such that every
+            k: B→X with k∘f = k∘g factors as k = u∘q for a <em>unique</em> u: Q→X.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
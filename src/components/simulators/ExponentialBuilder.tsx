@@ -0,0 +1,336 @@
+import { useState, useRef, useEffect, useMemo } from 'react';
+import * as d3 from 'd3';
+import SimulatorHint, { HintStep } from './SimulatorHint';
+import { allFunctions, FunctionTable, functionLabel, parseElements, tupleLabel } from '../../utils/finiteSets';
+import { exponentialPresets } from '../../data/exponentials';
+import { getExamplePreset } from '../../data/simulatorExamples';
+import './ExponentialBuilder.css';
+
+interface ExponentialBuilderProps {
+  initialExample?: string; // example id from examples.ts to open with
+}
+
+type SetName = 'A' | 'B' | 'X';
+
+// B^A is only listed in full up to this many functions
+const maxListed = 81;
+
+// B^A×A top left, B top right, X×A below: the evaluation triangle
+const positions = {
+  exp: { x: 90, y: 60 },
+  B: { x: 300, y: 60 },
+  XA: { x: 90, y: 200 },
+};
+
+const hintSteps: HintStep[] = [
+  {
+    title: 'The Exponential B^A',
+    description: 'In Set the exponential B^A is the set of all functions A → B. It has |B|^|A| elements, which is where the name comes from.',
+  },
+  {
+    title: 'Evaluation',
+    description: 'ev: B^A × A → B applies a function to an argument. Its table lists every function against every input.',
+  },
+  {
+    title: 'Curry a Function',
+    description: 'Edit h: X × A → B on the left, or pick curry(h)(x) ∈ B^A on the right. The other side updates: the two tables are the same data.',
+    action: 'Change any value in either table',
+  },
+  {
+    title: 'The Universal Property',
+    description: 'curry(h) is the unique map X → B^A with ev ∘ (curry(h) × id_A) = h. This bijection Hom(X×A, B) ≅ Hom(X, B^A) is the currying adjunction.',
+  },
+];
+
+const tips = [
+  'Currying: (X × A → B) ≅ (X → (A → B))',
+  'Exponential laws hold for sizes: |B^(A+C)| = |B^A|·|B^C| and |(B^A)^X| = |B^(X×A)|',
+  'B^∅ has exactly one element, the empty function: B^0 = 1',
+  '(– × A) ⊣ (–)^A: the counit of this adjunction is ev',
+];
+
+/**
+ * Exponential objects in FinSet: B^A as the set of all functions, the
+ * evaluation map, and currying as a live bijection between two tables.
+ */
+export default function ExponentialBuilder({ initialExample }: ExponentialBuilderProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const opened = getExamplePreset('exponential-builder', initialExample);
+  const [presetIndex, setPresetIndex] = useState(opened ? exponentialPresets.indexOf(opened) : 0);
+  const start = opened ?? exponentialPresets[0];
+  const [sets, setSets] = useState<Record<SetName, string[]>>({ A: start.A, B: start.B, X: start.X });
+  const [setTexts, setSetTexts] = useState<Partial<Record<SetName, string>>>({});
+  const [h, setH] = useState<FunctionTable>(start.h);
+  const [selectedX, setSelectedX] = useState<string | null>(null);
+  const [showHint, setShowHint] = useState(true);
+
+  const loadPreset = (index: number) => {
+    const preset = exponentialPresets[index];
+    setPresetIndex(index);
+    setSets({ A: preset.A, B: preset.B, X: preset.X });
+    setSetTexts({});
+    setH(preset.h);
+    setSelectedX(null);
+  };
+
+  const { A, B, X } = sets;
+  const size = B.length ** A.length;
+  const functions = useMemo(() => (size <= maxListed ? allFunctions(A, B) : []), [A, B, size]);
+
+  // h made total: values outside B (after an edit to B) fall back to the first element
+  const value = (x: string, a: string) => {
+    const y = h[tupleLabel([x, a])];
+    return B.includes(y) ? y : B[0];
+  };
+  const curried: Record<string, FunctionTable> = Object.fromEntries(X.map((x) => [
+    x,
+    Object.fromEntries(A.map((a) => [a, value(x, a)])),
+  ]));
+
+  const changeSet = (which: SetName, text: string) => {
+    setSetTexts({ ...setTexts, [which]: text });
+    setSets({ ...sets, [which]: parseElements(text) });
+  };
+
+  // Left side: one value of h
+  const changeUncurried = (x: string, a: string, b: string) => {
+    setH({ ...h, [tupleLabel([x, a])]: b });
+  };
+
+  // Right side: the whole function curry(h)(x), which rewrites row x of h
+  const changeCurried = (x: string, index: number) => {
+    const fn = functions[index];
+    setH({ ...h, ...Object.fromEntries(A.map((a) => [tupleLabel([x, a]), fn[a]])) });
+    setSelectedX(x);
+  };
+
+  const labelOf = (fn: FunctionTable) => functionLabel(A, fn);
+  const selectedLabel = selectedX !== null && X.includes(selectedX) ? labelOf(curried[selectedX]) : null;
+
+  // Draw the evaluation triangle ev ∘ (curry(h) × id) = h
+  useEffect(() => {
+    if (!svgRef.current) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll('*').remove();
+
+    const defs = svg.append('defs');
+    [['blue', 'var(--color-accent)'], ['green', 'var(--color-success)'], ['orange', '#f59f00']].forEach(([name, color]) => {
+      defs.append('marker')
+        .attr('id', `exb-arrow-${name}`)
+        .attr('viewBox', '-0 -5 10 10')
+        .attr('refX', 8)
+        .attr('refY', 0)
+        .attr('orient', 'auto')
+        .attr('markerWidth', 6)
+        .attr('markerHeight', 6)
+        .append('path')
+        .attr('d', 'M 0,-4 L 8,0 L 0,4')
+        .attr('fill', color);
+    });
+
+    const arrow = (
+      from: { x: number; y: number }, to: { x: number; y: number },
+      label: string, color: string, marker: string, dashed = false, side = 1
+    ) => {
+      const dx = to.x - from.x;
+      const dy = to.y - from.y;
+      const len = Math.sqrt(dx * dx + dy * dy) || 1;
+      svg.append('line')
+        .attr('x1', from.x + (dx / len) * 30)
+        .attr('y1', from.y + (dy / len) * 30)
+        .attr('x2', to.x - (dx / len) * 30)
+        .attr('y2', to.y - (dy / len) * 30)
+        .attr('stroke', color)
+        .attr('stroke-width', 2)
+        .attr('stroke-dasharray', dashed ? '5,5' : null)
+        .attr('marker-end', `url(#exb-arrow-${marker})`);
+      svg.append('text')
+        .attr('x', (from.x + to.x) / 2 - (dy / len) * 16 * side)
+        .attr('y', (from.y + to.y) / 2 + (dx / len) * 16 * side)
+        .attr('dy', '0.35em')
+        .attr('text-anchor', 'middle')
+        .attr('font-size', '13px')
+        .attr('font-weight', '500')
+        .attr('fill', color)
+        .text(label);
+    };
+
+    arrow(positions.exp, positions.B, 'ev', 'var(--color-accent)', 'blue', false, -1);
+    arrow(positions.XA, positions.exp, 'curry(h) × id', '#f59f00', 'orange', true, -1);
+    arrow(positions.XA, positions.B, 'h', 'var(--color-success)', 'green');
+
+    const node = (position: { x: number; y: number }, label: string, count: number) => {
+      const group = svg.append('g').attr('class', 'exb-node').attr('transform', `translate(${position.x}, ${position.y})`);
+      group.append('rect')
+        .attr('x', -32)
+        .attr('y', -20)
+        .attr('width', 64)
+        .attr('height', 40)
+        .attr('rx', 10)
+        .attr('fill', 'var(--color-bg-primary)')
+        .attr('stroke', 'var(--color-accent)')
+        .attr('stroke-width', 2);
+      group.append('text')
+        .attr('text-anchor', 'middle')
+        .attr('dy', '-0.1em')
+        .attr('font-size', '14px')
+        .attr('font-weight', 'bold')
+        .attr('fill', 'var(--color-text-primary)')
+        .text(label);
+      group.append('text')
+        .attr('text-anchor', 'middle')
+        .attr('dy', '1.2em')
+        .attr('font-size', '10px')
+        .attr('fill', 'var(--color-text-muted)')
+        .text(`|${count}|`);
+    };
+
+    node(positions.exp, 'B^A × A', size * A.length);
+    node(positions.B, 'B', B.length);
+    node(positions.XA, 'X × A', X.length * A.length);
+  }, [A, B, X, size]);
+
+  return (
+    <div className="exponential-builder">
+      {showHint && (
+        <SimulatorHint
+          title="Exponential Builder"
+          description="Build the exponential B^A of two finite sets, evaluate its functions, and curry a function h: X × A → B into curry(h): X → B^A."
+          steps={hintSteps}
+          tips={tips}
+          onDismiss={() => setShowHint(false)}
+          compact={false}
+        />
+      )}
+
+      {!showHint && (
+        <button
+          className="hint-toggle-btn"
+          onClick={() => setShowHint(true)}
+          title="Show help"
+        >
+          <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <circle cx="12" cy="12" r="10" />
+            <path d="M9.09 9a3 3 0 0 1 5.83 1c0 2-3 3-3 3" />
+            <line x1="12" y1="17" x2="12.01" y2="17" />
+          </svg>
+          <span>Help</span>
+        </button>
+      )}
+
+      <div className="exb-controls">
+        <select value={presetIndex} onChange={(e) => loadPreset(Number(e.target.value))}>
+          {exponentialPresets.map((p, i) => <option key={p.id} value={i}>{p.name}</option>)}
+        </select>
+        <span className="exb-description">{exponentialPresets[presetIndex].description}</span>
+      </div>
+
+      <div className="exb-sets">
+        {(['A', 'B', 'X'] as const).map((which) => (
+          <label key={which} className="exb-row">
+            <span className="exb-label">{which} =</span>
+            <input value={setTexts[which] ?? sets[which].join(', ')} onChange={(e) => changeSet(which, e.target.value)} />
+          </label>
+        ))}
+      </div>
+
+      <div className="exb-canvas">
+        <svg ref={svgRef} width="100%" height="260" viewBox="0 0 380 260" />
+      </div>
+
+      <div className="exb-panel">
+        <div className="exb-title">
+          B^A = all functions A → B, |B^A| = {B.length}^{A.length} = {size}
+        </div>
+        {size > maxListed ? (
+          <p className="exb-note">Too many functions to list; shrink A or B to see them all.</p>
+        ) : (
+          <table className="exb-table">
+            <thead>
+              <tr>
+                <th>φ ∈ B^A</th>
+                {A.map((a) => <th key={a}>ev(φ, {a})</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {functions.map((fn) => {
+                const label = labelOf(fn);
+                const hit = X.some((x) => labelOf(curried[x]) === label);
+                return (
+                  <tr key={label} className={`${hit ? 'hit' : ''} ${label === selectedLabel ? 'selected' : ''}`}>
+                    <td>{label}</td>
+                    {A.map((a) => <td key={a}>{fn[a]}</td>)}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="exb-currying">
+        <div className="exb-side">
+          <div className="exb-title">h: X × A → B</div>
+          {B.length === 0 && X.length * A.length > 0 ? (
+            <p className="exb-error">No function into the empty set.</p>
+          ) : (
+            <table className="exb-table">
+              <thead>
+                <tr>
+                  <th>x \ a</th>
+                  {A.map((a) => <th key={a}>{a}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {X.map((x) => (
+                  <tr key={x} className={x === selectedX ? 'selected' : ''} onClick={() => setSelectedX(x)}>
+                    <td>{x}</td>
+                    {A.map((a) => (
+                      <td key={a}>
+                        <select value={value(x, a)} onChange={(e) => changeUncurried(x, a, e.target.value)}>
+                          {B.map((b) => <option key={b} value={b}>{b}</option>)}
+                        </select>
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="exb-iso">≅</div>
+
+        <div className="exb-side">
+          <div className="exb-title">curry(h): X → B^A</div>
+          {X.map((x) => (
+            <div key={x} className={`exb-row ${x === selectedX ? 'selected' : ''}`} onClick={() => setSelectedX(x)}>
+              <span className="exb-label">{x} ↦</span>
+              {size > maxListed ? (
+                <code>{labelOf(curried[x])}</code>
+              ) : (
+                <select
+                  value={functions.findIndex((fn) => labelOf(fn) === labelOf(curried[x]))}
+                  onChange={(e) => changeCurried(x, Number(e.target.value))}
+                >
+                  {functions.map((fn, i) => <option key={i} value={i}>{labelOf(fn)}</option>)}
+                </select>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="exb-check">
+        <div>
+          ev(curry(h)(x), a) = h(x, a) for all {X.length * A.length} pairs, and no other map X → B^A does this:
+          curry(h)(x) must be the function a ↦ h(x, a).
+        </div>
+        <div className="exb-note">
+          |Hom(X × A, B)| = {B.length}^({X.length}·{A.length}) = {B.length ** (X.length * A.length)} = ({size})^{X.length} = |Hom(X, B^A)|
+        </div>
+      </div>
+    </div>
+  );
+}
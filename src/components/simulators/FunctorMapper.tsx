@@ -1,28 +1,26 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
 import * as d3 from 'd3';
 import SimulatorHint, { HintStep } from './SimulatorHint';
+import CategoryPicker from './CategoryPicker';
+import { CategoryDefinition, FunctorProperties, PlacedObject } from '../../utils/categoryTypes';
+import { createFiniteCategory } from '../../utils/categoryEngine';
+import { arrowGeometry, fitLayout } from '../../utils/layout';
+import {
+  checkFunctor,
+  classifyFunctor,
+  completeFunctor,
+  enumerateFunctors,
+  FunctorMap,
+  FunctorViolation,
+  isConstant,
+  isFaithful,
+  isFull,
+  isInjectiveOnObjects,
+  morphismCandidates,
+  objectCandidates,
+} from '../../utils/functorEngine';
 import './FunctorMapper.css';
 
-interface CategoryObject {
-  id: string;
-  label: string;
-  x: number;
-  y: number;
-}
-
-interface CategoryMorphism {
-  id: string;
-  label: string;
-  source: string;
-  target: string;
-}
-
-interface CategoryData {
-  name: string;
-  objects: CategoryObject[];
-  morphisms: CategoryMorphism[];
-}
-
 interface FunctorMapping {
   name: string;
   description: string;
@@ -30,6 +28,14 @@ interface FunctorMapping {
   morphismMap: Record<string, string>;
 }
 
+type FunctorFilter = 'all' | 'faithful' | 'full' | 'injective' | 'constant';
+
+// Item of C being dragged onto its image in D
+interface DragItem {
+  kind: 'object' | 'morphism';
+  id: string;
+}
+
 const hintSteps: HintStep[] = [
   {
     title: 'Two Categories',
@@ -44,6 +50,25 @@ const hintSteps: HintStep[] = [
     title: 'Observe the Mapping',
     description: 'Watch how the functor maps objects (F(A), F(B), ...) and morphisms (F(f), F(g), ...) from C to D. Dashed lines show the mapping.',
   },
+  {
+    title: 'Define Your Own',
+    description: 'Choose "Custom F" and drag an object or arrow of C onto its image in D. Only valid targets light up, and images of composites are filled in automatically.',
+    action: 'Drag from the C pane to the D pane',
+  },
+  {
+    title: 'Swap the Categories',
+    description: 'Use the dropdowns above C and D to load a standard small category, one saved from the Category Builder, or a JSON file.',
+    action: 'Pick a category for C or D',
+  },
+  {
+    title: 'Classify the Functor',
+    description: 'Badges show whether F is faithful, full, injective or surjective on objects, essentially surjective, conservative, or an equivalence. Every failing property comes with a witness.',
+  },
+  {
+    title: 'List Every Functor',
+    description: 'Tick "Show All Functors" to enumerate every functor C → D, grouped by whether it is faithful, full, injective on objects or constant. Click one to load it.',
+    action: 'Enable "Show All Functors"',
+  },
   {
     title: 'Verify Functor Laws',
     description: 'A valid functor preserves identity: F(id_A) = id_F(A), and composition: F(g∘f) = F(g)∘F(f). Toggle verification to check!',
@@ -56,10 +81,13 @@ const tips = [
   'Every category has an identity functor that maps everything to itself',
   'Composition of functors is also a functor',
   'Constant functors map everything to a single object',
+  'Drop an arrow onto an object of D to send it to that object\'s identity',
+  'There are exactly 3 functors 2 → 2: the identity and two constant ones',
 ];
 
 // Source category C
-const categoryC: CategoryData = {
+const categoryC: CategoryDefinition = {
+  id: 'functor-mapper-c',
   name: 'C',
   objects: [
     { id: 'A', label: 'A', x: 60, y: 60 },
@@ -71,10 +99,12 @@ const categoryC: CategoryData = {
     { id: 'g', label: 'g', source: 'B', target: 'C' },
     { id: 'h', label: 'h', source: 'A', target: 'C' },
   ],
+  compositions: [{ before: 'f', after: 'g', result: 'h' }],
 };
 
 // Target category D
-const categoryD: CategoryData = {
+const categoryD: CategoryDefinition = {
+  id: 'functor-mapper-d',
   name: 'D',
   objects: [
     { id: 'X', label: 'X', x: 60, y: 60 },
@@ -86,9 +116,42 @@ const categoryD: CategoryData = {
     { id: 'β', label: 'β', source: 'Y', target: 'Z' },
     { id: 'γ', label: 'γ', source: 'X', target: 'Z' },
   ],
+  compositions: [{ before: 'α', after: 'β', result: 'γ' }],
 };
 
-// Example functors
+// Where objects go inside each 200×180 pane
+const paneBox = { x: 35, y: 55, width: 130, height: 90 };
+
+// Functor laws and the violation kinds each one covers
+const laws: { name: string; formula: string; kinds: FunctorViolation['kind'][] }[] = [
+  {
+    name: 'Well-typed Mapping',
+    formula: 'F(f): F(A) → F(B) for f: A → B',
+    kinds: ['unmapped-object', 'unmapped-morphism', 'unknown-target', 'ill-typed'],
+  },
+  { name: 'Identity Preservation', formula: 'F(id_A) = id_F(A)', kinds: ['identity'] },
+  { name: 'Composition Preservation', formula: 'F(g ∘ f) = F(g) ∘ F(f)', kinds: ['composition'] },
+];
+
+const propertyLabels: Record<keyof FunctorProperties, string> = {
+  faithful: 'Faithful',
+  full: 'Full',
+  injectiveOnObjects: 'Injective on objects',
+  surjectiveOnObjects: 'Surjective on objects',
+  essentiallySurjective: 'Essentially surjective',
+  conservative: 'Conservative',
+  equivalence: 'Equivalence',
+};
+
+const filterLabels: Record<FunctorFilter, string> = {
+  all: 'All',
+  faithful: 'Faithful',
+  full: 'Full',
+  injective: 'Injective on objects',
+  constant: 'Constant',
+};
+
+// Example functors between the default C and D
 const functors: FunctorMapping[] = [
   {
     name: 'Standard F',
@@ -100,11 +163,11 @@ const functors: FunctorMapping[] = [
     name: 'Collapse G',
     description: 'Maps everything to X, all morphisms to id_X',
     objectMap: { A: 'X', B: 'X', C: 'X' },
-    morphismMap: { f: 'id', g: 'id', h: 'id' },
+    morphismMap: { f: 'id_X', g: 'id_X', h: 'id_X' },
   },
   {
     name: 'Twist H',
-    description: 'Swaps A↔B mapping, demonstrating non-trivial object mapping',
+    description: 'Swaps the images of A and B. Check the laws: D has no arrow Y→X to serve as F(f)',
     objectMap: { A: 'Y', B: 'X', C: 'Z' },
     morphismMap: { f: 'α⁻¹', g: 'β', h: 'γ\'' },
   },
@@ -119,12 +182,130 @@ export default function FunctorMapper() {
   const [showHint, setShowHint] = useState(true);
   const [highlightedObject, setHighlightedObject] = useState<string | null>(null);
 
-  const functor = functors[activeFunctor];
+  const [customMap, setCustomMap] = useState<FunctorMap>({ objectMap: {}, morphismMap: {} });
+  const [dragItem, setDragItem] = useState<DragItem | null>(null);
+  const [showAll, setShowAll] = useState(false);
+  const [filter, setFilter] = useState<FunctorFilter>('all');
+  const [source, setSource] = useState<CategoryDefinition>(categoryC);
+  const [target, setTarget] = useState<CategoryDefinition>(categoryD);
+
+  // The preset functors only make sense between the default categories
+  const hasPresets = source === categoryC && target === categoryD;
+  const isCustom = !hasPresets || activeFunctor === functors.length;
+  const finiteC = useMemo(() => createFiniteCategory(source, source.compositions), [source]);
+  const finiteD = useMemo(() => createFiniteCategory(target, target.compositions), [target]);
+  const placedC = useMemo(() => fitLayout(source.objects, paneBox), [source]);
+  const placedD = useMemo(() => fitLayout(target.objects, paneBox), [target]);
+  const completion = useMemo(
+    () => completeFunctor(finiteC, finiteD, customMap),
+    [finiteC, finiteD, customMap]
+  );
+  const functor: FunctorMapping = useMemo(
+    () => isCustom
+      ? {
+        name: 'Custom F',
+        description: hasPresets
+          ? 'Drag an object or arrow of C onto its image in D; forced images are filled in for you'
+          : `Define F: ${source.name} → ${target.name} by dragging objects and arrows onto their images; forced images are filled in for you`,
+        ...completion.functor,
+      }
+      : functors[activeFunctor],
+    [isCustom, hasPresets, activeFunctor, completion, source, target]
+  );
+
+  // Valid images for the item being dragged, ignoring its current image
+  const validTargets = useMemo(() => {
+    if (!dragItem) return new Set<string>();
+    const key = dragItem.kind === 'object' ? 'objectMap' : 'morphismMap';
+    const rest = { ...customMap[key] };
+    delete rest[dragItem.id];
+    const base = completeFunctor(finiteC, finiteD, { ...customMap, [key]: rest }).functor;
+    const candidates = dragItem.kind === 'object'
+      ? objectCandidates(finiteC, finiteD, base, dragItem.id)
+      : morphismCandidates(finiteC, finiteD, base, dragItem.id);
+    return new Set(candidates.map((c) => c.id));
+  }, [dragItem, customMap, finiteC, finiteD]);
+
+  // Drop a dragged item onto a D object or morphism; an arrow dropped on an
+  // object goes to that object's identity
+  const assignImage = (kind: DragItem['kind'], targetId: string) => {
+    if (dragItem?.kind === 'morphism' && kind === 'object') {
+      assignImage('morphism', finiteD.identities[targetId]);
+      return;
+    }
+    if (!dragItem || dragItem.kind !== kind || !validTargets.has(targetId)) return;
+    const key = kind === 'object' ? 'objectMap' : 'morphismMap';
+    setCustomMap({ ...customMap, [key]: { ...customMap[key], [dragItem.id]: targetId } });
+    setDragItem(null);
+  };
+
+  // Remove a user-chosen image (inferred ones disappear with their causes)
+  const clearImage = (kind: DragItem['kind'], id: string) => {
+    const key = kind === 'object' ? 'objectMap' : 'morphismMap';
+    const rest = { ...customMap[key] };
+    delete rest[id];
+    setCustomMap({ ...customMap, [key]: rest });
+  };
+
+  // Every functor C → D with its properties, only computed while the list is open
+  const enumeration = useMemo(() => {
+    if (!showAll) return null;
+    const { functors: all, truncated } = enumerateFunctors(finiteC, finiteD);
+    const entries = all.map((f) => ({
+      functor: f,
+      faithful: isFaithful(finiteC, finiteD, f),
+      full: isFull(finiteC, finiteD, f),
+      injective: isInjectiveOnObjects(finiteC, f),
+      constant: isConstant(finiteC, finiteD, f),
+    }));
+    return { entries, truncated };
+  }, [showAll, finiteC, finiteD]);
+
+  const loadFunctor = (f: FunctorMap) => {
+    setActiveFunctor(functors.length);
+    setCustomMap(f);
+  };
+
+  // "A↦X, B↦Y; f↦α" with D's labels
+  const describeFunctor = (f: FunctorMap) => {
+    const objects = finiteC.objects.map((o) =>
+      `${o.label}↦${finiteD.objects.find((d) => d.id === f.objectMap[o.id])?.label}`
+    );
+    const arrows = source.morphisms.map((m) =>
+      `${m.label}↦${finiteD.morphismById.get(f.morphismMap[m.id])?.label}`
+    );
+    return [objects.join(', '), arrows.join(', ')].filter(Boolean).join('; ');
+  };
+
+  const changeCategory = (side: 'source' | 'target', category: CategoryDefinition) => {
+    (side === 'source' ? setSource : setTarget)(category);
+    setCustomMap({ objectMap: {}, morphismMap: {} });
+    setHighlightedObject(null);
+  };
+
+  // A drag ends wherever the mouse is released
+  useEffect(() => {
+    if (!dragItem) return;
+    const endDrag = () => setDragItem(null);
+    window.addEventListener('mouseup', endDrag);
+    return () => window.removeEventListener('mouseup', endDrag);
+  }, [dragItem]);
+  const violations = useMemo(
+    () => checkFunctor(finiteC, finiteD, functor),
+    [finiteC, finiteD, functor]
+  );
+
+  // Properties only make sense once F really is a functor
+  const classification = useMemo(
+    () => violations.length === 0 ? classifyFunctor(finiteC, finiteD, functor) : null,
+    [violations, finiteC, finiteD, functor]
+  );
 
   // Draw a category
   const drawCategory = (
     svg: d3.Selection<SVGSVGElement, unknown, null, undefined>,
-    category: CategoryData,
+    category: CategoryDefinition,
+    objects: PlacedObject[],
     isSource: boolean
   ) => {
     svg.selectAll('*').remove();
@@ -160,45 +341,49 @@ export default function FunctorMapper() {
 
     // Draw morphisms with animation
     category.morphisms.forEach((m, idx) => {
-      const source = category.objects.find(o => o.id === m.source);
-      const target = category.objects.find(o => o.id === m.target);
-      if (!source || !target) return;
+      const geometry = arrowGeometry(m, category.morphisms, objects, 16);
+      if (!geometry) return;
 
-      const dx = target.x - source.x;
-      const dy = target.y - source.y;
-      const len = Math.sqrt(dx * dx + dy * dy);
-      const offsetX = (dx / len) * 18;
-      const offsetY = (dy / len) * 18;
+      const isDragged = isSource && dragItem?.kind === 'morphism' && dragItem.id === m.id;
+      const isDropTarget = !isSource && dragItem?.kind === 'morphism' && validTargets.has(m.id);
+      const isDimmed = !isSource && dragItem?.kind === 'morphism' && !isDropTarget;
 
       const group = svg.append('g')
-        .attr('class', 'fm-morphism');
-
-      const line = group.append('line')
-        .attr('x1', source.x + offsetX)
-        .attr('y1', source.y + offsetY)
-        .attr('x2', source.x + offsetX)
-        .attr('y2', source.y + offsetY)
-        .attr('stroke', isSource ? 'var(--color-accent)' : 'var(--color-success)')
-        .attr('stroke-width', 2)
-        .attr('marker-end', `url(#fm-arrow-${isSource ? 'src' : 'tgt'})`);
-
-      line.transition()
+        .attr('class', `fm-morphism ${isDropTarget ? 'drop-target' : ''}`)
+        .attr('opacity', isDimmed ? 0.3 : 1)
+        .style('cursor', isCustom ? (isSource ? 'grab' : isDropTarget ? 'copy' : 'default') : 'default')
+        .on('mousedown', (event) => {
+          if (!isCustom || !isSource) return;
+          event.preventDefault();
+          setDragItem({ kind: 'morphism', id: m.id });
+        })
+        .on('mouseup', () => !isSource && assignImage('morphism', m.id));
+
+      // Wide invisible stroke so thin arrows are easy to grab
+      group.append('path')
+        .attr('d', geometry.d)
+        .attr('fill', 'none')
+        .attr('stroke', 'transparent')
+        .attr('stroke-width', 14);
+
+      group.append('path')
+        .attr('d', geometry.d)
+        .attr('fill', 'none')
+        .attr('stroke', isDragged || isDropTarget ? '#f59f00' : isSource ? 'var(--color-accent)' : 'var(--color-success)')
+        .attr('stroke-width', isDragged || isDropTarget ? 3 : 2)
+        .attr('marker-end', `url(#fm-arrow-${isSource ? 'src' : 'tgt'})`)
+        .attr('opacity', 0)
+        .transition()
         .delay(idx * 150 + 200)
         .duration(400)
         .ease(d3.easeQuadOut)
-        .attr('x2', target.x - offsetX)
-        .attr('y2', target.y - offsetY);
-
-      // Label
-      const midX = (source.x + target.x) / 2;
-      const midY = (source.y + target.y) / 2;
-      const perpX = -dy / len * 12;
-      const perpY = dx / len * 12;
+        .attr('opacity', 1);
 
       group.append('text')
-        .attr('x', midX + perpX)
-        .attr('y', midY + perpY)
+        .attr('x', geometry.labelX)
+        .attr('y', geometry.labelY)
         .attr('text-anchor', 'middle')
+        .attr('dy', '0.35em')
         .attr('font-size', '12px')
         .attr('font-weight', '500')
         .attr('fill', isSource ? 'var(--color-accent)' : 'var(--color-success)')
@@ -211,21 +396,32 @@ export default function FunctorMapper() {
     });
 
     // Draw objects with entrance animation
-    category.objects.forEach((obj, idx) => {
+    objects.forEach((obj, idx) => {
       const isHighlighted = isSource && highlightedObject === obj.id;
       const mappedId = isSource ? functor.objectMap[obj.id] : null;
       const isMappedTarget = !isSource && highlightedObject && functor.objectMap[highlightedObject] === obj.id;
+      const isDragged = isSource && dragItem?.kind === 'object' && dragItem.id === obj.id;
+      const isDropTarget = !isSource && !!dragItem && validTargets.has(
+        dragItem.kind === 'object' ? obj.id : finiteD.identities[obj.id]
+      );
+      const isDimmed = !isSource && !!dragItem && !isDropTarget;
 
       const group = svg.append('g')
-        .attr('class', 'fm-object')
+        .attr('class', `fm-object ${isDropTarget ? 'drop-target' : ''}`)
         .attr('transform', `translate(${obj.x}, ${obj.y})`)
         .attr('opacity', 0)
-        .style('cursor', isSource ? 'pointer' : 'default')
+        .style('cursor', isCustom ? (isSource ? 'grab' : isDropTarget ? 'copy' : 'default') : isSource ? 'pointer' : 'default')
         .on('mouseenter', () => isSource && setHighlightedObject(obj.id))
-        .on('mouseleave', () => setHighlightedObject(null));
+        .on('mouseleave', () => setHighlightedObject(null))
+        .on('mousedown', (event) => {
+          if (!isCustom || !isSource) return;
+          event.preventDefault();
+          setDragItem({ kind: 'object', id: obj.id });
+        })
+        .on('mouseup', () => !isSource && assignImage('object', obj.id));
 
       // Highlight ring
-      if (isHighlighted || isMappedTarget) {
+      if (isHighlighted || isMappedTarget || isDragged || isDropTarget) {
         group.append('circle')
           .attr('class', 'highlight-ring')
           .attr('r', 22)
@@ -267,7 +463,7 @@ export default function FunctorMapper() {
           .attr('font-size', '10px')
           .attr('fill', 'var(--color-text-muted)')
           .attr('opacity', 0)
-          .text(`→ ${mappedId}`)
+          .text(`→ ${finiteD.objects.find((o) => o.id === mappedId)?.label ?? mappedId}`)
           .transition()
           .delay(idx * 100 + 300)
           .duration(300)
@@ -277,7 +473,7 @@ export default function FunctorMapper() {
       group.transition()
         .delay(idx * 100)
         .duration(400)
-        .attr('opacity', 1);
+        .attr('opacity', isDimmed ? 0.3 : 1);
     });
   };
 
@@ -313,9 +509,9 @@ export default function FunctorMapper() {
       .text('F');
 
     // Draw mapping lines for each object
-    categoryC.objects.forEach((srcObj, idx) => {
+    placedC.forEach((srcObj, idx) => {
       const tgtId = functor.objectMap[srcObj.id];
-      const tgtObj = categoryD.objects.find(o => o.id === tgtId);
+      const tgtObj = placedD.find(o => o.id === tgtId);
       if (!tgtObj) return;
 
       const isHighlighted = highlightedObject === srcObj.id;
@@ -343,13 +539,13 @@ export default function FunctorMapper() {
   // Draw categories
   useEffect(() => {
     if (leftSvgRef.current) {
-      drawCategory(d3.select(leftSvgRef.current), categoryC, true);
+      drawCategory(d3.select(leftSvgRef.current), source, placedC, true);
     }
     if (rightSvgRef.current) {
-      drawCategory(d3.select(rightSvgRef.current), categoryD, false);
+      drawCategory(d3.select(rightSvgRef.current), target, placedD, false);
     }
     drawMappings();
-  }, [activeFunctor, highlightedObject]);
+  }, [functor, highlightedObject, dragItem, validTargets, source, target, placedC, placedD]);
 
   return (
     <div className="functor-mapper">
@@ -386,14 +582,23 @@ export default function FunctorMapper() {
           </svg>
           <label>Functor:</label>
           <select
-            value={activeFunctor}
+            value={isCustom ? functors.length : activeFunctor}
             onChange={(e) => setActiveFunctor(Number(e.target.value))}
           >
-            {functors.map((f, i) => (
+            {hasPresets && functors.map((f, i) => (
               <option key={i} value={i}>{f.name}</option>
             ))}
+            <option value={functors.length}>Custom F (drag to define)</option>
           </select>
         </div>
+        {isCustom && (
+          <button
+            className="btn btn-ghost btn-sm"
+            onClick={() => setCustomMap({ objectMap: {}, morphismMap: {} })}
+          >
+            Reset mapping
+          </button>
+        )}
         <label className="fm-checkbox">
           <input
             type="checkbox"
@@ -402,6 +607,14 @@ export default function FunctorMapper() {
           />
           <span>Show Laws Verification</span>
         </label>
+        <label className="fm-checkbox">
+          <input
+            type="checkbox"
+            checked={showAll}
+            onChange={(e) => setShowAll(e.target.checked)}
+          />
+          <span>Show All Functors</span>
+        </label>
       </div>
 
       <div className="fm-description">
@@ -413,6 +626,7 @@ export default function FunctorMapper() {
           <div className="category-label">
             <span className="label-text">Category C</span>
             <span className="label-hint">(Source)</span>
+            <CategoryPicker value={source} defaults={[categoryC]} onChange={(c) => changeCategory('source', c)} />
           </div>
           <svg ref={leftSvgRef} width="200" height="180" viewBox="0 0 200 180" />
         </div>
@@ -425,39 +639,93 @@ export default function FunctorMapper() {
           <div className="category-label">
             <span className="label-text">Category D</span>
             <span className="label-hint">(Target)</span>
+            <CategoryPicker value={target} defaults={[categoryD]} onChange={(c) => changeCategory('target', c)} />
           </div>
           <svg ref={rightSvgRef} width="200" height="180" viewBox="0 0 200 180" />
         </div>
       </div>
 
+      {classification && (
+        <div className="fm-properties">
+          <div className="property-badges">
+            {(Object.keys(propertyLabels) as (keyof FunctorProperties)[]).map((key) => (
+              <span
+                key={key}
+                className={`property-badge ${classification.properties[key] ? 'holds' : 'fails'}`}
+                title={classification.witnesses[key]}
+              >
+                {classification.properties[key] ? '✓' : '✗'} {propertyLabels[key]}
+              </span>
+            ))}
+          </div>
+          <ul className="property-witnesses">
+            {(Object.keys(propertyLabels) as (keyof FunctorProperties)[])
+              .filter((key) => classification.witnesses[key])
+              .map((key) => (
+                <li key={key}>
+                  <strong>Not {propertyLabels[key].toLowerCase()}:</strong> {classification.witnesses[key]}
+                </li>
+              ))}
+          </ul>
+          {classification.quasiInverse && (
+            <div className="quasi-inverse">
+              <strong>Quasi-inverse G: {target.name} → {source.name}:</strong>{' '}
+              {finiteD.objects.map((o) =>
+                `${o.label}↦${finiteC.objects.find((c) => c.id === classification.quasiInverse!.objectMap[o.id])?.label}`
+              ).concat(target.morphisms.map((m) =>
+                `${m.label}↦${finiteC.morphismById.get(classification.quasiInverse!.morphismMap[m.id])?.label}`
+              )).join(', ')}
+            </div>
+          )}
+        </div>
+      )}
+
       <div className="fm-mapping-table">
         <div className="mapping-section">
           <h4>Object Mapping</h4>
           <div className="mapping-items">
-            {Object.entries(functor.objectMap).map(([src, tgt]) => (
-              <div
-                key={src}
-                className={`mapping-item ${highlightedObject === src ? 'highlighted' : ''}`}
-                onMouseEnter={() => setHighlightedObject(src)}
-                onMouseLeave={() => setHighlightedObject(null)}
-              >
-                <span className="src">F({src})</span>
-                <span className="arrow">=</span>
-                <span className="tgt">{tgt}</span>
-              </div>
-            ))}
+            {(isCustom ? source.objects.map((o) => o.id) : Object.keys(functor.objectMap)).map((src) => {
+              const tgt = functor.objectMap[src];
+              const isInferred = isCustom && completion.inferredObjects.includes(src);
+              return (
+                <div
+                  key={src}
+                  className={`mapping-item ${highlightedObject === src ? 'highlighted' : ''} ${isInferred ? 'inferred' : ''}`}
+                  onMouseEnter={() => setHighlightedObject(src)}
+                  onMouseLeave={() => setHighlightedObject(null)}
+                  onClick={() => isCustom && !isInferred && clearImage('object', src)}
+                  title={isCustom && tgt !== undefined && !isInferred ? 'Click to clear' : undefined}
+                >
+                  <span className="src">F({finiteC.objects.find((o) => o.id === src)?.label ?? src})</span>
+                  <span className="arrow">=</span>
+                  <span className="tgt">{tgt === undefined ? '?' : finiteD.objects.find((o) => o.id === tgt)?.label ?? tgt}</span>
+                  {isInferred && <span className="auto-tag">auto</span>}
+                </div>
+              );
+            })}
           </div>
         </div>
         <div className="mapping-section">
           <h4>Morphism Mapping</h4>
           <div className="mapping-items">
-            {Object.entries(functor.morphismMap).map(([src, tgt]) => (
-              <div key={src} className="mapping-item">
-                <span className="src">F({src})</span>
-                <span className="arrow">=</span>
-                <span className="tgt">{tgt}</span>
-              </div>
-            ))}
+            {(isCustom ? source.morphisms.map((m) => m.id) : Object.keys(functor.morphismMap)).map((src) => {
+              const tgt = functor.morphismMap[src];
+              const isInferred = isCustom && completion.inferredMorphisms.includes(src);
+              const isBroken = violations.some((v) => v.morphisms.includes(src));
+              return (
+                <div
+                  key={src}
+                  className={`mapping-item ${isBroken && tgt !== undefined ? 'invalid' : ''} ${isInferred ? 'inferred' : ''}`}
+                  onClick={() => isCustom && !isInferred && clearImage('morphism', src)}
+                  title={isCustom && tgt !== undefined && !isInferred ? 'Click to clear' : undefined}
+                >
+                  <span className="src">F({finiteC.morphismById.get(src)?.label ?? src})</span>
+                  <span className="arrow">=</span>
+                  <span className="tgt">{tgt === undefined ? '?' : finiteD.morphismById.get(tgt)?.label ?? tgt}</span>
+                  {isInferred && <span className="auto-tag">auto</span>}
+                </div>
+              );
+            })}
           </div>
         </div>
       </div>
@@ -470,31 +738,92 @@ export default function FunctorMapper() {
             </svg>
             Functor Laws Verification
           </h4>
-          <div className="law-item">
-            <div className="law-name">Identity Preservation</div>
-            <div className="law-formula">F(id_A) = id_{`{F(A)}`}</div>
-            <div className="law-status valid">
-              <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                <polyline points="20 6 9 17 4 12" />
-              </svg>
-              Satisfied
-            </div>
-          </div>
-          <div className="law-item">
-            <div className="law-name">Composition Preservation</div>
-            <div className="law-formula">F(g ∘ f) = F(g) ∘ F(f)</div>
-            <div className="law-status valid">
-              <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                <polyline points="20 6 9 17 4 12" />
-              </svg>
-              Satisfied
-            </div>
-          </div>
+          {laws.map((law) => {
+            const failures = violations.filter((v) => law.kinds.includes(v.kind));
+            return (
+              <div key={law.name} className="law-block">
+                <div className="law-item">
+                  <div className="law-name">{law.name}</div>
+                  <div className="law-formula">{law.formula}</div>
+                  <div className={`law-status ${failures.length === 0 ? 'valid' : 'invalid'}`}>
+                    {failures.length === 0 ? (
+                      <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <polyline points="20 6 9 17 4 12" />
+                      </svg>
+                    ) : (
+                      <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <line x1="18" y1="6" x2="6" y2="18" />
+                        <line x1="6" y1="6" x2="18" y2="18" />
+                      </svg>
+                    )}
+                    {failures.length === 0 ? 'Satisfied' : `${failures.length} violation${failures.length > 1 ? 's' : ''}`}
+                  </div>
+                </div>
+                {failures.length > 0 && (
+                  <ul className="law-violations">
+                    {failures.map((v, idx) => (
+                      <li key={idx}>{v.message}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
           <p className="laws-note">
-            These laws ensure that the functor preserves the categorical structure.
+            {violations.length === 0
+              ? `${functor.name} is a functor: it preserves the categorical structure.`
+              : `${functor.name} is not a functor ${source.name} → ${target.name}.`}
           </p>
         </div>
       )}
+      {enumeration && (
+        <div className="fm-enumeration">
+          <h4>
+            {enumeration.truncated ? 'More than ' : ''}
+            {enumeration.entries.length} functor{enumeration.entries.length === 1 ? '' : 's'} {source.name} → {target.name}
+          </h4>
+          <div className="fm-filters">
+            {(Object.keys(filterLabels) as FunctorFilter[]).map((key) => (
+              <button
+                key={key}
+                className={`fm-filter ${filter === key ? 'active' : ''}`}
+                onClick={() => setFilter(key)}
+              >
+                {filterLabels[key]} ({key === 'all' ? enumeration.entries.length : enumeration.entries.filter((e) => e[key]).length})
+              </button>
+            ))}
+          </div>
+          <ul className="fm-functor-list">
+            {enumeration.entries
+              .filter((e) => filter === 'all' || e[filter])
+              .map((e, idx) => {
+                const isLoaded = isCustom
+                  && JSON.stringify(e.functor.objectMap) === JSON.stringify(functor.objectMap)
+                  && source.morphisms.every((m) => e.functor.morphismMap[m.id] === functor.morphismMap[m.id]);
+                return (
+                  <li
+                    key={idx}
+                    className={`fm-functor-entry ${isLoaded ? 'loaded' : ''}`}
+                    onClick={() => loadFunctor(e.functor)}
+                    title="Load this functor"
+                  >
+                    <span className="entry-mapping">{describeFunctor(e.functor) || 'Empty functor'}</span>
+                    <span className="entry-tags">
+                      {(['faithful', 'full', 'injective', 'constant'] as const)
+                        .filter((key) => e[key])
+                        .map((key) => (
+                          <span key={key} className="entry-tag">{filterLabels[key]}</span>
+                        ))}
+                    </span>
+                  </li>
+                );
+              })}
+          </ul>
+          {enumeration.truncated && (
+            <p className="laws-note">The search stopped at 1000 functors; try smaller categories for the full list.</p>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,571 @@
+import { useState, useRef, useEffect, useMemo } from 'react';
+import * as d3 from 'd3';
+import SimulatorHint, { HintStep } from './SimulatorHint';
+import { PlacedObject } from '../../utils/categoryTypes';
+import { fitLayout } from '../../utils/layout';
+import { parseElements } from '../../utils/finiteSets';
+import { coversText, hasseEdges, ordering, parseCovers, Poset, posetObjects } from '../../utils/posets';
+import {
+  AdjointObstruction,
+  galoisPairs,
+  join,
+  MonotoneMap,
+  monotonicityFailures,
+  operatorCheck,
+  rightAdjoint,
+} from '../../utils/galois';
+import { galoisPresets } from '../../data/galoisConnections';
+import { getExamplePreset } from '../../data/simulatorExamples';
+import './GaloisPlayground.css';
+
+interface GaloisPlaygroundProps {
+  initialExample?: string; // example id from examples.ts to open with
+}
+
+type Side = 'P' | 'Q';
+
+// How g is obtained: typed in by the user or computed from f
+type RightMode = 'given' | 'computed';
+
+// P on the left, Q on the right of a 560×300 canvas
+const boxes: Record<Side, { x: number; y: number; width: number; height: number }> = {
+  P: { x: 50, y: 60, width: 140, height: 190 },
+  Q: { x: 370, y: 60, width: 140, height: 190 },
+};
+
+const hintSteps: HintStep[] = [
+  {
+    title: 'Two Posets',
+    description: 'P and Q are drawn as Hasse diagrams: an edge goes up from x to y when y covers x. Edit the elements and covers, or click a lower element and then an upper one to add or remove an edge.',
+    action: 'Click two elements of the same poset',
+  },
+  {
+    title: 'Monotone Maps',
+    description: 'Choose f: P → Q and g: Q → P in the tables. Both must be monotone: x ≤ x\' gives f(x) ≤ f(x\').',
+  },
+  {
+    title: 'The Galois Condition',
+    description: 'f ⊣ g when f(x) ≤ y exactly when x ≤ g(y). The grid compares both sides for every pair; click a cell to trace it on the canvas.',
+    action: 'Click a cell of the grid',
+  },
+  {
+    title: 'Closure and Kernel',
+    description: 'For a Galois connection, g∘f is a closure operator on P (x ≤ gf(x), applying it twice changes nothing) and f∘g is a kernel operator on Q.',
+  },
+  {
+    title: 'Compute the Right Adjoint',
+    description: 'Switch g to "Right adjoint of f": g(y) must be the greatest x with f(x) ≤ y. When some y has no such greatest x, the playground explains which join f fails to preserve.',
+    action: 'Click "Right adjoint of f"',
+  },
+];
+
+const tips = [
+  'A Galois connection is an adjunction between posets seen as categories',
+  'Left adjoints preserve joins, right adjoints preserve meets',
+  'f is determined by g and vice versa: f(x) is the least y with x ≤ g(y)',
+  'The closed elements of g∘f correspond one-to-one with the open elements of f∘g',
+];
+
+// A map made total on `domain`: values outside `codomain` fall back to its first element
+const totalMap = (map: MonotoneMap, domain: string[], codomain: string[]): MonotoneMap =>
+  Object.fromEntries(domain.map((x) => [x, codomain.includes(map[x]) ? map[x] : codomain[0]]));
+
+/**
+ * Galois connections between finite posets: draw two Hasse diagrams,
+ * choose monotone f and g, check f(x) ≤ y ⟺ x ≤ g(y), and look at the
+ * closure g∘f, the kernel f∘g and the right adjoint of f.
+ */
+export default function GaloisPlayground({ initialExample }: GaloisPlaygroundProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const opened = getExamplePreset('galois-playground', initialExample);
+  const [presetIndex, setPresetIndex] = useState(opened ? galoisPresets.indexOf(opened) : 0);
+  const start = opened ?? galoisPresets[0];
+  const [posets, setPosets] = useState<Record<Side, Poset>>({ P: start.P, Q: start.Q });
+  const [texts, setTexts] = useState<Partial<Record<`${Side}-${'elements' | 'covers'}`, string>>>({});
+  const [coverErrors, setCoverErrors] = useState<Partial<Record<Side, string>>>({});
+  const [f, setF] = useState<MonotoneMap>(start.f);
+  const [g, setG] = useState<MonotoneMap>(start.g ?? {});
+  const [rightMode, setRightMode] = useState<RightMode>(start.g ? 'given' : 'computed');
+  // Lower end of a cover being drawn
+  const [pending, setPending] = useState<{ side: Side; x: string } | null>(null);
+  const [selected, setSelected] = useState<{ x: string; y: string } | null>(null);
+  const [showHint, setShowHint] = useState(true);
+
+  const loadPreset = (index: number) => {
+    const preset = galoisPresets[index];
+    setPresetIndex(index);
+    setPosets({ P: preset.P, Q: preset.Q });
+    setTexts({});
+    setCoverErrors({});
+    setF(preset.f);
+    setG(preset.g ?? {});
+    setRightMode(preset.g ? 'given' : 'computed');
+    setPending(null);
+    setSelected(null);
+  };
+
+  const { P, Q } = posets;
+  const ready = P.elements.length > 0 && Q.elements.length > 0;
+  const fTotal = useMemo(() => totalMap(f, P.elements, Q.elements), [f, P, Q]);
+  const fFailures = useMemo(() => (ready ? monotonicityFailures(P, Q, fTotal) : []), [ready, P, Q, fTotal]);
+  const adjoint = useMemo(() => (ready ? rightAdjoint(P, Q, fTotal) : null), [ready, P, Q, fTotal]);
+
+  // The g under test: the user's, or the computed right adjoint when it exists everywhere
+  const gTotal = useMemo(() => {
+    if (!ready) return null;
+    if (rightMode === 'given') return totalMap(g, Q.elements, P.elements);
+    if (!adjoint || adjoint.obstructions.length > 0 || fFailures.length > 0) return null;
+    return adjoint.g as MonotoneMap;
+  }, [ready, rightMode, g, P, Q, adjoint, fFailures]);
+
+  const gFailures = useMemo(() => (gTotal ? monotonicityFailures(Q, P, gTotal) : []), [gTotal, P, Q]);
+  const pairs = useMemo(() => (gTotal ? galoisPairs(P, Q, fTotal, gTotal) : []), [gTotal, P, Q, fTotal]);
+  const mismatches = pairs.filter((p) => p.left !== p.right);
+  const closure = useMemo(() => (gTotal ? operatorCheck(P, fTotal, gTotal, 'closure') : null), [gTotal, P, fTotal]);
+  const kernel = useMemo(() => (gTotal ? operatorCheck(Q, gTotal, fTotal, 'kernel') : null), [gTotal, Q, fTotal]);
+  const isConnection = gTotal !== null && fFailures.length === 0 && gFailures.length === 0 && mismatches.length === 0;
+
+  const placed = useMemo(() => ({
+    P: fitLayout(posetObjects(P), boxes.P),
+    Q: fitLayout(posetObjects(Q), boxes.Q),
+  }), [P, Q]);
+
+  const updatePoset = (side: Side, poset: Poset) => {
+    setPosets({ ...posets, [side]: poset });
+    setSelected(null);
+    setPending(null);
+  };
+
+  const changeElements = (side: Side, text: string) => {
+    setTexts({ ...texts, [`${side}-elements`]: text, [`${side}-covers`]: undefined });
+    const elements = parseElements(text);
+    const poset = posets[side];
+    updatePoset(side, {
+      ...poset,
+      elements,
+      covers: poset.covers.filter(([lower, upper]) => elements.includes(lower) && elements.includes(upper)),
+    });
+  };
+
+  const changeCovers = (side: Side, text: string) => {
+    setTexts({ ...texts, [`${side}-covers`]: text });
+    const { covers, error } = parseCovers(text, posets[side].elements);
+    setCoverErrors({ ...coverErrors, [side]: error ?? undefined });
+    if (!error) updatePoset(side, { ...posets[side], covers });
+  };
+
+  // Second click of a pair: toggle the cover lower < upper
+  const clickElement = (side: Side, x: string) => {
+    if (!pending || pending.side !== side) {
+      setPending({ side, x });
+      return;
+    }
+    setPending(null);
+    if (pending.x === x) return;
+    const poset = posets[side];
+    const existing = poset.covers.find(([a, b]) => (a === pending.x && b === x) || (a === x && b === pending.x));
+    let covers: [string, string][];
+    if (existing) {
+      covers = poset.covers.filter((c) => c !== existing);
+    } else if (ordering(poset)(x, pending.x)) {
+      setCoverErrors({ ...coverErrors, [side]: `${pending.x} < ${x} would make the order cyclic` });
+      return;
+    } else {
+      covers = [...poset.covers, [pending.x, x]];
+    }
+    setCoverErrors({ ...coverErrors, [side]: undefined });
+    setTexts({ ...texts, [`${side}-covers`]: undefined });
+    setPosets({ ...posets, [side]: { ...poset, covers } });
+    setSelected(null);
+  };
+
+  const explainObstruction = (o: AdjointObstruction) => {
+    if (o.maximal.length === 0) {
+      const bottom = join(P, []);
+      return bottom === null
+        ? `No x has f(x) ≤ ${o.y}, so g(${o.y}) has nowhere to go.`
+        : `No x has f(x) ≤ ${o.y}, not even f(${bottom}) = ${fTotal[bottom]}: f does not send the least element (the empty join) below ${o.y}.`;
+    }
+    const [a, b] = o.maximal;
+    return o.join === null
+      ? `f(${a}) and f(${b}) are both ≤ ${o.y}, and ${a}, ${b} have no join in P, so there is no single greatest choice for g(${o.y}).`
+      : `f(${a}) and f(${b}) are both ≤ ${o.y}, but f(${a} ∨ ${b}) = f(${o.join}) = ${fTotal[o.join]} is not: f does not preserve the join ${a} ∨ ${b}, so {x : f(x) ≤ ${o.y}} has no greatest element.`;
+  };
+
+  // Draw both Hasse diagrams with f above and g below
+  useEffect(() => {
+    if (!svgRef.current) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll('*').remove();
+
+    const defs = svg.append('defs');
+    [['f', '#f59f00'], ['g', 'var(--color-text-muted)']].forEach(([name, color]) => {
+      defs.append('marker')
+        .attr('id', `gp-arrow-${name}`)
+        .attr('viewBox', '-0 -5 10 10')
+        .attr('refX', 8)
+        .attr('refY', 0)
+        .attr('orient', 'auto')
+        .attr('markerWidth', 5)
+        .attr('markerHeight', 5)
+        .append('path')
+        .attr('d', 'M 0,-4 L 8,0 L 0,4')
+        .attr('fill', color);
+    });
+
+    const find = (side: Side, id: string) => placed[side].find((o) => o.id === id);
+    // The pair picked in the grid: trace f from x and g from y
+    const traced = selected ? { f: selected.x, g: selected.y } : null;
+
+    // Maps first, so the diagrams are drawn on top of them
+    const drawMap = (
+      name: 'f' | 'g', map: MonotoneMap, from: Side, to: Side, bulge: number, color: string
+    ) => {
+      placed[from].forEach((a) => {
+        const b = find(to, map[a.id]);
+        if (!b) return;
+        const isTraced = traced?.[name] === a.id;
+        const dx = b.x - a.x;
+        const dy = b.y - a.y;
+        const len = Math.sqrt(dx * dx + dy * dy) || 1;
+        svg.append('path')
+          .attr('d', `M ${a.x + (dx / len) * 16} ${a.y + (dy / len) * 16} Q ${(a.x + b.x) / 2} ${(a.y + b.y) / 2 + bulge} ${b.x - (dx / len) * 18} ${b.y - (dy / len) * 18}`)
+          .attr('fill', 'none')
+          .attr('stroke', color)
+          .attr('stroke-width', isTraced ? 2.5 : 1.2)
+          .attr('stroke-dasharray', '4,4')
+          .attr('opacity', traced && !isTraced ? 0.2 : 0.7)
+          .attr('marker-end', `url(#gp-arrow-${name})`);
+      });
+    };
+    drawMap('f', fTotal, 'P', 'Q', -50, '#f59f00');
+    if (gTotal) drawMap('g', gTotal, 'Q', 'P', 50, 'var(--color-text-muted)');
+
+    svg.append('text')
+      .attr('x', 280)
+      .attr('y', 22)
+      .attr('text-anchor', 'middle')
+      .attr('font-size', '14px')
+      .attr('font-weight', 'bold')
+      .attr('fill', '#f59f00')
+      .text('f →');
+    if (gTotal) {
+      svg.append('text')
+        .attr('x', 280)
+        .attr('y', 290)
+        .attr('text-anchor', 'middle')
+        .attr('font-size', '14px')
+        .attr('font-weight', 'bold')
+        .attr('fill', 'var(--color-text-muted)')
+        .text('← g');
+    }
+
+    const drawPoset = (side: Side, poset: Poset, color: string) => {
+      const box = boxes[side];
+      svg.append('text')
+        .attr('x', box.x + box.width / 2)
+        .attr('y', 22)
+        .attr('text-anchor', 'middle')
+        .attr('font-size', '15px')
+        .attr('font-weight', 'bold')
+        .attr('fill', color)
+        .text(`${side} = ${poset.name}`);
+
+      hasseEdges(poset).forEach(([lower, upper]) => {
+        const a = find(side, lower);
+        const b = find(side, upper);
+        if (!a || !b) return;
+        svg.append('line')
+          .attr('x1', a.x)
+          .attr('y1', a.y)
+          .attr('x2', b.x)
+          .attr('y2', b.y)
+          .attr('stroke', color)
+          .attr('stroke-width', 2)
+          .attr('opacity', 0.7);
+      });
+
+      const marked = (o: PlacedObject) => {
+        if (pending?.side === side && pending.x === o.id) return 'pending';
+        if (!selected) return null;
+        if (side === 'P' && (o.id === selected.x || o.id === gTotal?.[selected.y])) return 'traced';
+        if (side === 'Q' && (o.id === selected.y || o.id === fTotal[selected.x])) return 'traced';
+        return null;
+      };
+
+      placed[side].forEach((o) => {
+        const mark = marked(o);
+        const width = Math.max(30, o.label.length * 7 + 12);
+        const group = svg.append('g')
+          .attr('class', 'gp-element')
+          .attr('transform', `translate(${o.x}, ${o.y})`)
+          .style('cursor', 'pointer')
+          .on('click', () => clickElement(side, o.id));
+
+        group.append('rect')
+          .attr('x', -width / 2)
+          .attr('y', -12)
+          .attr('width', width)
+          .attr('height', 24)
+          .attr('rx', 12)
+          .attr('fill', 'var(--color-bg-primary)')
+          .attr('stroke', mark ? '#f59f00' : color)
+          .attr('stroke-width', mark ? 3 : 2);
+
+        group.append('text')
+          .attr('text-anchor', 'middle')
+          .attr('dy', '0.35em')
+          .attr('font-size', '11px')
+          .attr('font-weight', 'bold')
+          .attr('fill', 'var(--color-text-primary)')
+          .text(o.label);
+      });
+    };
+
+    drawPoset('P', P, 'var(--color-accent)');
+    drawPoset('Q', Q, 'var(--color-success)');
+  }, [P, Q, placed, fTotal, gTotal, pending, selected]);
+
+  const mapTable = (name: 'f' | 'g', domain: string[], codomain: string[], map: MonotoneMap, onChange: (x: string, y: string) => void) => (
+    <table className="gp-table">
+      <tbody>
+        {domain.map((x) => (
+          <tr key={x}>
+            <td>{name}({x})</td>
+            <td>
+              <select value={map[x]} onChange={(e) => onChange(x, e.target.value)}>
+                {codomain.map((y) => <option key={y} value={y}>{y}</option>)}
+              </select>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+
+  return (
+    <div className="galois-playground">
+      {showHint && (
+        <SimulatorHint
+          title="Galois Playground"
+          description="Draw two finite posets, choose monotone maps f and g between them, and check whether they form a Galois connection f ⊣ g."
+          steps={hintSteps}
+          tips={tips}
+          onDismiss={() => setShowHint(false)}
+          compact={false}
+        />
+      )}
+
+      {!showHint && (
+        <button
+          className="hint-toggle-btn"
+          onClick={() => setShowHint(true)}
+          title="Show help"
+        >
+          <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <circle cx="12" cy="12" r="10" />
+            <path d="M9.09 9a3 3 0 0 1 5.83 1c0 2-3 3-3 3" />
+            <line x1="12" y1="17" x2="12.01" y2="17" />
+          </svg>
+          <span>Help</span>
+        </button>
+      )}
+
+      <div className="gp-controls">
+        <select value={presetIndex} onChange={(e) => loadPreset(Number(e.target.value))}>
+          {galoisPresets.map((p, i) => <option key={p.id} value={i}>{p.name}</option>)}
+        </select>
+        <span className="gp-description">{galoisPresets[presetIndex].description}</span>
+      </div>
+
+      <div className="gp-posets">
+        {(['P', 'Q'] as const).map((side) => (
+          <div key={side} className="gp-poset">
+            <label className="gp-row">
+              <span className="gp-label">{side} =</span>
+              <input
+                value={texts[`${side}-elements`] ?? posets[side].elements.join(', ')}
+                onChange={(e) => changeElements(side, e.target.value)}
+              />
+            </label>
+            <label className="gp-row">
+              <span className="gp-label">covers</span>
+              <input
+                value={texts[`${side}-covers`] ?? coversText(posets[side])}
+                onChange={(e) => changeCovers(side, e.target.value)}
+                placeholder="a < b, b < c"
+              />
+            </label>
+            {coverErrors[side] && <div className="gp-error">{coverErrors[side]}</div>}
+          </div>
+        ))}
+      </div>
+
+      <div className="gp-canvas">
+        <svg ref={svgRef} width="100%" height="300" viewBox="0 0 560 300" />
+      </div>
+      <div className="gp-note">
+        {pending
+          ? `Now click an element above ${pending.x} in ${pending.side} to add the cover ${pending.x} < …, or the same one to cancel.`
+          : 'Click a lower element and then an upper one to add or remove a cover.'}
+      </div>
+
+      {!ready ? (
+        <div className="gp-panel gp-error">Both posets need at least one element.</div>
+      ) : (
+        <>
+          <div className="gp-maps">
+            <div className="gp-panel">
+              <div className="gp-title">f: P → Q</div>
+              {mapTable('f', P.elements, Q.elements, fTotal, (x, y) => setF({ ...fTotal, [x]: y }))}
+            </div>
+            <div className="gp-panel">
+              <div className="gp-title">g: Q → P</div>
+              <div className="gp-toggle">
+                <button
+                  className={`btn btn-sm ${rightMode === 'given' ? 'btn-primary' : 'btn-ghost'}`}
+                  onClick={() => setRightMode('given')}
+                >
+                  Define g
+                </button>
+                <button
+                  className={`btn btn-sm ${rightMode === 'computed' ? 'btn-primary' : 'btn-ghost'}`}
+                  onClick={() => setRightMode('computed')}
+                >
+                  Right adjoint of f
+                </button>
+              </div>
+              {rightMode === 'given' && gTotal && mapTable('g', Q.elements, P.elements, gTotal, (y, x) => setG({ ...gTotal, [y]: x }))}
+              {rightMode === 'computed' && adjoint && fFailures.length === 0 && (
+                <table className="gp-table">
+                  <tbody>
+                    {Q.elements.map((y) => (
+                      <tr key={y} className={adjoint.g[y] === null ? 'fails' : ''}>
+                        <td>g({y})</td>
+                        <td>= {adjoint.g[y] ?? 'none'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              {rightMode === 'computed' && adjoint && fFailures.length === 0 && adjoint.obstructions.length === 0 && (
+                <button className="btn btn-ghost btn-sm" onClick={() => { setG(adjoint.g as MonotoneMap); setRightMode('given'); }}>
+                  Edit this g
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div className={`gp-verdict ${isConnection ? 'holds' : 'fails'}`}>
+            {fFailures.length > 0 ? (
+              <>
+                <strong>f is not monotone, so it cannot be part of a Galois connection.</strong>
+                <ul>
+                  {fFailures.map(([x, x2]) => (
+                    <li key={`${x}-${x2}`}>{x} ≤ {x2} but f({x}) = {fTotal[x]} ≰ f({x2}) = {fTotal[x2]}</li>
+                  ))}
+                </ul>
+              </>
+            ) : rightMode === 'computed' && adjoint && adjoint.obstructions.length > 0 ? (
+              <>
+                <strong>f has no right adjoint.</strong>
+                <ul>
+                  {adjoint.obstructions.map((o) => <li key={o.y}>{explainObstruction(o)}</li>)}
+                </ul>
+              </>
+            ) : gFailures.length > 0 ? (
+              <>
+                <strong>g is not monotone.</strong>
+                <ul>
+                  {gFailures.map(([y, y2]) => (
+                    <li key={`${y}-${y2}`}>{y} ≤ {y2} but g({y}) = {gTotal![y]} ≰ g({y2}) = {gTotal![y2]}</li>
+                  ))}
+                </ul>
+              </>
+            ) : mismatches.length > 0 ? (
+              <>
+                <strong>f ⊣ g fails for {mismatches.length} pair{mismatches.length === 1 ? '' : 's'}.</strong>
+                <ul>
+                  {mismatches.slice(0, 5).map((p) => (
+                    <li key={`${p.x}-${p.y}`}>
+                      f({p.x}) = {fTotal[p.x]} {p.left ? '≤' : '≰'} {p.y}, but {p.x} {p.right ? '≤' : '≰'} g({p.y}) = {gTotal![p.y]}
+                    </li>
+                  ))}
+                </ul>
+              </>
+            ) : (
+              <strong>f ⊣ g: f(x) ≤ y ⟺ x ≤ g(y) for all {pairs.length} pairs.</strong>
+            )}
+          </div>
+
+          {gTotal && (
+            <div className="gp-panel">
+              <div className="gp-title">f(x) ≤ y versus x ≤ g(y)</div>
+              <table className="gp-grid">
+                <thead>
+                  <tr>
+                    <th>x \ y</th>
+                    {Q.elements.map((y) => <th key={y}>{y}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {P.elements.map((x) => (
+                    <tr key={x}>
+                      <th>{x}</th>
+                      {Q.elements.map((y) => {
+                        const pair = pairs.find((p) => p.x === x && p.y === y);
+                        if (!pair) return <td key={y} />;
+                        const isSelected = selected?.x === x && selected.y === y;
+                        return (
+                          <td
+                            key={y}
+                            className={`${pair.left !== pair.right ? 'fails' : pair.left ? 'both' : ''} ${isSelected ? 'selected' : ''}`}
+                            onClick={() => setSelected(isSelected ? null : { x, y })}
+                            title={`f(${x}) = ${fTotal[x]} ${pair.left ? '≤' : '≰'} ${y};  ${x} ${pair.right ? '≤' : '≰'} g(${y}) = ${gTotal[y]}`}
+                          >
+                            {pair.left !== pair.right ? '✗' : pair.left ? '≤' : '·'}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="gp-note">≤: both sides hold · ·: neither holds · ✗: exactly one holds</p>
+            </div>
+          )}
+
+          {closure && kernel && (
+            <div className="gp-maps">
+              {([
+                ['Closure g∘f on P', 'gf', closure, 'x ≤ gf(x)', 'closed'],
+                ['Kernel f∘g on Q', 'fg', kernel, 'fg(y) ≤ y', 'open'],
+              ] as const).map(([title, name, check, law, fixedName]) => (
+                <div key={name} className="gp-panel">
+                  <div className="gp-title">{title}</div>
+                  <div className="gp-mapping">
+                    {Object.entries(check.map).map(([x, y]) => (
+                      <span key={x} className={check.inflationFailures.includes(x) || check.idempotenceFailures.includes(x) ? 'fails' : ''}>
+                        {x} ↦ {y}
+                      </span>
+                    ))}
+                  </div>
+                  <ul className="gp-checks">
+                    <li className={check.inflationFailures.length === 0 ? 'holds' : 'fails'}>
+                      {law}: {check.inflationFailures.length === 0 ? '✓' : `fails at ${check.inflationFailures.join(', ')}`}
+                    </li>
+                    <li className={check.idempotenceFailures.length === 0 ? 'holds' : 'fails'}>
+                      idempotent: {check.idempotenceFailures.length === 0 ? '✓' : `fails at ${check.idempotenceFailures.join(', ')}`}
+                    </li>
+                    <li>{fixedName} elements: {check.fixed.join(', ') || 'none'}</li>
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,349 @@
+import { useState, useRef, useEffect, useMemo } from 'react';
+import * as d3 from 'd3';
+import { Category } from '../../utils/categoryTypes';
+import { arrowGeometry, fitLayout } from '../../utils/layout';
+import { FunctionTable, parseElements, SetInterpretation } from '../../utils/finiteSets';
+import {
+  checkCocone,
+  checkCone,
+  completeInterpretation,
+  computeColimit,
+  computeLimit,
+  defaultCoconeLeg,
+  defaultConeLeg,
+  initialTestApex,
+  taggedLabel,
+  TestCone,
+} from '../../utils/finiteLimits';
+import './LimitCalculator.css';
+
+interface LimitCalculatorProps {
+  graph: Category;
+  interpretation?: SetInterpretation; // starting sets and functions, if the diagram has them
+}
+
+type Mode = 'limit' | 'colimit';
+
+// Diagram in the middle band, the apexes above (limit) or below (colimit)
+const diagramBox = { x: 60, y: 105, width: 260, height: 50 };
+const apexY = { limit: 30, colimit: 230 };
+const apexX = { universal: 240, test: 110 };
+
+/**
+ * Limit and colimit of a finite diagram in FinSet, with a competing
+ * (co)cone to test the universal property against.
+ */
+export default function LimitCalculator({ graph, interpretation }: LimitCalculatorProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [mode, setMode] = useState<Mode>('limit');
+  const [edits, setEdits] = useState<SetInterpretation | undefined>(interpretation);
+  const [setTexts, setSetTexts] = useState<Record<string, string>>({});
+  const [testApexText, setTestApexText] = useState(initialTestApex);
+  const [testLegs, setTestLegs] = useState<Record<string, FunctionTable>>({});
+
+  const sets = useMemo(() => completeInterpretation(graph, edits), [graph, edits]);
+  const limit = useMemo(() => computeLimit(graph, sets), [graph, sets]);
+  const colimit = useMemo(() => computeColimit(graph, sets), [graph, sets]);
+  const isLimit = mode === 'limit';
+
+  // The competing (co)cone; unset legs default to ones that factor through the universal one
+  const testApex = useMemo(() => parseElements(testApexText), [testApexText]);
+  const test: TestCone = useMemo(() => {
+    const legs: Record<string, FunctionTable> = {};
+    graph.objects.forEach((o) => {
+      const chosen = testLegs[o.id] ?? {};
+      legs[o.id] = isLimit
+        ? defaultConeLeg(testApex, chosen, sets.sets[o.id], limit.apex, (l) => limit.legs[o.id][l])
+        : defaultCoconeLeg(sets.sets[o.id], chosen, testApex, colimit.apex, (y) => colimit.legs[o.id][y]);
+    });
+    return { apex: testApex, legs };
+  }, [graph, sets, limit, colimit, isLimit, testApex, testLegs]);
+
+  const check = useMemo(
+    () => isLimit ? checkCone(graph, sets, test) : checkCocone(graph, sets, colimit, test),
+    [isLimit, graph, sets, colimit, test]
+  );
+
+  const changeSet = (objectId: string, text: string) => {
+    setSetTexts({ ...setTexts, [objectId]: text });
+    setEdits({ ...sets, sets: { ...sets.sets, [objectId]: parseElements(text) } });
+  };
+
+  const changeFunction = (arrowId: string, x: string, y: string) => {
+    setEdits({ ...sets, functions: { ...sets.functions, [arrowId]: { ...sets.functions[arrowId], [x]: y } } });
+  };
+
+  const changeLeg = (objectId: string, x: string, y: string) => {
+    setTestLegs({ ...testLegs, [objectId]: { ...test.legs[objectId], [x]: y } });
+  };
+
+  const changeMode = (next: Mode) => {
+    setMode(next);
+    setTestLegs({});
+  };
+
+  // Draw the diagram, the universal (co)cone and the competing one
+  useEffect(() => {
+    if (!svgRef.current) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll('*').remove();
+
+    const placed = fitLayout(graph.objects, diagramBox);
+    const y = apexY[mode];
+    const universal = { x: apexX.universal, y, label: isLimit ? 'L' : 'C', size: isLimit ? limit.apex.length : colimit.apex.length };
+    const competitor = { x: apexX.test, y, label: 'X', size: testApex.length };
+
+    const defs = svg.append('defs');
+    [['accent', 'var(--color-accent)'], ['green', 'var(--color-success)'], ['orange', '#f59f00'], ['red', 'var(--color-error)']].forEach(([name, color]) => {
+      defs.append('marker')
+        .attr('id', `lc-arrow-${name}`)
+        .attr('viewBox', '-0 -5 10 10')
+        .attr('refX', 8)
+        .attr('refY', 0)
+        .attr('orient', 'auto')
+        .attr('markerWidth', 6)
+        .attr('markerHeight', 6)
+        .append('path')
+        .attr('d', 'M 0,-4 L 8,0 L 0,4')
+        .attr('fill', color);
+    });
+
+    // Straight arrow between two circles of the given radii
+    const line = (
+      from: { x: number; y: number }, to: { x: number; y: number },
+      color: string, marker: string, dashed: boolean, fromRadius = 20, toRadius = 20
+    ) => {
+      const dx = to.x - from.x;
+      const dy = to.y - from.y;
+      const len = Math.sqrt(dx * dx + dy * dy) || 1;
+      svg.append('line')
+        .attr('x1', from.x + (dx / len) * fromRadius)
+        .attr('y1', from.y + (dy / len) * fromRadius)
+        .attr('x2', to.x - (dx / len) * toRadius)
+        .attr('y2', to.y - (dy / len) * toRadius)
+        .attr('stroke', color)
+        .attr('stroke-width', 1.5)
+        .attr('stroke-dasharray', dashed ? '4,3' : null)
+        .attr('marker-end', `url(#lc-arrow-${marker})`);
+    };
+
+    // Legs of both (co)cones
+    placed.forEach((obj) => {
+      if (isLimit) {
+        line(universal, obj, 'var(--color-accent)', 'accent', false, 22, 16);
+        line(competitor, obj, 'var(--color-success)', 'green', true, 22, 16);
+      } else {
+        line(obj, universal, 'var(--color-accent)', 'accent', false, 16, 22);
+        line(obj, competitor, 'var(--color-success)', 'green', true, 16, 22);
+      }
+    });
+
+    // Mediating arrow X → L or C → X, red when the test data is not a (co)cone
+    const ok = check.mediating !== null;
+    const [from, to] = isLimit ? [competitor, universal] : [universal, competitor];
+    line(from, to, ok ? '#f59f00' : 'var(--color-error)', ok ? 'orange' : 'red', true, 22, 22);
+    svg.append('text')
+      .attr('x', (from.x + to.x) / 2)
+      .attr('y', y - 10)
+      .attr('text-anchor', 'middle')
+      .attr('font-size', '12px')
+      .attr('font-weight', 'bold')
+      .attr('fill', ok ? '#f59f00' : 'var(--color-error)')
+      .text(ok ? '∃! u' : 'no u');
+
+    // Arrows of the diagram itself
+    graph.morphisms.forEach((m) => {
+      const geometry = arrowGeometry(m, graph.morphisms, placed, 16);
+      if (!geometry) return;
+      svg.append('path')
+        .attr('d', geometry.d)
+        .attr('fill', 'none')
+        .attr('stroke', 'var(--color-text-muted)')
+        .attr('stroke-width', 1.5)
+        .attr('marker-end', 'url(#lc-arrow-accent)');
+      svg.append('text')
+        .attr('x', geometry.labelX)
+        .attr('y', geometry.labelY)
+        .attr('dy', '0.35em')
+        .attr('text-anchor', 'middle')
+        .attr('font-size', '11px')
+        .attr('fill', 'var(--color-text-muted)')
+        .text(m.label);
+    });
+
+    // Objects, each showing the size of its set
+    const node = (x: number, yPos: number, label: string, size: number, radius: number, stroke: string) => {
+      const group = svg.append('g').attr('transform', `translate(${x}, ${yPos})`);
+      group.append('circle')
+        .attr('r', radius)
+        .attr('fill', 'var(--color-bg-primary)')
+        .attr('stroke', stroke)
+        .attr('stroke-width', 2);
+      group.append('text')
+        .attr('text-anchor', 'middle')
+        .attr('dy', '-0.1em')
+        .attr('font-size', '13px')
+        .attr('font-weight', 'bold')
+        .attr('fill', 'var(--color-text-primary)')
+        .text(label);
+      group.append('text')
+        .attr('text-anchor', 'middle')
+        .attr('dy', '1.1em')
+        .attr('font-size', '9px')
+        .attr('fill', 'var(--color-text-muted)')
+        .text(`|${size}|`);
+    };
+
+    placed.forEach((obj) => node(obj.x, obj.y, obj.label, sets.sets[obj.id].length, 16, 'var(--color-accent)'));
+    node(universal.x, universal.y, universal.label, universal.size, 20, 'var(--color-accent)');
+    node(competitor.x, competitor.y, competitor.label, competitor.size, 20, 'var(--color-success)');
+  }, [graph, mode, isLimit, sets, limit, colimit, testApex, check]);
+
+  return (
+    <div className="limit-calculator">
+      <div className="lc-header">
+        <h4>{isLimit ? 'Limit' : 'Colimit'} in FinSet</h4>
+        <div className="lc-toggle">
+          <button className={`btn btn-sm ${isLimit ? 'btn-primary' : 'btn-ghost'}`} onClick={() => changeMode('limit')}>
+            Limit
+          </button>
+          <button className={`btn btn-sm ${!isLimit ? 'btn-primary' : 'btn-ghost'}`} onClick={() => changeMode('colimit')}>
+            Colimit
+          </button>
+        </div>
+      </div>
+
+      <details className="lc-functor">
+        <summary>Sets and functions</summary>
+        {graph.objects.map((o) => (
+          <label key={o.id} className="lc-row">
+            <span className="lc-label">{o.label} =</span>
+            <input
+              value={setTexts[o.id] ?? sets.sets[o.id].join(', ')}
+              onChange={(e) => changeSet(o.id, e.target.value)}
+            />
+          </label>
+        ))}
+        {graph.morphisms.map((m) => (
+          <div key={m.id} className="lc-row">
+            <span className="lc-label">{m.label}:</span>
+            {sets.sets[m.source].map((x) => (
+              <span key={x} className="lc-mapping">
+                {x} ↦
+                <select value={sets.functions[m.id][x] ?? ''} onChange={(e) => changeFunction(m.id, x, e.target.value)}>
+                  {sets.sets[m.target].map((y) => <option key={y} value={y}>{y}</option>)}
+                </select>
+              </span>
+            ))}
+            {sets.sets[m.source].length > 0 && sets.sets[m.target].length === 0 && (
+              <span className="lc-error">no function into the empty set</span>
+            )}
+          </div>
+        ))}
+      </details>
+
+      <div className="lc-canvas">
+        <svg ref={svgRef} width="100%" height="260" viewBox="0 0 380 260" />
+      </div>
+
+      {isLimit ? (
+        <div className="lc-result">
+          <div className="lc-title">
+            L = {'{'}families (x_{graph.objects.map((o) => o.label).join(', x_')}) matched by every arrow{'}'}, |L| = {limit.apex.length}
+          </div>
+          {limit.apex.length === 0 ? (
+            <p className="lc-note">No family is compatible with all the arrows: the limit is empty.</p>
+          ) : (
+            <table className="lc-table">
+              <thead>
+                <tr>
+                  <th>ℓ ∈ L</th>
+                  {graph.objects.map((o) => <th key={o.id}>π_{o.label}(ℓ)</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {limit.apex.map((l) => (
+                  <tr key={l} className={check.mediating && Object.values(check.mediating).includes(l) ? 'hit' : ''}>
+                    <td>{l}</td>
+                    {graph.objects.map((o) => <td key={o.id}>{limit.legs[o.id][l]}</td>)}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      ) : (
+        <div className="lc-result">
+          <div className="lc-title">
+            C = disjoint union glued along every arrow, |C| = {colimit.apex.length}
+          </div>
+          <ul className="lc-classes">
+            {colimit.apex.map((c) => (
+              <li key={c}>
+                <code>{taggedLabel(graph, c)}</code> = {'{'}{colimit.classes[c].map((e) => taggedLabel(graph, e)).join(', ')}{'}'}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className={`lc-test ${check.mediating ? 'valid' : 'invalid'}`}>
+        <div className="lc-title">Competing {isLimit ? 'cone' : 'cocone'}</div>
+        <label className="lc-row">
+          <span className="lc-label">X =</span>
+          <input value={testApexText} onChange={(e) => setTestApexText(e.target.value)} />
+        </label>
+        {isLimit
+          ? testApex.map((x) => (
+            <div key={x} className="lc-row">
+              <span className="lc-label">{x}:</span>
+              {graph.objects.map((o) => (
+                <span key={o.id} className="lc-mapping">
+                  c_{o.label} ↦
+                  <select value={test.legs[o.id][x] ?? ''} onChange={(e) => changeLeg(o.id, x, e.target.value)}>
+                    {sets.sets[o.id].map((y) => <option key={y} value={y}>{y}</option>)}
+                  </select>
+                </span>
+              ))}
+            </div>
+          ))
+          : graph.objects.map((o) => (
+            <div key={o.id} className="lc-row">
+              <span className="lc-label">c_{o.label}:</span>
+              {sets.sets[o.id].map((y) => (
+                <span key={y} className="lc-mapping">
+                  {y} ↦
+                  <select value={test.legs[o.id][y] ?? ''} onChange={(e) => changeLeg(o.id, y, e.target.value)}>
+                    {testApex.map((x) => <option key={x} value={x}>{x}</option>)}
+                  </select>
+                </span>
+              ))}
+            </div>
+          ))}
+
+        {check.mediating ? (
+          <div className="lc-mediating">
+            <div>
+              The unique u: {isLimit ? 'X → L' : 'C → X'} with {isLimit ? 'π_i∘u = c_i' : 'u∘ι_i = c_i'}:
+            </div>
+            {Object.entries(check.mediating).map(([from, to]) => (
+              <code key={from}>u({isLimit ? from : taggedLabel(graph, from)}) = {to}</code>
+            ))}
+            <p className="lc-note">
+              {isLimit
+                ? 'Unique because an element of L is determined by its projections.'
+                : 'Unique because every element of C is the image of some ι_i.'}
+            </p>
+          </div>
+        ) : (
+          <div className="lc-failures">
+            Not a {isLimit ? 'cone' : 'cocone'}, so nothing has to factor through {isLimit ? 'L' : 'C'}:
+            {check.failures.slice(0, 4).map((f, i) => <div key={i} className="lc-error">{f.message}</div>)}
+            {check.failures.length > 4 && <div className="lc-note">…and {check.failures.length - 4} more</div>}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,28 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
 import * as d3 from 'd3';
 import SimulatorHint, { HintStep } from './SimulatorHint';
+import CategoryPicker from './CategoryPicker';
+import { CategoryDefinition, Morphism } from '../../utils/categoryTypes';
+import {
+  createFiniteCategory,
+  compose as composeIn,
+  FiniteCategory,
+  getMorphism,
+  nonIdentityMorphisms,
+  pathLabel,
+} from '../../utils/categoryEngine';
+import { arrowGeometry, fitLayout } from '../../utils/layout';
+import { evaluate, evaluatePath, SetInterpretation, tabulate } from '../../utils/finiteSets';
+import { classifyMorphisms, MorphismClassification } from '../../utils/morphismProperties';
+import { getExamplePreset } from '../../data/simulatorExamples';
 import './MorphismComposer.css';
 
-interface Morphism {
-  id: string;
-  label: string;
-  source: string;
-  target: string;
+interface MorphismComposerProps {
+  initialExample?: string; // example id from examples.ts to open with
+}
+
+interface CompositionResult extends Morphism {
+  formal: string; // e.g. "g∘f"
 }
 
 const initialMorphisms: Morphism[] = [
@@ -17,6 +32,43 @@ const initialMorphisms: Morphism[] = [
   { id: 'k', label: 'k', source: 'A', target: 'C' },
 ];
 
+// The category behind the diagram: k is g∘f, and the composites ending in D
+// are named so that every composable pair has an answer
+const composerDefinition: CategoryDefinition = {
+  id: 'composer',
+  name: 'Composer',
+  objects: ['A', 'B', 'C', 'D'].map((id) => ({ id, label: id })),
+  morphisms: [
+    ...initialMorphisms,
+    { id: 'hg', label: 'h∘g', source: 'B', target: 'D' },
+    { id: 'hk', label: 'h∘k', source: 'A', target: 'D' },
+  ],
+  compositions: [
+    { before: 'f', after: 'g', result: 'k' },
+    { before: 'g', after: 'h', result: 'hg' },
+    { before: 'k', after: 'h', result: 'hk' },
+    { before: 'f', after: 'hg', result: 'hk' },
+  ],
+};
+
+const composerCategory = createFiniteCategory(composerDefinition, composerDefinition.compositions);
+
+// The same diagram in Set: f squares, g takes the parity, h encodes it as a bit
+const parity = (x: string) => (Number(x) % 2 === 0 ? 'even' : 'odd');
+const bit = (p: string) => (p === 'even' ? '0' : '1');
+
+const composerSets: SetInterpretation = {
+  sets: { A: ['1', '2', '3'], B: ['1', '4', '9'], C: ['even', 'odd'], D: ['0', '1'] },
+  functions: {
+    f: tabulate(['1', '2', '3'], (x) => String(Number(x) ** 2)),
+    g: tabulate(['1', '4', '9'], parity),
+    h: tabulate(['even', 'odd'], bit),
+    k: tabulate(['1', '2', '3'], parity),
+    hg: tabulate(['1', '4', '9'], (x) => bit(parity(x))),
+    hk: tabulate(['1', '2', '3'], (x) => bit(parity(x))),
+  },
+};
+
 const objectPositions: Record<string, { x: number; y: number }> = {
   A: { x: 60, y: 100 },
   B: { x: 160, y: 100 },
@@ -24,6 +76,17 @@ const objectPositions: Record<string, { x: number; y: number }> = {
   D: { x: 360, y: 100 },
 };
 
+// Where the objects of any other category go
+const layoutBox = { x: 70, y: 75, width: 280, height: 80 };
+
+const classLabels: ['mono' | 'epi' | 'splitMono' | 'splitEpi' | 'iso', string][] = [
+  ['mono', 'Mono'],
+  ['epi', 'Epi'],
+  ['splitMono', 'Split mono'],
+  ['splitEpi', 'Split epi'],
+  ['iso', 'Iso'],
+];
+
 const hintSteps: HintStep[] = [
   {
     title: 'Select First Morphism',
@@ -44,38 +107,76 @@ const hintSteps: HintStep[] = [
     description: 'Try composing three morphisms in different orders: (h∘g)∘f vs h∘(g∘f). Both give the same result—this is associativity!',
     action: 'Try different combinations',
   },
+  {
+    title: 'Classify Morphisms',
+    description: 'The table below sorts every arrow into mono, epi, split mono, split epi and iso. Click a row to see its inverse, sections and retractions, or the pair of arrows that stops it being mono or epi.',
+    action: 'Click a row of the classification table',
+  },
+  {
+    title: 'Change the Category',
+    description: 'Whether an arrow is mono or epi depends on the whole category. Load another one, such as the forks or the retract, from the category dropdown.',
+    action: 'Pick a category above the diagram',
+  },
 ];
 
 const tips = [
   'Composition is read right-to-left: g∘f means "first f, then g"',
   'Two morphisms can only compose if their types match: target of first = source of second',
-  'The dashed line k: A→C could be the composition g∘f',
+  'The dashed line k: A→C is the composite g∘f in this category',
   'In programming, this is like function composition: compose(g, f) or g(f(x))',
+  'Split mono ⟹ mono and split epi ⟹ epi, but not the other way round',
+  'Mono and epi together do not make an iso: think of 0 ≤ 1 in a poset',
 ];
 
-export default function MorphismComposer() {
+export default function MorphismComposer({ initialExample }: MorphismComposerProps) {
   const svgRef = useRef<SVGSVGElement>(null);
-  const [morphisms] = useState<Morphism[]>(initialMorphisms);
+  const opened = getExamplePreset('morphism-composer', initialExample);
+  const [definition, setDefinition] = useState<CategoryDefinition>(opened?.category ?? composerDefinition);
+  const [inspected, setInspected] = useState<string | null>(opened?.focus ?? null);
   const [selected, setSelected] = useState<string[]>([]);
-  const [composition, setComposition] = useState<Morphism | null>(null);
+  const [composition, setComposition] = useState<CompositionResult | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [showHint, setShowHint] = useState(true);
   const [isNewComposition, setIsNewComposition] = useState(false);
+  const [concrete, setConcrete] = useState(false);
+
+  // The concrete sets and the hand-drawn layout belong to the default diagram
+  const isDefault = definition === composerDefinition;
+  const category = useMemo(
+    () => (isDefault ? composerCategory : createFiniteCategory(definition, definition.compositions)),
+    [isDefault, definition]
+  );
+  const morphisms: Morphism[] = useMemo(
+    () => (isDefault ? initialMorphisms : nonIdentityMorphisms(category)),
+    [isDefault, category]
+  );
+  const placed = useMemo(() => fitLayout(definition.objects, layoutBox), [definition]);
+  const positions: Record<string, { x: number; y: number }> = useMemo(
+    () => isDefault ? objectPositions : Object.fromEntries(placed.map((o) => [o.id, { x: o.x, y: o.y }])),
+    [isDefault, placed]
+  );
+  const classifications = useMemo(() => classifyMorphisms(category), [category]);
+  const inspection = classifications.find((c) => c.morphism === inspected) ?? null;
+  const showConcrete = concrete && isDefault;
+
+  const changeCategory = (next: CategoryDefinition) => {
+    setDefinition(next);
+    setInspected(null);
+    clearSelection();
+  };
 
   // Check if two morphisms can be composed
   const canCompose = (m1: Morphism, m2: Morphism): boolean => {
     return m1.target === m2.source;
   };
 
-  // Compose two morphisms
-  const compose = (m1: Morphism, m2: Morphism): Morphism | null => {
+  // Compose two morphisms by looking the composite up in the category
+  const compose = (m1: Morphism, m2: Morphism): CompositionResult | null => {
     if (!canCompose(m1, m2)) return null;
-    return {
-      id: `${m2.id}∘${m1.id}`,
-      label: `${m2.label}∘${m1.label}`,
-      source: m1.source,
-      target: m2.target,
-    };
+    const resultId = composeIn(category, m1.id, m2.id);
+    const result = resultId ? getMorphism(category, resultId) : undefined;
+    if (!result) return null;
+    return { ...result, formal: pathLabel(category, [m1.id, m2.id]) };
   };
 
   // Handle morphism selection
@@ -110,6 +211,11 @@ export default function MorphismComposer() {
       if (comp) {
         setComposition(comp);
         setIsNewComposition(true);
+      } else if (canCompose(m1, m2) || canCompose(m2, m1)) {
+        // The types match but this category declares no composite for the pair
+        const path = canCompose(m1, m2) ? [m1.id, m2.id] : [m2.id, m1.id];
+        setError(`Cannot compose: no composite declared for ${pathLabel(category, path)}`);
+        setSelected([morphismId]);
       } else {
         setError(`Cannot compose: ${m1.label} and ${m2.label} are not composable (target ≠ source)`);
         setSelected([morphismId]);
@@ -179,6 +285,19 @@ export default function MorphismComposer() {
       .attr('d', 'M 0,-4 L 8,0 L 0,4')
       .attr('fill', '#f59f00');
 
+    // Arrows that break mono or epi for the inspected morphism
+    defs.append('marker')
+      .attr('id', 'mc-arrow-witness')
+      .attr('viewBox', '-0 -5 10 10')
+      .attr('refX', 18)
+      .attr('refY', 0)
+      .attr('orient', 'auto')
+      .attr('markerWidth', 6)
+      .attr('markerHeight', 6)
+      .append('path')
+      .attr('d', 'M 0,-4 L 8,0 L 0,4')
+      .attr('fill', 'var(--color-error)');
+
     // Glow filter for selected morphisms
     const filter = defs.append('filter')
       .attr('id', 'mc-glow')
@@ -195,16 +314,26 @@ export default function MorphismComposer() {
     feMerge.append('feMergeNode').attr('in', 'coloredBlur');
     feMerge.append('feMergeNode').attr('in', 'SourceGraphic');
 
+    const witnesses = new Set([...(inspection?.monoWitness ?? []), ...(inspection?.epiWitness ?? [])]);
+    const arrowStyle = (id: string) => {
+      if (selected.includes(id)) return { stroke: 'var(--color-success)', marker: 'mc-arrow-selected' };
+      if (id === inspected) return { stroke: '#f59f00', marker: 'mc-arrow-composition' };
+      if (witnesses.has(id)) return { stroke: 'var(--color-error)', marker: 'mc-arrow-witness' };
+      return { stroke: 'var(--color-accent)', marker: 'mc-arrow' };
+    };
+
     // Draw morphisms
     morphisms.forEach(m => {
-      const source = objectPositions[m.source];
-      const target = objectPositions[m.target];
+      const source = positions[m.source];
+      const target = positions[m.target];
       if (!source || !target) return;
 
       const isSelected = selected.includes(m.id);
+      const style = arrowStyle(m.id);
+      const emphasised = isSelected || m.id === inspected;
 
       // Calculate curve for non-adjacent morphisms
-      const isAdjacent = Math.abs(
+      const isAdjacent = isDefault && Math.abs(
         Object.keys(objectPositions).indexOf(m.source) -
         Object.keys(objectPositions).indexOf(m.target)
       ) === 1;
@@ -214,15 +343,57 @@ export default function MorphismComposer() {
         .style('cursor', 'pointer')
         .on('click', () => handleSelectMorphism(m.id));
 
-      if (isAdjacent) {
+      if (!isDefault) {
+        // Any other category: let the shared layout fan out parallel arrows and loops
+        const geometry = arrowGeometry(m, morphisms, placed, 20);
+        if (!geometry) return;
+
+        const path = group.append('path')
+          .attr('d', geometry.d)
+          .attr('fill', 'none')
+          .attr('stroke', style.stroke)
+          .attr('stroke-width', emphasised ? 3 : 2)
+          .attr('marker-end', `url(#${style.marker})`);
+
+        if (isSelected) {
+          path.attr('filter', 'url(#mc-glow)');
+        }
+
+        const pathLength = (path.node() as SVGPathElement)?.getTotalLength() || 100;
+        path
+          .attr('stroke-dasharray', `${pathLength} ${pathLength}`)
+          .attr('stroke-dashoffset', pathLength)
+          .transition()
+          .duration(400)
+          .ease(d3.easeQuadOut)
+          .attr('stroke-dashoffset', 0)
+          .on('end', function() {
+            d3.select(this).attr('stroke-dasharray', null);
+          });
+
+        group.append('text')
+          .attr('x', geometry.labelX)
+          .attr('y', geometry.labelY)
+          .attr('text-anchor', 'middle')
+          .attr('dy', '0.35em')
+          .attr('font-size', '14px')
+          .attr('font-weight', emphasised ? 'bold' : 'normal')
+          .attr('fill', isSelected ? 'var(--color-success)' : 'var(--color-text-primary)')
+          .attr('opacity', 0)
+          .text(m.label)
+          .transition()
+          .delay(200)
+          .duration(300)
+          .attr('opacity', 1);
+      } else if (isAdjacent) {
         const line = group.append('line')
           .attr('x1', source.x + 20)
           .attr('y1', source.y)
           .attr('x2', source.x + 20) // Start from source for animation
           .attr('y2', source.y)
-          .attr('stroke', isSelected ? 'var(--color-success)' : 'var(--color-accent)')
-          .attr('stroke-width', isSelected ? 3 : 2)
-          .attr('marker-end', `url(#${isSelected ? 'mc-arrow-selected' : 'mc-arrow'})`);
+          .attr('stroke', style.stroke)
+          .attr('stroke-width', emphasised ? 3 : 2)
+          .attr('marker-end', `url(#${style.marker})`);
 
         if (isSelected) {
           line.attr('filter', 'url(#mc-glow)');
@@ -254,10 +425,10 @@ export default function MorphismComposer() {
         const path = group.append('path')
           .attr('d', `M ${source.x + 20} ${source.y} Q ${midX} ${source.y + 60} ${target.x - 20} ${target.y}`)
           .attr('fill', 'none')
-          .attr('stroke', isSelected ? 'var(--color-success)' : 'var(--color-accent)')
-          .attr('stroke-width', isSelected ? 3 : 2)
+          .attr('stroke', style.stroke)
+          .attr('stroke-width', emphasised ? 3 : 2)
           .attr('stroke-dasharray', '4,4')
-          .attr('marker-end', `url(#${isSelected ? 'mc-arrow-selected' : 'mc-arrow'})`);
+          .attr('marker-end', `url(#${style.marker})`);
 
         // Get path length for animation
         const pathLength = (path.node() as SVGPathElement)?.getTotalLength() || 100;
@@ -290,17 +461,32 @@ export default function MorphismComposer() {
 
     // Draw composition result if exists
     if (composition) {
-      const source = objectPositions[composition.source];
-      const target = objectPositions[composition.target];
+      const source = positions[composition.source];
+      const target = positions[composition.target];
 
       if (source && target) {
+        // Bulge to the left of the direction of travel, i.e. upwards for A → D;
+        // a composite that is an endomorphism loops under its object instead
+        const dx = target.x - source.x;
+        const dy = target.y - source.y;
+        const dist = Math.sqrt(dx * dx + dy * dy);
+        const [ux, uy] = dist === 0 ? [1, 0] : [dx / dist, dy / dist];
+        const [nx, ny] = dist === 0 ? [0, 1] : [uy, -ux];
         const midX = (source.x + target.x) / 2;
+        const midY = (source.y + target.y) / 2;
+        const bulge = dist === 0 ? 60 : 50;
+        const start = dist === 0 ? [source.x - 12, source.y + 16] : [source.x + ux * 20, source.y + uy * 20];
+        const end = dist === 0 ? [source.x + 12, source.y + 16] : [target.x - ux * 20, target.y - uy * 20];
+        const ctrlX = midX + nx * bulge;
+        const ctrlY = midY + ny * bulge;
+        const labelX = midX + nx * (bulge + 5);
+        const labelY = midY + ny * (bulge + 5);
 
         const compGroup = svg.append('g')
           .attr('class', `composition-result ${isNewComposition ? 'new-composition' : ''}`);
 
         const compPath = compGroup.append('path')
-          .attr('d', `M ${source.x + 20} ${source.y} Q ${midX} ${source.y - 50} ${target.x - 20} ${target.y}`)
+          .attr('d', `M ${start[0]} ${start[1]} Q ${ctrlX} ${ctrlY} ${end[0]} ${end[1]}`)
           .attr('fill', 'none')
           .attr('stroke', '#f59f00')
           .attr('stroke-width', 3)
@@ -317,14 +503,14 @@ export default function MorphismComposer() {
           .attr('stroke-dashoffset', 0);
 
         compGroup.append('text')
-          .attr('x', midX)
-          .attr('y', source.y - 55)
+          .attr('x', labelX)
+          .attr('y', labelY)
           .attr('text-anchor', 'middle')
           .attr('font-size', '14px')
           .attr('font-weight', 'bold')
           .attr('fill', '#f59f00')
           .attr('opacity', 0)
-          .text(composition.label)
+          .text(composition.formal)
           .transition()
           .delay(500)
           .duration(400)
@@ -334,8 +520,8 @@ export default function MorphismComposer() {
         if (isNewComposition) {
           compGroup.append('circle')
             .attr('class', 'composition-pulse')
-            .attr('cx', midX)
-            .attr('cy', source.y - 50)
+            .attr('cx', ctrlX)
+            .attr('cy', ctrlY)
             .attr('r', 8)
             .attr('fill', 'rgba(245, 159, 0, 0.3)')
             .attr('stroke', 'none');
@@ -344,7 +530,7 @@ export default function MorphismComposer() {
     }
 
     // Draw objects with entrance animation
-    Object.entries(objectPositions).forEach(([id, pos], index) => {
+    Object.entries(positions).forEach(([id, pos], index) => {
       const group = svg.append('g')
         .attr('class', 'mc-object')
         .attr('transform', `translate(${pos.x}, ${pos.y})`)
@@ -362,7 +548,17 @@ export default function MorphismComposer() {
         .attr('font-size', '16px')
         .attr('font-weight', 'bold')
         .attr('fill', 'var(--color-text-primary)')
-        .text(id);
+        .text(definition.objects.find((o) => o.id === id)?.label ?? id);
+
+      if (showConcrete) {
+        group.append('text')
+          .attr('text-anchor', 'middle')
+          .attr('y', 34)
+          .attr('font-size', '11px')
+          .attr('font-family', 'var(--font-mono)')
+          .attr('fill', 'var(--color-text-muted)')
+          .text(`{${composerSets.sets[id].join(', ')}}`);
+      }
 
       // Staggered entrance animation
       group.transition()
@@ -372,7 +568,7 @@ export default function MorphismComposer() {
         .attr('opacity', 1);
     });
 
-  }, [morphisms, selected, composition, isNewComposition]);
+  }, [morphisms, positions, placed, isDefault, definition, selected, composition, isNewComposition, showConcrete, inspected, inspection]);
 
   return (
     <div className="morphism-composer">
@@ -402,6 +598,10 @@ export default function MorphismComposer() {
         </button>
       )}
 
+      <div className="mc-category">
+        <CategoryPicker value={definition} defaults={[composerDefinition]} onChange={changeCategory} />
+      </div>
+
       <div className="mc-canvas">
         <svg ref={svgRef} width="100%" height="200" viewBox="0 0 420 200" />
       </div>
@@ -419,6 +619,12 @@ export default function MorphismComposer() {
             </button>
           ))}
         </div>
+        {isDefault && (
+          <label className="mc-toggle" title="Read the objects as finite sets and the morphisms as functions">
+            <input type="checkbox" checked={concrete} onChange={(e) => setConcrete(e.target.checked)} />
+            Concrete sets
+          </label>
+        )}
         <button className="btn btn-ghost btn-sm" onClick={clearSelection}>
           <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
             <path d="M18 6L6 18M6 6l12 12" />
@@ -447,12 +653,41 @@ export default function MorphismComposer() {
             <span className="result-label">Composition Result</span>
           </div>
           <div className="result-value">
-            <span className="composition-name">{composition.label}</span>
+            <span className="composition-name">
+              {composition.formal}
+              {composition.label !== composition.formal && ` = ${composition.label}`}
+            </span>
             <span className="composition-type">: {composition.source} → {composition.target}</span>
           </div>
           <div className="result-explanation">
             Read as "{selected[1]} after {selected[0]}" — first apply {selected[0]}, then apply {selected[1]}
           </div>
+          {showConcrete && (
+            <table className="mc-elements">
+              <thead>
+                <tr>
+                  <th>x ∈ {composition.source}</th>
+                  <th>{selected[0]}(x)</th>
+                  <th>{selected[1]}({selected[0]}(x))</th>
+                  <th>{composition.label}(x)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {composerSets.sets[composition.source].map((x) => {
+                  const [, fx, gfx] = evaluatePath(composerCategory, composerSets, selected, x);
+                  const direct = evaluate(composerCategory, composerSets, composition.id, x);
+                  return (
+                    <tr key={x} className={gfx === direct ? '' : 'mismatch'}>
+                      <td>{x}</td>
+                      <td>{fx}</td>
+                      <td>{gfx}</td>
+                      <td>{direct}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
         </div>
       )}
 
@@ -466,6 +701,108 @@ export default function MorphismComposer() {
           </span>
         </div>
       )}
+
+      <div className="mc-classes">
+        <div className="mc-classes-header">
+          <span className="mc-label">Classification</span>
+          <span className="mc-classes-note">Click a row to inspect it</span>
+        </div>
+        <table className="mc-class-table">
+          <thead>
+            <tr>
+              <th>Morphism</th>
+              {classLabels.map(([key, label]) => <th key={key}>{label}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {classifications.map((c) => {
+              const m = getMorphism(category, c.morphism)!;
+              return (
+                <tr
+                  key={c.morphism}
+                  className={c.morphism === inspected ? 'inspected' : ''}
+                  onClick={() => setInspected(c.morphism === inspected ? null : c.morphism)}
+                >
+                  <td>{m.label}: {m.source}→{m.target}</td>
+                  {classLabels.map(([key]) => (
+                    <td key={key} className={c[key] ? 'yes' : 'no'}>{c[key] ? '✓' : '–'}</td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {classifications.length === 0 && (
+          <p className="mc-classes-note">This category has only identities, which are all isomorphisms.</p>
+        )}
+
+        {inspection && (
+          <MorphismDetails category={category} classification={inspection} />
+        )}
+
+        {isDefault && (
+          <p className="mc-classes-note">
+            Here every arrow is both mono and epi, even though g is not injective on the concrete sets:
+            mono and epi only ask about the arrows that exist in the category.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// What the classification of one morphism rests on
+function MorphismDetails({ category, classification: c }: {
+  category: FiniteCategory;
+  classification: MorphismClassification;
+}) {
+  const label = (id: string) => getMorphism(category, id)?.label ?? id;
+  const list = (ids: string[]) => ids.map(label).join(', ');
+  const m = getMorphism(category, c.morphism)!;
+  const f = m.label;
+  const kind = c.iso ? 'an isomorphism'
+    : c.splitMono && c.splitEpi ? 'split mono and split epi'
+    : c.splitMono ? (c.epi ? 'split mono and epi' : 'a split mono')
+    : c.splitEpi ? (c.mono ? 'split epi and mono' : 'a split epi')
+    : c.mono && c.epi ? 'mono and epi, but not an isomorphism'
+    : c.mono ? 'a monomorphism'
+    : c.epi ? 'an epimorphism'
+    : 'neither mono nor epi';
+
+  return (
+    <div className="mc-details">
+      <div className="mc-details-title">
+        {f}: {m.source} → {m.target} is {kind}
+      </div>
+      <ul>
+        {c.inverse && (
+          <li>Inverse: {label(c.inverse)}, with {label(c.inverse)}∘{f} = id<sub>{m.source}</sub> and {f}∘{label(c.inverse)} = id<sub>{m.target}</sub></li>
+        )}
+        {!c.iso && c.retractions.length > 0 && (
+          <li>Retraction{c.retractions.length > 1 ? 's' : ''}: {list(c.retractions)} (r∘{f} = id<sub>{m.source}</sub>)</li>
+        )}
+        {!c.iso && c.sections.length > 0 && (
+          <li>Section{c.sections.length > 1 ? 's' : ''}: {list(c.sections)} ({f}∘s = id<sub>{m.target}</sub>)</li>
+        )}
+        {!c.splitMono && (
+          <li>No retraction: nothing r: {m.target} → {m.source} has r∘{f} = id<sub>{m.source}</sub></li>
+        )}
+        {!c.splitEpi && (
+          <li>No section: nothing s: {m.target} → {m.source} has {f}∘s = id<sub>{m.target}</sub></li>
+        )}
+        {c.monoWitness && (
+          <li className="mc-witness">
+            Not mono: {f}∘{label(c.monoWitness[0])} = {f}∘{label(c.monoWitness[1])}
+            {' '}= {label(composeIn(category, c.monoWitness[0], c.morphism)!)} although {label(c.monoWitness[0])} ≠ {label(c.monoWitness[1])}
+          </li>
+        )}
+        {c.epiWitness && (
+          <li className="mc-witness">
+            Not epi: {label(c.epiWitness[0])}∘{f} = {label(c.epiWitness[1])}∘{f}
+            {' '}= {label(composeIn(category, c.morphism, c.epiWitness[0])!)} although {label(c.epiWitness[0])} ≠ {label(c.epiWitness[1])}
+          </li>
+        )}
+      </ul>
     </div>
   );
 }
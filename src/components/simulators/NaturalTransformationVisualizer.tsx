@@ -1,76 +1,45 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
 import * as d3 from 'd3';
 import SimulatorHint, { HintStep } from './SimulatorHint';
+import CategoryPicker from './CategoryPicker';
+import { CategoryDefinition, NaturalTransformation } from '../../utils/categoryTypes';
+import { createFiniteCategory, hom, nonIdentityMorphisms } from '../../utils/categoryEngine';
+import { arrowGeometry, fitLayout } from '../../utils/layout';
+import { enumerateFunctors, FunctorMap } from '../../utils/functorEngine';
+import { componentIssues, naturalitySquares } from '../../utils/naturalTransformation';
+import { evaluatePath } from '../../utils/finiteSets';
+import { ordinalThree, ordinalTwo, walkingArrow } from '../../data/smallCategories';
+import {
+  NaturalTransformationInstance,
+  naturalTransformationInstances as presets,
+} from '../../data/naturalTransformations';
+import { getExamplePreset } from '../../data/simulatorExamples';
 import './NaturalTransformationVisualizer.css';
 
-interface NTObject {
-  id: string;
-  label: string;
-}
+// Layers of the prism view: F's image on top, G's below and shifted right
+const prismBox = { x: 50, y: 45, width: 250, height: 60 };
+const prismShift = { x: 30, y: 140 };
 
-interface NTMorphism {
-  id: string;
-  label: string;
-  source: string;
-  target: string;
-}
+// Index of the "build your own" entry in the example dropdown
+const CUSTOM = presets.length;
 
-interface Preset {
-  name: string;
-  description: string;
-  sourceObjects: NTObject[];
-  sourceMorphism: NTMorphism;
-  components: { objectId: string; label: string }[];
-}
-
-const presets: Preset[] = [
-  {
-    name: 'List reverse',
-    description: 'rev: Seq → Seq reverses a sequence',
-    sourceObjects: [
-      { id: 'A', label: 'A' },
-      { id: 'B', label: 'B' },
-    ],
-    sourceMorphism: { id: 'f', label: 'f', source: 'A', target: 'B' },
-    components: [
-      { objectId: 'A', label: 'rev' },
-      { objectId: 'B', label: 'rev' },
-    ],
-  },
-  {
-    name: 'List singleton',
-    description: 'η: Id → List wraps element in list',
-    sourceObjects: [
-      { id: 'A', label: 'A' },
-      { id: 'B', label: 'B' },
-    ],
-    sourceMorphism: { id: 'f', label: 'f', source: 'A', target: 'B' },
-    components: [
-      { objectId: 'A', label: 'η' },
-      { objectId: 'B', label: 'η' },
-    ],
-  },
-  {
-    name: 'Flatten (join)',
-    description: 'μ: List∘List → List flattens nested lists',
-    sourceObjects: [
-      { id: 'A', label: 'A' },
-      { id: 'B', label: 'B' },
-    ],
-    sourceMorphism: { id: 'f', label: 'f', source: 'A', target: 'B' },
-    components: [
-      { objectId: 'A', label: 'μ' },
-      { objectId: 'B', label: 'μ' },
-    ],
-  },
-];
+// "A↦X, B↦Y" with the labels of both categories
+const mapLabel = (source: CategoryDefinition, target: CategoryDefinition, functor: FunctorMap) =>
+  source.objects
+    .map((o) => `${o.label}↦${target.objects.find((t) => t.id === functor.objectMap[o.id])?.label}`)
+    .join(', ');
 
 const hintSteps: HintStep[] = [
   {
     title: 'Select an Example',
-    description: 'Choose from different natural transformations like list reverse, singleton, or flatten. Each shows how a transformation works across all objects.',
+    description: 'Choose from different natural transformations like list reverse, singleton, or flatten. Each is checked for real, and "Sort" shows a square that fails.',
     action: 'Use the dropdown to select an example',
   },
+  {
+    title: 'Build Your Own',
+    description: 'Pick "Custom", choose finite categories C and D, two functors F, G: C → D, and a component η_A: F(A) → G(A) for every object A.',
+    action: 'Select "Custom" in the example dropdown',
+  },
   {
     title: 'Understand the Square',
     description: 'The diagram shows a "naturality square" with four corners: F(A), F(B), G(A), G(B). F and G are functors, and we\'re transforming from F to G.',
@@ -80,6 +49,20 @@ const hintSteps: HintStep[] = [
     description: 'There are two paths from F(A) to G(B). The green path goes right then down. The orange path goes down then right. Naturality means both paths are equal!',
     action: 'Click "Top Path" or "Bottom Path" to highlight',
   },
+  {
+    title: 'Chase an Element',
+    description: 'The examples come with actual sets: pick an element x of F(A) and follow it along both paths. Naturality says both paths land on the same element of G(B).',
+    action: 'Choose x in the "Chase an element" panel',
+  },
+  {
+    title: 'Check Every Square',
+    description: 'There is one naturality square for each morphism f of C. The list below reports which squares commute; click one to draw it.',
+  },
+  {
+    title: 'See the Whole Prism',
+    description: 'Switch to "Prism" to see F\'s image of C on top, G\'s image below and every component in between. Each square face is green when it commutes and red when it fails.',
+    action: 'Click "Prism", then click a face to open its square',
+  },
   {
     title: 'Animate the Commutation',
     description: 'Watch both paths animate to see how the square "commutes" — meaning both ways around give the same result.',
@@ -92,25 +75,127 @@ const tips = [
   'Every functor has a natural transformation to itself: the identity',
   'Natural transformations compose: if η: F→G and θ: G→H, then θ∘η: F→H',
   'In programming: map preserves natural transformations',
+  'A single failing square is enough to make η unnatural',
 ];
 
-export default function NaturalTransformationVisualizer() {
+interface NaturalTransformationVisualizerProps {
+  initialExample?: string; // exampleId of the instance to open with
+}
+
+export default function NaturalTransformationVisualizer({ initialExample }: NaturalTransformationVisualizerProps) {
   const svgRef = useRef<SVGSVGElement>(null);
-  const [activePreset, setActivePreset] = useState(0);
+  const opened = getExamplePreset('natural-transformation', initialExample);
+  const [activePreset, setActivePreset] = useState(opened ? presets.indexOf(opened) : 0);
   const [highlightPath, setHighlightPath] = useState<'top' | 'bottom' | 'both'>('both');
   const [animating, setAnimating] = useState(false);
   const [showHint, setShowHint] = useState(true);
+  const [selectedMorphism, setSelectedMorphism] = useState<string | null>(null);
+  const [view, setView] = useState<'square' | 'prism'>('square');
+  const [chaseElement, setChaseElement] = useState<string | null>(null);
+
+  // Custom transformation: categories, functors picked from the enumeration, components
+  const [customSource, setCustomSource] = useState<CategoryDefinition>(ordinalTwo);
+  const [customTarget, setCustomTarget] = useState<CategoryDefinition>(ordinalThree);
+  const [fIndex, setFIndex] = useState(0);
+  const [gIndex, setGIndex] = useState(1);
+  const [chosenComponents, setChosenComponents] = useState<Record<string, string>>({});
+
+  const isCustom = activePreset === CUSTOM;
+  const source = isCustom ? customSource : presets[activePreset].source;
+  const target = isCustom ? customTarget : presets[activePreset].target;
+  const finiteC = useMemo(() => createFiniteCategory(source, source.compositions), [source]);
+  const finiteD = useMemo(() => createFiniteCategory(target, target.compositions), [target]);
+  const candidates = useMemo(
+    () => isCustom ? enumerateFunctors(finiteC, finiteD, 200).functors : [],
+    [isCustom, finiteC, finiteD]
+  );
 
-  const preset = presets[activePreset];
+  const preset: NaturalTransformationInstance | null = useMemo(() => {
+    if (!isCustom) return presets[activePreset];
+    const F = candidates[fIndex] ?? candidates[0];
+    const G = candidates[gIndex] ?? candidates[0];
+    if (!F || !G) return null;
+    // Keep the chosen component while it still fits, else take the first that does
+    const components: Record<string, string> = {};
+    finiteC.objects.forEach((a) => {
+      const options = hom(finiteD, F.objectMap[a.id], G.objectMap[a.id]);
+      const chosen = options.find((m) => m.id === chosenComponents[a.id]) ?? options[0];
+      if (chosen) components[a.id] = chosen.id;
+    });
+    return {
+      name: 'Custom',
+      description: `η: F ⇒ G for F = (${mapLabel(source, target, F)}) and G = (${mapLabel(source, target, G)})`,
+      source,
+      target,
+      F,
+      G,
+      components,
+    };
+  }, [isCustom, activePreset, candidates, fIndex, gIndex, chosenComponents, finiteC, finiteD, source, target]);
+
+  // The shared NaturalTransformation record; its components are what gets checked
+  const transformation: NaturalTransformation | null = useMemo(
+    () => preset && {
+      id: `nt-${preset.name}`,
+      name: 'η',
+      sourceFunctor: 'F',
+      targetFunctor: 'G',
+      components: new Map(Object.entries(preset.components)),
+    },
+    [preset]
+  );
+  const issues = useMemo(
+    () => preset && transformation ? componentIssues(finiteC, finiteD, preset.F, preset.G, transformation) : [],
+    [preset, transformation, finiteC, finiteD]
+  );
+  const squares = useMemo(
+    () => preset && transformation ? naturalitySquares(finiteC, finiteD, preset.F, preset.G, transformation) : [],
+    [preset, transformation, finiteC, finiteD]
+  );
+  const square = squares.find((sq) => sq.morphism === selectedMorphism) ?? squares[0] ?? null;
+  const natural = issues.length === 0 && squares.every((sq) => sq.commutes);
+
+  // Follow one element x ∈ F(A) around the selected square, when D is made of sets
+  const chase = useMemo(() => {
+    const interpretation = preset?.interpretation;
+    if (!preset || !interpretation || !square) return null;
+    const m = finiteC.morphismById.get(square.morphism)!;
+    const elements = interpretation.sets[preset.F.objectMap[m.source]] ?? [];
+    const x = [chaseElement, preset.sampleElement].find((e) => e && elements.includes(e)) ?? elements[0];
+    if (x === undefined) return null;
+    const topTrace = evaluatePath(finiteD, interpretation, [preset.F.morphismMap[m.id], preset.components[m.target]], x);
+    const bottomTrace = evaluatePath(finiteD, interpretation, [preset.components[m.source], preset.G.morphismMap[m.id]], x);
+    return { morphism: m, elements, x, topTrace, bottomTrace };
+  }, [preset, square, chaseElement, finiteC, finiteD]);
+
+  const dLabel = (id: string | null | undefined) =>
+    id ? finiteD.morphismById.get(id)?.label ?? id : '—';
+  const objectLabel = (id: string | undefined) =>
+    finiteD.objects.find((o) => o.id === id)?.label ?? '?';
+
+  const changeCustomCategory = (side: 'source' | 'target', category: CategoryDefinition) => {
+    (side === 'source' ? setCustomSource : setCustomTarget)(category);
+    setFIndex(0);
+    setGIndex(0);
+    setChosenComponents({});
+    setSelectedMorphism(null);
+  };
 
-  // Draw the naturality square
+  // Draw the naturality square of the selected morphism
   useEffect(() => {
-    if (!svgRef.current) return;
+    if (!svgRef.current || view !== 'square') return;
 
     const svg = d3.select(svgRef.current);
     const width = 380;
 
     svg.selectAll('*').remove();
+    if (!preset || !square) return;
+
+    const morphism = finiteC.morphismById.get(square.morphism)!;
+    const a = finiteC.objects.find((o) => o.id === morphism.source)!;
+    const b = finiteC.objects.find((o) => o.id === morphism.target)!;
+    const imageF = preset.F.morphismMap[morphism.id];
+    const imageG = preset.G.morphismMap[morphism.id];
 
     // Define arrow markers
     const defs = svg.append('defs');
@@ -190,9 +275,10 @@ export default function NaturalTransformationVisualizer() {
     // Labels
     const functorF = 'F';
     const functorG = 'G';
-    const f = preset.sourceMorphism.label;
-    const etaA = preset.components[0]?.label || 'η';
-    const etaB = preset.components[1]?.label || 'η';
+    const f = morphism.label;
+    const etaA = `η_${a.label}`;
+    const etaB = `η_${b.label}`;
+    const outcomeColor = square.commutes ? 'var(--color-success)' : 'var(--color-error)';
 
     // Draw the square outline with animation
     svg.append('rect')
@@ -201,7 +287,7 @@ export default function NaturalTransformationVisualizer() {
       .attr('width', 0)
       .attr('height', 0)
       .attr('fill', 'none')
-      .attr('stroke', 'var(--color-border)')
+      .attr('stroke', highlightPath === 'both' ? outcomeColor : 'var(--color-border)')
       .attr('stroke-width', 1)
       .attr('stroke-dasharray', '4,4')
       .attr('rx', 8)
@@ -240,14 +326,14 @@ export default function NaturalTransformationVisualizer() {
         .delay(delay)
         .duration(500)
         .ease(d3.easeQuadOut)
-        .attr('x2', x2 - 15)
+        .attr('x2', y1 === y2 ? x2 - 15 : x2)
         .attr('y2', y2);
 
       group.append('text')
         .attr('x', (x1 + x2) / 2 + labelOffset.x)
         .attr('y', (y1 + y2) / 2 + labelOffset.y)
-        .attr('text-anchor', 'middle')
-        .attr('font-size', '14px')
+        .attr('text-anchor', labelOffset.x > 0 ? 'start' : labelOffset.x < 0 ? 'end' : 'middle')
+        .attr('font-size', '13px')
         .attr('font-weight', isHighlighted ? 'bold' : '500')
         .attr('fill', color)
         .attr('opacity', 0)
@@ -272,7 +358,7 @@ export default function NaturalTransformationVisualizer() {
     drawArrow(
       positions.FA.x + 25, positions.FA.y,
       positions.FB.x - 25, positions.FB.y,
-      `${functorF}(${f})`,
+      `${functorF}(${f}) = ${dLabel(imageF)}`,
       topColor,
       topMarker,
       { x: 0, y: -12 },
@@ -284,7 +370,7 @@ export default function NaturalTransformationVisualizer() {
     drawArrow(
       positions.GA.x + 25, positions.GA.y,
       positions.GB.x - 25, positions.GB.y,
-      `${functorG}(${f})`,
+      `${functorG}(${f}) = ${dLabel(imageG)}`,
       bottomColor,
       bottomMarker,
       { x: 0, y: 20 },
@@ -296,10 +382,10 @@ export default function NaturalTransformationVisualizer() {
     drawArrow(
       positions.FA.x, positions.FA.y + 25,
       positions.GA.x, positions.GA.y - 25,
-      `${etaA}_A`,
+      `${etaA} = ${dLabel(preset.components[a.id])}`,
       bottomColor,
       bottomMarker,
-      { x: -25, y: 0 },
+      { x: 10, y: -15 },
       400,
       bottomHighlight
     );
@@ -308,10 +394,10 @@ export default function NaturalTransformationVisualizer() {
     drawArrow(
       positions.FB.x, positions.FB.y + 25,
       positions.GB.x, positions.GB.y - 25,
-      `${etaB}_B`,
+      `${etaB} = ${dLabel(preset.components[b.id])}`,
       topColor,
       topMarker,
-      { x: 25, y: 0 },
+      { x: -10, y: -15 },
       500,
       topHighlight
     );
@@ -365,10 +451,10 @@ export default function NaturalTransformationVisualizer() {
         .attr('opacity', 1);
     };
 
-    drawNode(positions.FA.x, positions.FA.y, `${functorF}(A)`, 'F applied to A', 0);
-    drawNode(positions.FB.x, positions.FB.y, `${functorF}(B)`, 'F applied to B', 100);
-    drawNode(positions.GA.x, positions.GA.y, `${functorG}(A)`, 'G applied to A', 150);
-    drawNode(positions.GB.x, positions.GB.y, `${functorG}(B)`, 'G applied to B', 200);
+    drawNode(positions.FA.x, positions.FA.y, `${functorF}(${a.label})`, objectLabel(preset.F.objectMap[a.id]), 0);
+    drawNode(positions.FB.x, positions.FB.y, `${functorF}(${b.label})`, objectLabel(preset.F.objectMap[b.id]), 100);
+    drawNode(positions.GA.x, positions.GA.y, `${functorG}(${a.label})`, objectLabel(preset.G.objectMap[a.id]), 150);
+    drawNode(positions.GB.x, positions.GB.y, `${functorG}(${b.label})`, objectLabel(preset.G.objectMap[b.id]), 200);
 
     // Draw path annotations with animation
     if (highlightPath === 'both' || highlightPath === 'top') {
@@ -379,7 +465,7 @@ export default function NaturalTransformationVisualizer() {
         .attr('font-size', '11px')
         .attr('fill', 'var(--color-success)')
         .attr('opacity', 0)
-        .text(`Top path: ${etaB}_B ∘ ${functorF}(${f})`)
+        .text(`Top path: ${etaB} ∘ ${functorF}(${f}) = ${dLabel(square.top)}`)
         .transition()
         .delay(700)
         .duration(400)
@@ -394,14 +480,14 @@ export default function NaturalTransformationVisualizer() {
         .attr('font-size', '11px')
         .attr('fill', '#f59f00')
         .attr('opacity', 0)
-        .text(`Bottom path: ${functorG}(${f}) ∘ ${etaA}_A`)
+        .text(`Bottom path: ${functorG}(${f}) ∘ ${etaA} = ${dLabel(square.bottom)}`)
         .transition()
         .delay(800)
         .duration(400)
         .attr('opacity', 1);
     }
 
-    // Add "COMMUTES" indicator when both paths are shown
+    // Verdict of the check when both paths are shown
     if (highlightPath === 'both') {
       const commutesGroup = svg.append('g')
         .attr('class', 'commutes-indicator')
@@ -412,8 +498,8 @@ export default function NaturalTransformationVisualizer() {
         .attr('text-anchor', 'middle')
         .attr('font-size', '12px')
         .attr('font-weight', 'bold')
-        .attr('fill', 'var(--color-accent)')
-        .text('COMMUTES');
+        .attr('fill', outcomeColor)
+        .text(square.commutes ? 'COMMUTES' : 'DOES NOT COMMUTE');
 
       commutesGroup.transition()
         .delay(1000)
@@ -421,7 +507,165 @@ export default function NaturalTransformationVisualizer() {
         .attr('opacity', 1);
     }
 
-  }, [activePreset, highlightPath, preset]);
+  }, [view, highlightPath, preset, square, finiteC, finiteD]);
+
+  // Draw the whole prism: F(C) on top, G(C) below, components in between
+  useEffect(() => {
+    if (!svgRef.current || view !== 'prism') return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll('*').remove();
+    if (!preset) return;
+
+    const top = fitLayout(finiteC.objects, prismBox);
+    const bottom = top.map((o) => ({ ...o, x: o.x + prismShift.x, y: o.y + prismShift.y }));
+    const arrows = nonIdentityMorphisms(finiteC);
+    const status = new Map(squares.map((sq) => [sq.morphism, sq.commutes]));
+    const squareColor = (id: string) => status.get(id) ? 'var(--color-success)' : 'var(--color-error)';
+    const layers = [
+      { name: 'F', placed: top, functor: preset.F },
+      { name: 'G', placed: bottom, functor: preset.G },
+    ];
+
+    const defs = svg.append('defs');
+    [['success', 'var(--color-success)'], ['error', 'var(--color-error)'], ['accent', 'var(--color-accent)']].forEach(([name, color]) => {
+      defs.append('marker')
+        .attr('id', `nt-prism-${name}`)
+        .attr('viewBox', '-0 -5 10 10')
+        .attr('refX', 8)
+        .attr('refY', 0)
+        .attr('orient', 'auto')
+        .attr('markerWidth', 6)
+        .attr('markerHeight', 6)
+        .append('path')
+        .attr('d', 'M 0,-4 L 8,0 L 0,4')
+        .attr('fill', color);
+    });
+
+    // Layer labels
+    layers.forEach(({ name, placed }, idx) => {
+      const ys = placed.map((o) => o.y);
+      svg.append('text')
+        .attr('x', 14 + idx * prismShift.x)
+        .attr('y', (Math.min(...ys) + Math.max(...ys)) / 2)
+        .attr('dy', '0.35em')
+        .attr('font-size', '13px')
+        .attr('font-weight', 'bold')
+        .attr('fill', 'var(--color-text-muted)')
+        .text(`${name}(C)`);
+    });
+
+    // Faces: one translucent quadrilateral per square
+    arrows.forEach((m, idx) => {
+      const corners = [
+        top.find((o) => o.id === m.source)!,
+        top.find((o) => o.id === m.target)!,
+        bottom.find((o) => o.id === m.target)!,
+        bottom.find((o) => o.id === m.source)!,
+      ];
+      const isActive = square?.morphism === m.id;
+      const restingOpacity = isActive ? 0.3 : 0.12;
+      svg.append('polygon')
+        .attr('class', 'nt-prism-face')
+        .attr('points', corners.map((c) => `${c.x},${c.y}`).join(' '))
+        .attr('fill', squareColor(m.id))
+        .attr('stroke', squareColor(m.id))
+        .attr('stroke-width', isActive ? 2 : 0)
+        .attr('opacity', 0)
+        .style('cursor', 'pointer')
+        .on('mouseenter', function () {
+          d3.select(this).attr('opacity', 0.35);
+        })
+        .on('mouseleave', function () {
+          d3.select(this).attr('opacity', restingOpacity);
+        })
+        .on('click', () => {
+          setSelectedMorphism(m.id);
+          setView('square');
+        })
+        .transition()
+        .delay(idx * 80)
+        .duration(400)
+        .attr('opacity', restingOpacity);
+    });
+
+    // Components η_A between the layers
+    finiteC.objects.forEach((obj, idx) => {
+      const from = top.find((o) => o.id === obj.id)!;
+      const to = bottom.find((o) => o.id === obj.id)!;
+      const dx = to.x - from.x;
+      const dy = to.y - from.y;
+      const len = Math.sqrt(dx * dx + dy * dy);
+      svg.append('line')
+        .attr('x1', from.x + (dx / len) * 16)
+        .attr('y1', from.y + (dy / len) * 16)
+        .attr('x2', from.x + (dx / len) * 16)
+        .attr('y2', from.y + (dy / len) * 16)
+        .attr('stroke', 'var(--color-accent)')
+        .attr('stroke-width', 1.5)
+        .attr('stroke-dasharray', '4,3')
+        .attr('marker-end', 'url(#nt-prism-accent)')
+        .transition()
+        .delay(300 + idx * 80)
+        .duration(400)
+        .attr('x2', to.x - (dx / len) * 16)
+        .attr('y2', to.y - (dy / len) * 16);
+
+      svg.append('text')
+        .attr('x', (from.x + to.x) / 2 + 6)
+        .attr('y', (from.y + to.y) / 2)
+        .attr('font-size', '10px')
+        .attr('fill', 'var(--color-accent)')
+        .text(dLabel(preset.components[obj.id]));
+    });
+
+    // F(f) and G(f), coloured by their square
+    layers.forEach(({ placed, functor }) => {
+      arrows.forEach((m) => {
+        const geometry = arrowGeometry(m, arrows, placed, 16);
+        if (!geometry) return;
+        const isActive = square?.morphism === m.id;
+        const ok = status.get(m.id);
+        svg.append('path')
+          .attr('d', geometry.d)
+          .attr('fill', 'none')
+          .attr('stroke', squareColor(m.id))
+          .attr('stroke-width', isActive ? 3 : 1.5)
+          .attr('marker-end', `url(#nt-prism-${ok ? 'success' : 'error'})`);
+        svg.append('text')
+          .attr('x', geometry.labelX)
+          .attr('y', geometry.labelY)
+          .attr('dy', '0.35em')
+          .attr('text-anchor', 'middle')
+          .attr('font-size', '10px')
+          .attr('fill', squareColor(m.id))
+          .text(dLabel(functor.morphismMap[m.id]));
+      });
+    });
+
+    // Objects F(A) and G(A)
+    layers.forEach(({ name, placed, functor }) => {
+      placed.forEach((obj) => {
+        const group = svg.append('g')
+          .attr('class', 'nt-node')
+          .attr('transform', `translate(${obj.x}, ${obj.y})`);
+        group.append('circle')
+          .attr('r', 16)
+          .attr('fill', 'var(--color-bg-primary)')
+          .attr('stroke', 'var(--color-accent)')
+          .attr('stroke-width', 2);
+        group.append('text')
+          .attr('text-anchor', 'middle')
+          .attr('dy', '0.35em')
+          .attr('font-size', '10px')
+          .attr('font-weight', 'bold')
+          .attr('fill', 'var(--color-text-primary)')
+          .text(`${name}(${obj.label})`);
+        group.append('title')
+          .text(`${name}(${obj.label}) = ${objectLabel(functor.objectMap[obj.id])}`);
+      });
+    });
+  }, [view, preset, squares, square, finiteC, finiteD]);
 
   const handleAnimate = () => {
     if (animating) return;
@@ -473,52 +717,160 @@ export default function NaturalTransformationVisualizer() {
           <label>Example:</label>
           <select
             value={activePreset}
-            onChange={(e) => setActivePreset(Number(e.target.value))}
+            onChange={(e) => {
+              setActivePreset(Number(e.target.value));
+              setSelectedMorphism(null);
+              setChaseElement(null);
+            }}
           >
             {presets.map((p, i) => (
               <option key={i} value={i}>{p.name}</option>
             ))}
+            <option value={CUSTOM}>Custom (pick C, D, F, G)</option>
           </select>
         </div>
         <div className="path-buttons">
           <button
-            className={`btn btn-sm ${highlightPath === 'top' ? 'btn-success' : 'btn-ghost'}`}
-            onClick={() => setHighlightPath('top')}
+            className={`btn btn-sm ${view === 'square' ? 'btn-primary' : 'btn-ghost'}`}
+            onClick={() => setView('square')}
           >
-            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-              <path d="M5 12h14M12 5l7 7" />
-            </svg>
-            Top Path
+            Square
           </button>
           <button
-            className={`btn btn-sm ${highlightPath === 'bottom' ? 'btn-warning' : 'btn-ghost'}`}
-            onClick={() => setHighlightPath('bottom')}
+            className={`btn btn-sm ${view === 'prism' ? 'btn-primary' : 'btn-ghost'}`}
+            onClick={() => setView('prism')}
+            title="All naturality squares at once"
           >
-            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-              <path d="M5 12h14M12 19l7-7" />
-            </svg>
-            Bottom Path
-          </button>
-          <button
-            className={`btn btn-sm ${highlightPath === 'both' ? 'btn-primary' : 'btn-ghost'}`}
-            onClick={() => setHighlightPath('both')}
-          >
-            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-              <rect x="3" y="3" width="18" height="18" rx="2" />
-            </svg>
-            Both
+            Prism
           </button>
         </div>
+        {view === 'square' && (
+          <div className="path-buttons">
+            <button
+              className={`btn btn-sm ${highlightPath === 'top' ? 'btn-success' : 'btn-ghost'}`}
+              onClick={() => setHighlightPath('top')}
+            >
+              <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M5 12h14M12 5l7 7" />
+              </svg>
+              Top Path
+            </button>
+            <button
+              className={`btn btn-sm ${highlightPath === 'bottom' ? 'btn-warning' : 'btn-ghost'}`}
+              onClick={() => setHighlightPath('bottom')}
+            >
+              <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M5 12h14M12 19l7-7" />
+              </svg>
+              Bottom Path
+            </button>
+            <button
+              className={`btn btn-sm ${highlightPath === 'both' ? 'btn-primary' : 'btn-ghost'}`}
+              onClick={() => setHighlightPath('both')}
+            >
+              <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <rect x="3" y="3" width="18" height="18" rx="2" />
+              </svg>
+              Both
+            </button>
+          </div>
+        )}
       </div>
 
-      <div className="nt-description">
-        <strong>{preset.name}:</strong> {preset.description}
-      </div>
+      {isCustom && (
+        <div className="nt-custom">
+          <div className="nt-custom-row">
+            <span className="nt-custom-label">C</span>
+            <CategoryPicker value={customSource} defaults={[ordinalTwo, walkingArrow]} onChange={(c) => changeCustomCategory('source', c)} />
+            <span className="nt-custom-label">D</span>
+            <CategoryPicker value={customTarget} defaults={[ordinalThree]} onChange={(c) => changeCustomCategory('target', c)} />
+          </div>
+          {candidates.length === 0 ? (
+            <div className="nt-issue">There are no functors {customSource.name} → {customTarget.name}</div>
+          ) : (
+            <div className="nt-custom-row">
+              {([['F', fIndex, setFIndex], ['G', gIndex, setGIndex]] as const).map(([name, index, setIndex]) => (
+                <label key={name} className="nt-custom-field">
+                  <span className="nt-custom-label">{name}</span>
+                  <select value={index} onChange={(e) => setIndex(Number(e.target.value))}>
+                    {candidates.map((c, i) => (
+                      <option key={i} value={i}>{mapLabel(customSource, customTarget, c)}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          )}
+          {preset && (
+            <div className="nt-custom-row">
+              {finiteC.objects.map((obj) => {
+                const options = hom(finiteD, preset.F.objectMap[obj.id], preset.G.objectMap[obj.id]);
+                return (
+                  <label key={obj.id} className="nt-custom-field">
+                    <span className="nt-custom-label">η_{obj.label}</span>
+                    <select
+                      value={preset.components[obj.id] ?? ''}
+                      onChange={(e) => setChosenComponents({ ...chosenComponents, [obj.id]: e.target.value })}
+                      disabled={options.length === 0}
+                    >
+                      {options.length === 0 && <option value="">none</option>}
+                      {options.map((m) => (
+                        <option key={m.id} value={m.id}>{m.label}</option>
+                      ))}
+                    </select>
+                  </label>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+
+      {preset && (
+        <div className="nt-description">
+          <strong>{preset.name}:</strong> {preset.description}
+        </div>
+      )}
 
       <div className={`nt-canvas ${animating ? 'animating' : ''}`}>
         <svg ref={svgRef} width="100%" height="280" viewBox="0 0 380 280" />
       </div>
 
+      {chase && (
+        <div className="nt-chase">
+          <div className="nt-chase-header">
+            <span className="equation-title">Chase an element</span>
+            <label>
+              x ∈ F({finiteC.objects.find((o) => o.id === chase.morphism.source)?.label}) ={' '}
+              <select value={chase.x} onChange={(e) => setChaseElement(e.target.value)}>
+                {chase.elements.map((x) => (
+                  <option key={x} value={x}>{x}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          {([
+            ['top', chase.topTrace, [preset!.F.morphismMap[chase.morphism.id], preset!.components[chase.morphism.target]]],
+            ['bottom', chase.bottomTrace, [preset!.components[chase.morphism.source], preset!.G.morphismMap[chase.morphism.id]]],
+          ] as const).map(([side, trace, path]) => (
+            <div key={side} className={`nt-chase-row ${side}`}>
+              <code>{trace[0]}</code>
+              {path.map((id, i) => (
+                <span key={i}>
+                  <span className="nt-chase-arrow"> ↦<sub>{dLabel(id)}</sub> </span>
+                  <code>{trace[i + 1] ?? 'undefined'}</code>
+                </span>
+              ))}
+            </div>
+          ))}
+          <div className={`nt-chase-verdict ${chase.topTrace[2] === chase.bottomTrace[2] ? 'commutes' : 'fails'}`}>
+            {chase.topTrace[2] === chase.bottomTrace[2]
+              ? `Both paths send ${chase.x} to ${chase.topTrace[2]}`
+              : `The paths disagree at ${chase.x}: ${chase.topTrace[2]} ≠ ${chase.bottomTrace[2]}`}
+          </div>
+        </div>
+      )}
+
       <div className={`nt-equation ${highlightPath === 'both' ? 'highlight' : ''}`}>
         <div className="equation-title">Naturality Condition</div>
         <div className="equation-content">
@@ -535,6 +887,43 @@ export default function NaturalTransformationVisualizer() {
         </div>
       </div>
 
+      {preset && (
+        <div className={`nt-report ${natural ? 'natural' : 'unnatural'}`}>
+          <h4>
+            {natural
+              ? `η is natural: all ${squares.length} square${squares.length === 1 ? '' : 's'} commute`
+              : issues.length > 0
+                ? 'η is not a family of components F(A) → G(A)'
+                : `η is not natural: ${squares.filter((sq) => !sq.commutes).length} of ${squares.length} squares fail`}
+          </h4>
+          {issues.map((issue) => (
+            <div key={issue.object} className="nt-issue">{issue.message}</div>
+          ))}
+          <ul className="nt-squares">
+            {squares.map((sq) => {
+              const m = finiteC.morphismById.get(sq.morphism)!;
+              const [a, b] = [m.source, m.target].map((id) => finiteC.objects.find((o) => o.id === id)?.label ?? id);
+              return (
+                <li
+                  key={sq.morphism}
+                  className={`nt-square-item ${sq.commutes ? 'commutes' : 'fails'} ${square?.morphism === sq.morphism ? 'selected' : ''}`}
+                  onClick={() => setSelectedMorphism(sq.morphism)}
+                >
+                  <span className="square-status">{sq.commutes ? '✓' : '✗'}</span>
+                  <span className="square-morphism">{m.label}: {a}→{b}</span>
+                  <span className="square-paths">
+                    η_{b}∘F({m.label}) = {dLabel(sq.top)} {sq.commutes ? '=' : '≠'} G({m.label})∘η_{a} = {dLabel(sq.bottom)}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+          {squares.length === 0 && (
+            <p className="nt-note">C has no non-identity morphisms, so every family of components is natural.</p>
+          )}
+        </div>
+      )}
+
       <div className="nt-actions">
         <button
           className={`btn btn-primary ${animating ? 'animating' : ''}`}
@@ -1,9 +1,142 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
 import * as d3 from 'd3';
 import SimulatorHint, { HintStep } from './SimulatorHint';
+import {
+  cartesianProduct,
+  disjointUnion,
+  FunctionTable,
+  parseElements,
+  subscript,
+  tabulate,
+  tupleLabel,
+} from '../../utils/finiteSets';
+import {
+  checkPullbackCone,
+  checkPushoutCocone,
+  computePullback,
+  computePushout,
+  CornerDiagram,
+  defaultCoconeLeg,
+  defaultConeLeg,
+  initialTestApex,
+  mediatingChoices,
+  restrictFunction,
+  TestCone,
+} from '../../utils/finiteLimits';
 import './ProductBuilder.css';
 
-type ConstructionType = 'product' | 'coproduct';
+type ConstructionType = 'product' | 'coproduct' | 'pullback' | 'pushout';
+type SquareType = 'pullback' | 'pushout';
+
+// Factor names in the order they are added, at most four
+const factorNames = ['A', 'B', 'C', 'D'];
+
+// The construction in Set, for "Show elements": one set per factor name
+const factorSets: Record<string, string[]> = {
+  A: ['1', '2', '3'],
+  B: ['a', 'b'],
+  C: ['p', 'q'],
+  D: ['0', '1'],
+};
+const productTest = {
+  X: ['x', 'y'],
+  legs: {
+    A: { x: '1', y: '3' },
+    B: { x: 'b', y: 'a' },
+    C: { x: 'q', y: 'p' },
+    D: { x: '0', y: '0' },
+  } as Record<string, FunctionTable>, // X → each factor
+};
+const coproductTest = {
+  X: ['red', 'blue'],
+  legs: {
+    A: { 1: 'red', 2: 'blue', 3: 'red' },
+    B: { a: 'blue', b: 'red' },
+    C: { p: 'red', q: 'red' },
+    D: { 0: 'blue', 1: 'blue' },
+  } as Record<string, FunctionTable>, // each factor → X
+};
+
+// A×B×C, A+B, and 1 or 0 for no factors at all
+const productName = (factors: string[], isProduct: boolean) =>
+  factors.length === 0 ? (isProduct ? '1' : '0') : factors.join(isProduct ? '×' : '+');
+
+// The given maps of the test object: f and g for two factors, f₁, …, fₙ otherwise
+const givenLabel = (factors: string[], i: number) => (factors.length === 2 ? ['f', 'g'][i] : `f${subscript(i + 1)}`);
+
+// ⟨f,g⟩ / [f,g], or ! when the empty (co)product makes the map unique for free
+const inducedLabel = (factors: string[], isProduct: boolean) => {
+  if (factors.length === 0) return '!';
+  const legs = factors.map((_, i) => givenLabel(factors, i)).join(',');
+  return isProduct ? `⟨${legs}⟩` : `[${legs}]`;
+};
+
+type CandidateKind = 'genuine' | 'impostor';
+
+/**
+ * A challenge test object with one map per factor, picked pseudo-randomly
+ * from the round number so the same round always gives the same challenge.
+ */
+function makeChallenge(factors: string[], isProduct: boolean, round: number): TestCone {
+  let seed = round * 7919 + factors.length * 31 + (isProduct ? 1 : 17);
+  const next = (n: number) => {
+    seed = (seed * 16807) % 2147483647;
+    return seed % n;
+  };
+  const apex = (isProduct ? ['x', 'y', 'z'] : ['red', 'blue', 'green']).slice(0, 2 + next(2));
+  const legs = Object.fromEntries(factors.map((name) => [
+    name,
+    isProduct
+      ? Object.fromEntries(apex.map((x) => [x, factorSets[name][next(factorSets[name].length)]]))
+      : Object.fromEntries(factorSets[name].map((a) => [a, apex[next(apex.length)]])),
+  ]));
+  return { apex, legs };
+}
+
+/**
+ * The (co)product in Set with its legs, or an impostor with one element too
+ * many: ΠAᵢ×2 with projections that ignore the extra bit, or ΣAᵢ+1 with an
+ * extra point no injection reaches. Both legs still exist; only uniqueness fails.
+ */
+function makeCandidate(factors: string[], isProduct: boolean, kind: CandidateKind): TestCone {
+  const sets = factors.map((name) => factorSets[name]);
+  if (isProduct) {
+    const bits = kind === 'impostor' ? ['0', '1'] : [];
+    const tuples = cartesianProduct(...sets).flatMap((t) => (bits.length > 0 ? bits.map((b) => [...t, b]) : [t]));
+    const apex = tuples.map(tupleLabel);
+    const legs = Object.fromEntries(factors.map((name, i) => [
+      name,
+      Object.fromEntries(tuples.map((t, k) => [apex[k], t[i]])),
+    ]));
+    return { apex, legs };
+  }
+  const union = disjointUnion(...sets);
+  const legs = Object.fromEntries(factors.map((name, i) => [
+    name,
+    Object.fromEntries(union.filter((e) => e.tag === i + 1).map((e) => [e.value, e.label])),
+  ]));
+  return { apex: [...union.map((e) => e.label), ...(kind === 'impostor' ? ['*'] : [])], legs };
+}
+
+// Starting cospan and span for the pullback and pushout modes
+const squareInputs: Record<SquareType, CornerDiagram> = {
+  // Numbers and letters over their parity: the pullback pairs up equal parities
+  pullback: {
+    A: ['1', '2', '3', '4'],
+    B: ['a', 'b', 'c'],
+    C: ['even', 'odd'],
+    f: tabulate(['1', '2', '3', '4'], (x) => (Number(x) % 2 === 0 ? 'even' : 'odd')),
+    g: { a: 'even', b: 'odd', c: 'odd' },
+  },
+  // Two sets sharing {1, 2}: the pushout is their union
+  pushout: {
+    A: ['1', '2', '3'],
+    B: ['1', '2', '4'],
+    C: ['1', '2'],
+    f: { 1: '1', 2: '2' },
+    g: { 1: '1', 2: '2' },
+  },
+};
 
 const hintSteps: HintStep[] = [
   {
@@ -11,6 +144,21 @@ const hintSteps: HintStep[] = [
     description: 'Toggle between Product (×) and Coproduct (+) to see how these dual constructions differ. Products combine data, coproducts represent alternatives.',
     action: 'Click "Product" or "Coproduct" buttons',
   },
+  {
+    title: 'Take the Challenge',
+    description: 'Check "Challenge" to get a test object X with concrete maps. Define the mediating map u element by element; the tool checks every triangle and whether u was the only choice. Switch the candidate to an impostor to see uniqueness fail.',
+    action: 'Enable the Challenge checkbox',
+  },
+  {
+    title: 'Change the Factors',
+    description: 'Use − and + to change the number of factors, all the way down to none. The empty product is the terminal object 1 and the empty coproduct the initial object 0.',
+    action: 'Click − until no factors are left',
+  },
+  {
+    title: 'Pullbacks and Pushouts',
+    description: 'Pullback and Pushout work over a shared corner C. Enter the sets and functions of the cospan A → C ← B or the span A ← C → B, and the universal square is computed.',
+    action: 'Open "Sets and functions"',
+  },
   {
     title: 'Observe the Structure',
     description: 'For products, arrows point OUT from A×B to A and B (projections). For coproducts, arrows point IN from A and B to A+B (injections).',
@@ -31,26 +179,104 @@ const tips = [
   'In programming: Product ≈ Tuple/Struct, Coproduct ≈ Union/Either type',
   'The universal property ensures uniqueness up to isomorphism',
   'Products have projections (π), coproducts have injections (ι)',
+  'A pullback is a product over C; a pushout is a coproduct glued along C',
+  'Terminal and initial objects (section 2b) are the empty product and coproduct',
 ];
 
 export default function ProductBuilder() {
   const svgRef = useRef<SVGSVGElement>(null);
   const [constructionType, setConstructionType] = useState<ConstructionType>('product');
   const [showUniversal, setShowUniversal] = useState(false);
-  const [factors] = useState(['A', 'B']);
+  const [factors, setFactors] = useState(['A', 'B']);
   const [testObject] = useState('X');
   const [showHint, setShowHint] = useState(true);
   const [isAnimating, setIsAnimating] = useState(false);
+  const [showElements, setShowElements] = useState(false);
+  const [square, setSquare] = useState<CornerDiagram>(squareInputs.pullback);
+  const [setTexts, setSetTexts] = useState<Partial<Record<'A' | 'B' | 'C', string>>>({});
+  const [testApexText, setTestApexText] = useState(initialTestApex);
+  const [testLegs, setTestLegs] = useState<Partial<Record<'A' | 'B', FunctionTable>>>({});
+  const [challengeOn, setChallengeOn] = useState(false);
+  const [challengeRound, setChallengeRound] = useState(1);
+  const [candidateKind, setCandidateKind] = useState<CandidateKind>('genuine');
+  const [answer, setAnswer] = useState<FunctionTable>({});
+
+  const isSquare = constructionType === 'pullback' || constructionType === 'pushout';
+  const isPullback = constructionType === 'pullback';
+  const pullback = useMemo(() => computePullback(square), [square]);
+  const pushout = useMemo(() => computePushout(square), [square]);
+
+  // The test (co)cone; unset legs default to ones that factor through the universal square
+  const testApex = useMemo(() => parseElements(testApexText), [testApexText]);
+  const testCone: TestCone = useMemo(() => {
+    const legs: Record<string, FunctionTable> = {};
+    (['A', 'B'] as const).forEach((side) => {
+      const chosen = testLegs[side] ?? {};
+      legs[side] = isPullback
+        ? defaultConeLeg(testApex, chosen, square[side], pullback.apex, (l) => pullback.legs[side][l])
+        : defaultCoconeLeg(square[side], chosen, testApex, pushout.apex, (y) => pushout.legs[side][y]);
+    });
+    return { apex: testApex, legs };
+  }, [isPullback, testApex, testLegs, square, pullback, pushout]);
+
+  const squareCheck = useMemo(
+    () => isPullback ? checkPullbackCone(square, testCone) : checkPushoutCocone(square, pushout, testCone),
+    [isPullback, square, pushout, testCone]
+  );
 
   // Handle type change with animation
   const handleTypeChange = (type: ConstructionType) => {
     if (type !== constructionType) {
       setIsAnimating(true);
       setConstructionType(type);
+      if (type === 'pullback' || type === 'pushout') {
+        setSquare(squareInputs[type]);
+        setSetTexts({});
+        setTestLegs({});
+      }
+      setAnswer({});
       setTimeout(() => setIsAnimating(false), 800);
     }
   };
 
+  // Editing a set keeps the function values still in range and sends the rest to the first element
+  const changeSet = (which: 'A' | 'B' | 'C', text: string) => {
+    setSetTexts({ ...setTexts, [which]: text });
+    const next = { ...square, [which]: parseElements(text) };
+    setSquare(isPullback
+      ? { ...next, f: restrictFunction(next.f, next.A, next.C), g: restrictFunction(next.g, next.B, next.C) }
+      : { ...next, f: restrictFunction(next.f, next.C, next.A), g: restrictFunction(next.g, next.C, next.B) });
+  };
+
+  const changeFunction = (which: 'f' | 'g', x: string, y: string) => {
+    setSquare({ ...square, [which]: { ...square[which], [x]: y } });
+  };
+
+  const changeLeg = (side: 'A' | 'B', x: string, y: string) => {
+    setTestLegs({ ...testLegs, [side]: { ...testCone.legs[side], [x]: y } });
+  };
+
+  // Factors are added in name order and removed from the end, down to none at all
+  const addFactor = () => {
+    if (factors.length < factorNames.length) setFactors(factorNames.slice(0, factors.length + 1));
+    setAnswer({});
+  };
+
+  const removeFactor = () => {
+    if (factors.length > 0) setFactors(factors.slice(0, -1));
+    setAnswer({});
+  };
+
+  const newChallenge = () => {
+    setChallengeRound(challengeRound + 1);
+    setAnswer({});
+  };
+
+  const changeCandidate = (kind: CandidateKind) => {
+    setCandidateKind(kind);
+    setAnswer({});
+  };
+
   // Handle universal property toggle with animation
   const handleUniversalToggle = (checked: boolean) => {
     setIsAnimating(true);
@@ -109,17 +335,21 @@ export default function ProductBuilder() {
 
     const isProduct = constructionType === 'product';
 
-    // Positions
+    // Positions: the factors fan out below the product, the test object sits to its left
     const positions = {
-      product: { x: width / 2, y: 80 },  // A×B or A+B
-      A: { x: 100, y: 200 },
-      B: { x: 280, y: 200 },
-      X: { x: width / 2, y: 30 },  // Test object for universal property
+      product: { x: width / 2 + 30, y: 85 },  // A×B or A+B
+      X: { x: 60, y: 85 },  // Test object for universal property
+      factors: factors.map((_, i) => ({ x: 60 + ((i + 1) * (width - 100)) / (factors.length + 1), y: 210 })),
     };
 
-    const productLabel = isProduct ? `${factors[0]}×${factors[1]}` : `${factors[0]}+${factors[1]}`;
-    const projLabel1 = isProduct ? 'π₁' : 'ι₁';
-    const projLabel2 = isProduct ? 'π₂' : 'ι₂';
+    const productLabel = productName(factors, isProduct);
+    const legLabel = (i: number) => `${isProduct ? 'π' : 'ι'}${subscript(i + 1)}`;
+
+    const markerFor: Record<string, string> = {
+      'var(--color-accent)': 'blue',
+      'var(--color-success)': 'green',
+      '#f59f00': 'orange',
+    };
 
     // Draw arrow with animation
     const drawArrow = (
@@ -146,7 +376,7 @@ export default function ProductBuilder() {
         .attr('y2', startY)
         .attr('stroke', color)
         .attr('stroke-width', 2)
-        .attr('marker-end', `url(#pb-arrow-${dashed ? 'dashed' : color === 'var(--color-accent)' ? 'blue' : color === 'var(--color-success)' ? 'green' : 'orange'})`);
+        .attr('marker-end', `url(#pb-arrow-${dashed ? 'dashed' : markerFor[color] ?? 'dashed'})`);
 
       if (dashed) {
         line.attr('stroke-dasharray', '5,5');
@@ -179,74 +409,6 @@ export default function ProductBuilder() {
         .attr('opacity', 1);
     };
 
-    // Draw projection/injection arrows
-    if (isProduct) {
-      // Product: arrows go OUT from product to factors
-      drawArrow(
-        positions.product.x, positions.product.y,
-        positions.A.x, positions.A.y,
-        projLabel1, 'var(--color-accent)', false, 200
-      );
-      drawArrow(
-        positions.product.x, positions.product.y,
-        positions.B.x, positions.B.y,
-        projLabel2, 'var(--color-accent)', false, 350
-      );
-    } else {
-      // Coproduct: arrows go IN from factors to coproduct
-      drawArrow(
-        positions.A.x, positions.A.y,
-        positions.product.x, positions.product.y,
-        projLabel1, 'var(--color-accent)', false, 200
-      );
-      drawArrow(
-        positions.B.x, positions.B.y,
-        positions.product.x, positions.product.y,
-        projLabel2, 'var(--color-accent)', false, 350
-      );
-    }
-
-    // Draw universal property if enabled
-    if (showUniversal) {
-      if (isProduct) {
-        // Product universal property:
-        // X with f: X→A and g: X→B induces unique ⟨f,g⟩: X→A×B
-        drawArrow(
-          positions.X.x - 30, positions.X.y + 10,
-          positions.A.x, positions.A.y - 10,
-          'f', 'var(--color-success)', false, 500
-        );
-        drawArrow(
-          positions.X.x + 30, positions.X.y + 10,
-          positions.B.x, positions.B.y - 10,
-          'g', 'var(--color-success)', false, 650
-        );
-        drawArrow(
-          positions.X.x, positions.X.y + 15,
-          positions.product.x, positions.product.y - 15,
-          '⟨f,g⟩', '#f59f00', true, 800
-        );
-      } else {
-        // Coproduct universal property:
-        // X with f: A→X and g: B→X induces unique [f,g]: A+B→X
-        drawArrow(
-          positions.A.x + 10, positions.A.y - 30,
-          positions.X.x - 30, positions.X.y + 10,
-          'f', 'var(--color-success)', false, 500
-        );
-        drawArrow(
-          positions.B.x - 10, positions.B.y - 30,
-          positions.X.x + 30, positions.X.y + 10,
-          'g', 'var(--color-success)', false, 650
-        );
-        drawArrow(
-          positions.product.x, positions.product.y - 15,
-          positions.X.x, positions.X.y + 15,
-          '[f,g]', '#f59f00', true, 800
-        );
-      }
-    }
-
     // Draw nodes with entrance animation
     const drawNode = (x: number, y: number, label: string, isMain = false, delay = 0) => {
       const group = svg.append('g')
@@ -279,7 +441,7 @@ export default function ProductBuilder() {
       group.append('text')
         .attr('text-anchor', 'middle')
         .attr('dy', '0.35em')
-        .attr('font-size', isMain ? '14px' : '16px')
+        .attr('font-size', isMain ? (label.length > 5 ? '10px' : '14px') : '16px')
         .attr('font-weight', 'bold')
         .attr('fill', 'var(--color-text-primary)')
         .attr('opacity', 0)
@@ -295,24 +457,125 @@ export default function ProductBuilder() {
         .attr('opacity', 1);
     };
 
+    // Pullback and pushout: the universal square, with the test (co)cone outside it
+    if (isSquare) {
+      const corner = isPullback
+        ? { P: { x: 170, y: 95 }, A: { x: 170, y: 215 }, B: { x: 310, y: 95 }, C: { x: 310, y: 215 }, X: { x: 60, y: 30 } }
+        : { P: { x: 230, y: 165 }, A: { x: 80, y: 165 }, B: { x: 230, y: 45 }, C: { x: 80, y: 45 }, X: { x: 330, y: 235 } };
+      const given = 'var(--color-text-muted)';
+      const ok = squareCheck.mediating !== null;
+
+      if (isPullback) {
+        drawArrow(corner.A.x, corner.A.y, corner.C.x, corner.C.y, 'f', given, false, 100);
+        drawArrow(corner.B.x, corner.B.y, corner.C.x, corner.C.y, 'g', given, false, 100);
+        drawArrow(corner.P.x, corner.P.y, corner.A.x, corner.A.y, 'π₁', 'var(--color-accent)', false, 200);
+        drawArrow(corner.P.x, corner.P.y, corner.B.x, corner.B.y, 'π₂', 'var(--color-accent)', false, 350);
+      } else {
+        drawArrow(corner.C.x, corner.C.y, corner.A.x, corner.A.y, 'f', given, false, 100);
+        drawArrow(corner.C.x, corner.C.y, corner.B.x, corner.B.y, 'g', given, false, 100);
+        drawArrow(corner.A.x, corner.A.y, corner.P.x, corner.P.y, 'ι₁', 'var(--color-accent)', false, 200);
+        drawArrow(corner.B.x, corner.B.y, corner.P.x, corner.P.y, 'ι₂', 'var(--color-accent)', false, 350);
+      }
+
+      if (showUniversal) {
+        const mediatingColor = ok ? '#f59f00' : 'var(--color-error)';
+        if (isPullback) {
+          drawArrow(corner.X.x, corner.X.y, corner.A.x, corner.A.y, 'p', 'var(--color-success)', false, 500);
+          drawArrow(corner.X.x, corner.X.y, corner.B.x, corner.B.y, 'q', 'var(--color-success)', false, 650);
+          drawArrow(corner.X.x, corner.X.y, corner.P.x, corner.P.y, ok ? '⟨p,q⟩' : 'no u', mediatingColor, true, 800);
+        } else {
+          drawArrow(corner.A.x, corner.A.y, corner.X.x, corner.X.y, 'p', 'var(--color-success)', false, 500);
+          drawArrow(corner.B.x, corner.B.y, corner.X.x, corner.X.y, 'q', 'var(--color-success)', false, 650);
+          drawArrow(corner.P.x, corner.P.y, corner.X.x, corner.X.y, ok ? '[p,q]' : 'no u', mediatingColor, true, 800);
+        }
+      }
+
+      drawNode(corner.P.x, corner.P.y, 'P', true, 0);
+      drawNode(corner.A.x, corner.A.y, 'A', false, 100);
+      drawNode(corner.B.x, corner.B.y, 'B', false, 150);
+      drawNode(corner.C.x, corner.C.y, 'C', false, 200);
+      if (showUniversal) {
+        drawNode(corner.X.x, corner.X.y, testObject, false, 400);
+      }
+      return;
+    }
+
+    // Draw the projection/injection fan, one leg per factor
+    positions.factors.forEach((factor, i) => {
+      if (isProduct) {
+        drawArrow(positions.product.x, positions.product.y, factor.x, factor.y, legLabel(i), 'var(--color-accent)', false, 200 + i * 150);
+      } else {
+        drawArrow(factor.x, factor.y, positions.product.x, positions.product.y, legLabel(i), 'var(--color-accent)', false, 200 + i * 150);
+      }
+    });
+
+    // Draw universal property if enabled: X with one map per factor induces a unique
+    // ⟨f₁,…,fₙ⟩: X → ΠAᵢ or [f₁,…,fₙ]: ΣAᵢ → X; with no factors that is ! into 1 or out of 0
+    if (showUniversal) {
+      const delay = 500 + factors.length * 150;
+      positions.factors.forEach((factor, i) => {
+        if (isProduct) {
+          drawArrow(positions.X.x, positions.X.y, factor.x, factor.y, givenLabel(factors, i), 'var(--color-success)', false, 500 + i * 150);
+        } else {
+          drawArrow(factor.x, factor.y, positions.X.x, positions.X.y, givenLabel(factors, i), 'var(--color-success)', false, 500 + i * 150);
+        }
+      });
+      if (isProduct) {
+        drawArrow(positions.X.x, positions.X.y, positions.product.x, positions.product.y, inducedLabel(factors, true), '#f59f00', true, delay);
+      } else {
+        drawArrow(positions.product.x, positions.product.y, positions.X.x, positions.X.y, inducedLabel(factors, false), '#f59f00', true, delay);
+      }
+    }
+
     drawNode(positions.product.x, positions.product.y, productLabel, true, 0);
-    drawNode(positions.A.x, positions.A.y, factors[0], false, 100);
-    drawNode(positions.B.x, positions.B.y, factors[1], false, 150);
+    positions.factors.forEach((factor, i) => drawNode(factor.x, factor.y, factors[i], false, 100 + i * 50));
 
     if (showUniversal) {
       drawNode(positions.X.x, positions.X.y, testObject, false, 400);
     }
 
-  }, [constructionType, showUniversal, factors, testObject]);
+  }, [constructionType, isSquare, isPullback, showUniversal, factors, testObject, squareCheck]);
 
   const isProduct = constructionType === 'product';
+  const isLimitSide = isProduct || isPullback;
+  const productLabel = productName(factors, isProduct);
+  const legLabel = (i: number) => `${isProduct ? 'π' : 'ι'}${subscript(i + 1)}`;
+  const factorValues = factors.map((name) => factorSets[name]);
+
+  // Challenge: the learner defines the mediating map u element by element
+  const challenge = makeChallenge(factors, isProduct, challengeRound);
+  const candidate = makeCandidate(factors, isProduct, candidateKind);
+  const impostorLabel = isProduct
+    ? (factors.length === 0 ? '2' : `${productLabel}×2`)
+    : (factors.length === 0 ? '1' : `${productLabel}+1`);
+  const candidateLabel = candidateKind === 'genuine' ? productLabel : impostorLabel;
+  const answerDomain = isProduct ? challenge.apex : candidate.apex;
+  const answerCodomain = isProduct ? candidate.apex : challenge.apex;
+  const answered = answerDomain.every((e) => answer[e] !== undefined);
+  const triangleFailures = isProduct
+    ? challenge.apex.flatMap((x) => (answer[x] === undefined ? [] : factors.flatMap((name, i) => {
+      const viaU = candidate.legs[name][answer[x]];
+      const given = challenge.legs[name][x];
+      return viaU === given ? [] : [`${legLabel(i)}(u(${x})) = ${viaU}, but ${givenLabel(factors, i)}(${x}) = ${given}`];
+    })))
+    : factors.flatMap((name, i) => factorSets[name].flatMap((a) => {
+      const viaU = answer[candidate.legs[name][a]];
+      const given = challenge.legs[name][a];
+      return viaU === undefined || viaU === given ? [] : [`u(${legLabel(i)}(${a})) = ${viaU}, but ${givenLabel(factors, i)}(${a}) = ${given}`];
+    }));
+  const choices = mediatingChoices(Object.fromEntries(factors.map((name) => [name, factorSets[name]])), candidate, challenge, isProduct);
+  // Another map that also commutes, if one exists: change u where it was not forced
+  const ambiguous = answerDomain.find((e) => choices[e].length > 1);
+  const secondMap = answered && triangleFailures.length === 0 && ambiguous !== undefined
+    ? { ...answer, [ambiguous]: choices[ambiguous].find((v) => v !== answer[ambiguous])! }
+    : null;
 
   return (
     <div className="product-builder">
       {showHint && (
         <SimulatorHint
           title="Product & Coproduct Builder"
-          description="Explore how products and coproducts work in category theory. These are fundamental constructions that capture the concepts of 'and' (product) and 'or' (coproduct)."
+          description="Explore how products and coproducts work in category theory. These are fundamental constructions that capture the concepts of 'and' (product) and 'or' (coproduct), and over a shared corner become pullbacks and pushouts."
           steps={hintSteps}
           tips={tips}
           onDismiss={() => setShowHint(false)}
@@ -348,7 +611,7 @@ export default function ProductBuilder() {
             Product (×)
           </button>
           <button
-            className={`toggle-btn ${!isProduct ? 'active' : ''}`}
+            className={`toggle-btn ${constructionType === 'coproduct' ? 'active' : ''}`}
             onClick={() => handleTypeChange('coproduct')}
           >
             <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -357,6 +620,28 @@ export default function ProductBuilder() {
             Coproduct (+)
           </button>
         </div>
+        <div className="pb-type-toggle">
+          <button
+            className={`toggle-btn ${isPullback ? 'active' : ''}`}
+            onClick={() => handleTypeChange('pullback')}
+          >
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <rect x="5" y="5" width="14" height="14" />
+              <polyline points="9,9 9,5" />
+            </svg>
+            Pullback (×_C)
+          </button>
+          <button
+            className={`toggle-btn ${constructionType === 'pushout' ? 'active' : ''}`}
+            onClick={() => handleTypeChange('pushout')}
+          >
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <rect x="5" y="5" width="14" height="14" />
+              <polyline points="15,15 15,19" />
+            </svg>
+            Pushout (+_C)
+          </button>
+        </div>
         <label className="pb-checkbox">
           <input
             type="checkbox"
@@ -365,8 +650,71 @@ export default function ProductBuilder() {
           />
           <span>Show universal property</span>
         </label>
+        {!isSquare && (
+          <div className="pb-factors">
+            <button className="btn btn-ghost btn-sm" onClick={removeFactor} disabled={factors.length === 0} title="Remove the last factor">
+              −
+            </button>
+            <span>{factors.length} {factors.length === 1 ? 'factor' : 'factors'}</span>
+            <button className="btn btn-ghost btn-sm" onClick={addFactor} disabled={factors.length === factorNames.length} title="Add a factor">
+              +
+            </button>
+          </div>
+        )}
+        {!isSquare && (
+          <label className="pb-checkbox">
+            <input
+              type="checkbox"
+              checked={challengeOn}
+              onChange={(e) => setChallengeOn(e.target.checked)}
+            />
+            <span>Challenge</span>
+          </label>
+        )}
+        {!isSquare && (
+          <label className="pb-checkbox">
+            <input
+              type="checkbox"
+              checked={showElements}
+              onChange={(e) => setShowElements(e.target.checked)}
+            />
+            <span>Show elements</span>
+          </label>
+        )}
       </div>
 
+      {isSquare && (
+        <details className="pb-square-input">
+          <summary>Sets and functions ({isPullback ? 'cospan A → C ← B' : 'span A ← C → B'})</summary>
+          {(['A', 'B', 'C'] as const).map((which) => (
+            <label key={which} className="pb-square-row">
+              <span className="pb-square-label">{which} =</span>
+              <input value={setTexts[which] ?? square[which].join(', ')} onChange={(e) => changeSet(which, e.target.value)} />
+            </label>
+          ))}
+          {(['f', 'g'] as const).map((which) => {
+            const side = which === 'f' ? 'A' : 'B';
+            const [domain, codomain] = isPullback ? [square[side], square.C] : [square.C, square[side]];
+            return (
+              <div key={which} className="pb-square-row">
+                <span className="pb-square-label">{which}:</span>
+                {domain.map((x) => (
+                  <span key={x} className="pb-square-mapping">
+                    {x} ↦
+                    <select value={square[which][x] ?? ''} onChange={(e) => changeFunction(which, x, e.target.value)}>
+                      {codomain.map((y) => <option key={y} value={y}>{y}</option>)}
+                    </select>
+                  </span>
+                ))}
+                {domain.length > 0 && codomain.length === 0 && (
+                  <span className="pb-square-error">no function into the empty set</span>
+                )}
+              </div>
+            );
+          })}
+        </details>
+      )}
+
       <div className={`pb-canvas ${isAnimating ? 'animating' : ''}`}>
         <svg ref={svgRef} width="100%" height="260" viewBox="0 0 380 260" />
       </div>
@@ -374,13 +722,19 @@ export default function ProductBuilder() {
       <div className="pb-legend">
         <div className="legend-item">
           <span className="legend-color blue"></span>
-          <span>{isProduct ? 'Projections' : 'Injections'} ({isProduct ? 'π' : 'ι'})</span>
+          <span>{isLimitSide ? 'Projections' : 'Injections'} ({isLimitSide ? 'π' : 'ι'})</span>
         </div>
+        {isSquare && (
+          <div className="legend-item">
+            <span className="legend-color muted"></span>
+            <span>The {isPullback ? 'cospan' : 'span'} (f, g)</span>
+          </div>
+        )}
         {showUniversal && (
           <>
             <div className="legend-item animate-in">
               <span className="legend-color green"></span>
-              <span>Given morphisms (f, g)</span>
+              <span>Given morphisms ({isSquare ? 'p, q' : 'f, g'})</span>
             </div>
             <div className="legend-item animate-in">
               <span className="legend-color orange dashed"></span>
@@ -390,16 +744,251 @@ export default function ProductBuilder() {
         )}
       </div>
 
-      <div className={`pb-info ${isProduct ? 'product-info' : 'coproduct-info'}`}>
+      {isSquare && (
+        <div className="pb-elements">
+          {isPullback ? (
+            <>
+              <div className="pb-elements-sets">P = {'{'}(a, b) | f(a) = g(b){'}'}, |P| = {pullback.apex.length}</div>
+              {pullback.apex.length === 0 ? (
+                <div className="pb-elements-note">No a and b meet in C: the pullback is empty.</div>
+              ) : (
+                <table className="pb-elements-table">
+                  <thead>
+                    <tr><th>p ∈ P</th><th>π₁(p)</th><th>π₂(p)</th><th>f(π₁ p) = g(π₂ p)</th></tr>
+                  </thead>
+                  <tbody>
+                    {pullback.apex.map((pair) => {
+                      const hit = showUniversal && squareCheck.mediating !== null && Object.values(squareCheck.mediating).includes(pair);
+                      return (
+                        <tr key={pair} className={hit ? 'hit' : ''}>
+                          <td>{pair}</td>
+                          <td>{pullback.legs.A[pair]}</td>
+                          <td>{pullback.legs.B[pair]}</td>
+                          <td>{square.f[pullback.legs.A[pair]]}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+            </>
+          ) : (
+            <>
+              <div className="pb-elements-sets">P = (A+B)/(ι₁ f(c) ~ ι₂ g(c)), |P| = {pushout.apex.length}</div>
+              <ul className="pb-elements-classes">
+                {pushout.apex.map((c) => (
+                  <li key={c}><code>{c}</code> = {'{'}{pushout.classes[c].join(', ')}{'}'}</li>
+                ))}
+              </ul>
+            </>
+          )}
+
+          {showUniversal && (
+            <div className={`pb-square-test ${squareCheck.mediating ? 'valid' : 'invalid'}`}>
+              <label className="pb-square-row">
+                <span className="pb-square-label">X =</span>
+                <input value={testApexText} onChange={(e) => setTestApexText(e.target.value)} />
+              </label>
+              {(['A', 'B'] as const).map((side) => (
+                <div key={side} className="pb-square-row">
+                  <span className="pb-square-label">{side === 'A' ? 'p:' : 'q:'}</span>
+                  {(isPullback ? testApex : square[side]).map((x) => (
+                    <span key={x} className="pb-square-mapping">
+                      {x} ↦
+                      <select value={testCone.legs[side][x] ?? ''} onChange={(e) => changeLeg(side, x, e.target.value)}>
+                        {(isPullback ? square[side] : testApex).map((y) => <option key={y} value={y}>{y}</option>)}
+                      </select>
+                    </span>
+                  ))}
+                </div>
+              ))}
+              {squareCheck.mediating ? (
+                <div className="pb-elements-induced">
+                  {Object.entries(squareCheck.mediating).map(([from, to]) => (
+                    <div key={from}>{isPullback ? '⟨p,q⟩' : '[p,q]'}({from}) = {to}</div>
+                  ))}
+                </div>
+              ) : (
+                <div>
+                  {isPullback ? 'f∘p ≠ g∘q' : 'p∘f ≠ q∘g'}, so the square does not commute and nothing has to factor:
+                  {squareCheck.failures.slice(0, 4).map((f, i) => <div key={i} className="pb-square-error">{f.message}</div>)}
+                  {squareCheck.failures.length > 4 && <div className="pb-elements-note">…and {squareCheck.failures.length - 4} more</div>}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {showElements && !isSquare && (
+        <div className="pb-elements">
+          <div className="pb-elements-sets">
+            {factors.map((name) => `${name} = {${factorSets[name].join(', ')}}`).join(', ')}
+            {showUniversal && <>{factors.length > 0 && ', '}X = {'{'}{(isProduct ? productTest : coproductTest).X.join(', ')}{'}'}</>}
+          </div>
+          {isProduct ? (
+            <table className="pb-elements-table">
+              <thead>
+                <tr>
+                  <th>p ∈ {productLabel}</th>
+                  {factors.map((name, i) => <th key={name}>{legLabel(i)}(p)</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {cartesianProduct(...factorValues).map((tuple) => {
+                  const hit = showUniversal && productTest.X.some((x) => factors.every((name, i) => productTest.legs[name][x] === tuple[i]));
+                  return (
+                    <tr key={tupleLabel(tuple)} className={hit ? 'hit' : ''}>
+                      <td>{tupleLabel(tuple)}</td>
+                      {tuple.map((value, i) => <td key={factors[i]}>{value}</td>)}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          ) : factors.length > 0 && (
+            <table className="pb-elements-table">
+              <thead>
+                <tr><th>e ∈ {productLabel}</th><th>from</th>{showUniversal && <th>{inducedLabel(factors, false)}(e)</th>}</tr>
+              </thead>
+              <tbody>
+                {disjointUnion(...factorValues).map((e) => (
+                  <tr key={e.label}>
+                    <td>{e.label}</td>
+                    <td>{factors[e.tag - 1]}</td>
+                    {showUniversal && <td>{coproductTest.legs[factors[e.tag - 1]][e.value]}</td>}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {showUniversal && isProduct && (
+            <div className="pb-elements-induced">
+              {productTest.X.map((x) => (
+                <div key={x}>
+                  {inducedLabel(factors, true)}({x}) = {tupleLabel(factors.map((name) => productTest.legs[name][x]))}
+                  {factors.length > 0 && (
+                    <span className="pb-elements-note">
+                      {' '}since {factors.map((name, i) => `${givenLabel(factors, i)}(${x}) = ${productTest.legs[name][x]}`).join(' and ')}
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="pb-elements-note">
+            {isProduct
+              ? factors.length === 0
+                ? '|1| = 1: the empty product has just the empty tuple (), so every X has exactly one map into it'
+                : `|${productLabel}| = ${factorValues.map((v) => v.length).join(' × ')} = ${factorValues.reduce((n, v) => n * v.length, 1)}: one tuple per choice of every component`
+              : factors.length === 0
+                ? '|0| = 0: the empty coproduct has no elements, so every X has exactly one map out of it (the empty function)'
+                : `|${productLabel}| = ${factorValues.map((v) => v.length).join(' + ')} = ${factorValues.reduce((n, v) => n + v.length, 0)}: the tag remembers which factor an element came from`}
+          </div>
+        </div>
+      )}
+
+      {challengeOn && !isSquare && (
+        <div className={`pb-challenge ${answered ? (triangleFailures.length > 0 || secondMap ? 'invalid' : 'valid') : ''}`}>
+          <div className="pb-challenge-header">
+            <strong>Challenge: define {inducedLabel(factors, isProduct)} yourself</strong>
+            <button className="btn btn-ghost btn-sm" onClick={newChallenge}>New challenge</button>
+          </div>
+          <div className="pb-elements-sets">
+            X = {'{'}{challenge.apex.join(', ')}{'}'}
+            {factors.map((name, i) => (
+              <div key={name}>
+                {givenLabel(factors, i)}: {isProduct ? `X → ${name}` : `${name} → X`},{' '}
+                {Object.entries(challenge.legs[name]).map(([from, to]) => `${from} ↦ ${to}`).join(', ')}
+              </div>
+            ))}
+          </div>
+          <label className="pb-square-row">
+            <span>Candidate:</span>
+            <select value={candidateKind} onChange={(e) => changeCandidate(e.target.value as CandidateKind)}>
+              <option value="genuine">{productLabel} (the real {isProduct ? 'product' : 'coproduct'})</option>
+              <option value="impostor">{impostorLabel} (too many elements)</option>
+            </select>
+          </label>
+          <div className="pb-square-row">
+            <span className="pb-square-label">u:</span>
+            {answerDomain.map((e) => (
+              <span key={e} className="pb-square-mapping">
+                {e} ↦
+                <select value={answer[e] ?? ''} onChange={(ev) => setAnswer({ ...answer, [e]: ev.target.value })}>
+                  <option value="" disabled>?</option>
+                  {answerCodomain.map((v) => <option key={v} value={v}>{v}</option>)}
+                </select>
+              </span>
+            ))}
+            {answerDomain.length === 0 && <span className="pb-elements-note">nothing to choose: the empty function</span>}
+          </div>
+          {!answered ? (
+            <div className="pb-elements-note">Choose u({isProduct ? 'x' : 'e'}) for every element, so that every triangle commutes.</div>
+          ) : triangleFailures.length > 0 ? (
+            <div>
+              A triangle does not commute:
+              {triangleFailures.slice(0, 4).map((f, k) => <div key={k} className="pb-square-error">{f}</div>)}
+              {triangleFailures.length > 4 && <div className="pb-elements-note">…and {triangleFailures.length - 4} more</div>}
+            </div>
+          ) : secondMap ? (
+            <div>
+              Every triangle commutes, but so does a <strong>second</strong> map u′ into {candidateLabel}:
+              <div className="pb-elements-induced">
+                {answerDomain.map((e) => (
+                  <div key={e} className={e === ambiguous ? 'pb-challenge-diff' : ''}>
+                    u′({e}) = {secondMap[e]}{e === ambiguous && `, not ${answer[e]}`}
+                  </div>
+                ))}
+              </div>
+              <div className="pb-elements-note">
+                Mediating maps are not unique, so {candidateLabel} is not the {isProduct ? 'product' : 'coproduct'}.
+              </div>
+            </div>
+          ) : (
+            <div className="pb-challenge-success">
+              ✓ Every triangle commutes, and u is the only map that does: each {isProduct ? `u(x) is the one element of ${candidateLabel} with the right projections` : `element of ${candidateLabel} comes from exactly one injection, which fixes u on it`}.
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className={`pb-info ${isLimitSide ? 'product-info' : 'coproduct-info'}`}>
         <h4>
           <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
             <circle cx="12" cy="12" r="10" />
             <line x1="12" y1="16" x2="12" y2="12" />
             <line x1="12" y1="8" x2="12.01" y2="8" />
           </svg>
-          {isProduct ? 'Product' : 'Coproduct'} Universal Property
+          {{ product: 'Product', coproduct: 'Coproduct', pullback: 'Pullback', pushout: 'Pushout' }[constructionType]} Universal Property
         </h4>
-        {isProduct ? (
+        {isPullback && (
+          <>
+            <p>
+              The <strong>pullback</strong> of f: A→C and g: B→C is P = A×_C B with
+              π₁: P→A and π₂: P→B such that f∘π₁ = g∘π₂.
+            </p>
+            <p>
+              <strong>Universal property:</strong> For any object X with p: X→A and
+              q: X→B such that f∘p = g∘q, there exists a <em>unique</em> ⟨p,q⟩: X→P
+              with π₁∘⟨p,q⟩ = p and π₂∘⟨p,q⟩ = q.
+            </p>
+          </>
+        )}
+        {constructionType === 'pushout' && (
+          <>
+            <p>
+              The <strong>pushout</strong> of f: C→A and g: C→B is P = A+_C B with
+              ι₁: A→P and ι₂: B→P such that ι₁∘f = ι₂∘g.
+            </p>
+            <p>
+              <strong>Universal property:</strong> For any object X with p: A→X and
+              q: B→X such that p∘f = q∘g, there exists a <em>unique</em> [p,q]: P→X
+              with [p,q]∘ι₁ = p and [p,q]∘ι₂ = q.
+            </p>
+          </>
+        )}
+        {!isSquare && (isProduct ? (
           <>
             <p>
               The <strong>product</strong> A×B comes with projections π₁: A×B→A
@@ -423,6 +1012,15 @@ export default function ProductBuilder() {
               [f,g]∘ι₁ = f and [f,g]∘ι₂ = g.
             </p>
           </>
+        ))}
+        {!isSquare && factors.length !== 2 && (
+          <p>
+            {factors.length === 0
+              ? isProduct
+                ? <>With <strong>no factors</strong> there are no maps to give, so every X has a <em>unique</em> map ! into the empty product: it is the <strong>terminal object</strong> 1.</>
+                : <>With <strong>no factors</strong> there are no maps to give, so every X has a <em>unique</em> map ! out of the empty coproduct: it is the <strong>initial object</strong> 0.</>
+              : <>The same holds for any number of factors: one map per factor induces a <em>unique</em> {inducedLabel(factors, isProduct)} {isProduct ? `into ${productLabel}` : `out of ${productLabel}`}.</>}
+          </p>
         )}
       </div>
 
@@ -434,18 +1032,33 @@ export default function ProductBuilder() {
           </svg>
           In Programming
         </h4>
-        <div className="example-grid">
-          <div className={`example-item ${isProduct ? 'highlight' : ''}`}>
-            <strong>Product:</strong>
-            <code>Tuple&lt;A, B&gt;</code>
-            <span className="example-note">Access both components</span>
+        {isSquare ? (
+          <div className="example-grid">
+            <div className={`example-item ${isPullback ? 'highlight' : ''}`}>
+              <strong>Pullback:</strong>
+              <code>A JOIN B ON f(a) = g(b)</code>
+              <span className="example-note">Pairs that agree on a key</span>
+            </div>
+            <div className={`example-item ${!isPullback ? 'highlight' : ''}`}>
+              <strong>Pushout:</strong>
+              <code>merge(A, B) along C</code>
+              <span className="example-note">Union with a shared part identified</span>
+            </div>
           </div>
-          <div className={`example-item ${!isProduct ? 'highlight' : ''}`}>
-            <strong>Coproduct:</strong>
-            <code>Either&lt;A, B&gt;</code>
-            <span className="example-note">One or the other</span>
+        ) : (
+          <div className="example-grid">
+            <div className={`example-item ${isProduct ? 'highlight' : ''}`}>
+              <strong>Product:</strong>
+              <code>Tuple&lt;A, B&gt;</code>
+              <span className="example-note">Access both components</span>
+            </div>
+            <div className={`example-item ${!isProduct ? 'highlight' : ''}`}>
+              <strong>Coproduct:</strong>
+              <code>Either&lt;A, B&gt;</code>
+              <span className="example-note">One or the other</span>
+            </div>
           </div>
-        </div>
+        )}
       </div>
     </div>
   );
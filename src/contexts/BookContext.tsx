@@ -9,6 +9,7 @@ interface BookState {
   enhancementPanelOpen: boolean;
   enhancementPanelFullscreen: boolean;
   activeTab: 'examples' | 'simulator' | 'applications' | 'learning';
+  simulatorExample: string | null; // example opened as a concrete instance in the simulator
 }
 
 type BookAction =
@@ -22,7 +23,8 @@ type BookAction =
   | { type: 'TOGGLE_SIDEBAR' }
   | { type: 'TOGGLE_ENHANCEMENT_PANEL' }
   | { type: 'TOGGLE_ENHANCEMENT_PANEL_FULLSCREEN' }
-  | { type: 'SET_ACTIVE_TAB'; payload: BookState['activeTab'] };
+  | { type: 'SET_ACTIVE_TAB'; payload: BookState['activeTab'] }
+  | { type: 'OPEN_EXAMPLE_IN_SIMULATOR'; payload: string };
 
 const initialState: BookState = {
   currentPage: 1,
@@ -32,6 +34,7 @@ const initialState: BookState = {
   enhancementPanelOpen: true,
   enhancementPanelFullscreen: false,
   activeTab: 'examples',
+  simulatorExample: null,
 };
 
 function bookReducer(state: BookState, action: BookAction): BookState {
@@ -91,6 +94,12 @@ function bookReducer(state: BookState, action: BookAction): BookState {
         ...state,
         activeTab: action.payload,
       };
+    case 'OPEN_EXAMPLE_IN_SIMULATOR':
+      return {
+        ...state,
+        activeTab: 'simulator',
+        simulatorExample: action.payload,
+      };
     default:
       return state;
   }
@@ -111,6 +120,7 @@ interface BookContextValue extends BookState {
   toggleEnhancementPanel: () => void;
   toggleEnhancementPanelFullscreen: () => void;
   setActiveTab: (tab: BookState['activeTab']) => void;
+  openExampleInSimulator: (exampleId: string) => void;
   // Derived state
   currentChapter: ReturnType<typeof getChapterByPage>;
   currentSection: ReturnType<typeof getSectionByPage>;
@@ -165,6 +175,10 @@ export function BookProvider({ children }: { children: ReactNode }) {
     dispatch({ type: 'SET_ACTIVE_TAB', payload: tab });
   }, []);
 
+  const openExampleInSimulator = useCallback((exampleId: string) => {
+    dispatch({ type: 'OPEN_EXAMPLE_IN_SIMULATOR', payload: exampleId });
+  }, []);
+
   const currentChapter = getChapterByPage(state.currentPage);
   const currentSection = getSectionByPage(state.currentPage);
 
@@ -181,6 +195,7 @@ export function BookProvider({ children }: { children: ReactNode }) {
     toggleEnhancementPanel,
     toggleEnhancementPanelFullscreen,
     setActiveTab,
+    openExampleInSimulator,
     currentChapter,
     currentSection,
   };
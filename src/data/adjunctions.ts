@@ -0,0 +1,103 @@
+/**
+ * Pairs of functors F: C → D, G: D → C for the Adjunction Explorer
+ */
+
+import { CategoryDefinition } from '../utils/categoryTypes';
+import { FunctorMap } from '../utils/functorEngine';
+import { chain, monotoneFunctor, posetCategory } from '../utils/posets';
+import { cyclicTwo } from './smallCategories';
+
+export interface AdjunctionPreset {
+  id: string;
+  name: string;
+  description: string;
+  exampleIds: string[]; // examples in examples.ts this preset makes concrete
+  C: CategoryDefinition;
+  D: CategoryDefinition;
+  F: FunctorMap; // candidate left adjoint C → D
+  G: FunctorMap; // candidate right adjoint D → C
+}
+
+const halves = chain('halves', 'Halves 0…2', ['0', '½', '1', '1½', '2']);
+const integers = chain('integers', 'Integers 0…2', ['0', '1', '2']);
+const one = chain('ordinal-1', '1', ['*']);
+const three = chain('ordinal-3', '3', ['0', '1', '2']);
+
+const ceiling = { '0': '0', '½': '1', '1': '1', '1½': '2', '2': '2' };
+const floor = { '0': '0', '½': '0', '1': '1', '1½': '1', '2': '2' };
+const inclusion = { '0': '0', '1': '1', '2': '2' };
+
+export const ceilingInclusion: AdjunctionPreset = {
+  id: 'ceiling-inclusion',
+  name: '⌈-⌉ ⊣ inclusion',
+  description: '⌈x⌉ ≤ n ⟺ x ≤ n: rounding up is the best integer approximation from above',
+  exampleIds: ['adjunction-equiv-defs'],
+  C: posetCategory(halves),
+  D: posetCategory(integers),
+  F: monotoneFunctor(halves, ceiling),
+  G: monotoneFunctor(integers, inclusion),
+};
+
+export const inclusionFloor: AdjunctionPreset = {
+  id: 'inclusion-floor',
+  name: 'inclusion ⊣ ⌊-⌋',
+  description: 'n ≤ x ⟺ n ≤ ⌊x⌋: rounding down is a right adjoint',
+  exampleIds: [],
+  C: posetCategory(integers),
+  D: posetCategory(halves),
+  F: monotoneFunctor(integers, inclusion),
+  G: monotoneFunctor(halves, floor),
+};
+
+export const floorInclusion: AdjunctionPreset = {
+  id: 'floor-inclusion',
+  name: '⌊-⌋ ⊣ inclusion?',
+  description: 'The wrong way round: ⌊½⌋ ≤ 0 but ½ ≰ 0, so there is no unit at ½',
+  exampleIds: [],
+  C: posetCategory(halves),
+  D: posetCategory(integers),
+  F: monotoneFunctor(halves, floor),
+  G: monotoneFunctor(integers, inclusion),
+};
+
+export const initialObject: AdjunctionPreset = {
+  id: 'initial-object',
+  name: 'const 0 ⊣ !',
+  description: 'A left adjoint to ! : D → 1 picks out an initial object of D',
+  exampleIds: [],
+  C: posetCategory(one),
+  D: posetCategory(three),
+  F: monotoneFunctor(one, { '*': '0' }),
+  G: monotoneFunctor(three, { '0': '*', '1': '*', '2': '*' }),
+};
+
+export const terminalObject: AdjunctionPreset = {
+  id: 'terminal-object',
+  name: '! ⊣ const 2',
+  description: 'A right adjoint to ! : C → 1 picks out a terminal object of C',
+  exampleIds: [],
+  C: posetCategory(three),
+  D: posetCategory(one),
+  F: monotoneFunctor(three, { '0': '*', '1': '*', '2': '*' }),
+  G: monotoneFunctor(one, { '*': '2' }),
+};
+
+export const groupIdentity: AdjunctionPreset = {
+  id: 'z2-identity',
+  name: 'id ⊣ id on ℤ/2',
+  description: 'Both η and ε can be id or s; only the pairs with ε∘η = id pass the triangle identities',
+  exampleIds: [],
+  C: cyclicTwo,
+  D: cyclicTwo,
+  F: { objectMap: { '*': '*' }, morphismMap: { s: 's' } },
+  G: { objectMap: { '*': '*' }, morphismMap: { s: 's' } },
+};
+
+export const adjunctionPresets: AdjunctionPreset[] = [
+  ceilingInclusion,
+  inclusionFloor,
+  floorInclusion,
+  initialObject,
+  terminalObject,
+  groupIdentity,
+];
@@ -0,0 +1,219 @@
+/**
+ * Example diagrams for the Diagram Chaser
+ *
+ * Each diagram is a graph plus the equations it asserts. Whether the whole
+ * diagram commutes is for the chaser to work out.
+ */
+
+import { Diagram } from '../utils/diagramChase';
+import { GraphPath } from '../utils/freeCategory';
+import { tabulate } from '../utils/finiteSets';
+
+// Path from `source` through the given arrows, in order of application
+const path = (source: string, ...arrows: string[]): GraphPath => ({ source, arrows });
+
+export const commutativeSquare: Diagram = {
+  id: 'commutative-square',
+  name: 'Commutative square in Set',
+  description: 'Add one then double, or double then add two: h∘f = k∘g on every element',
+  graph: {
+    id: 'commutative-square',
+    name: 'Square',
+    objects: [
+      { id: 'A', label: 'A', x: 0, y: 0 },
+      { id: 'B', label: 'B', x: 100, y: 0 },
+      { id: 'C', label: 'C', x: 0, y: 70 },
+      { id: 'D', label: 'D', x: 100, y: 70 },
+    ],
+    morphisms: [
+      { id: 'f', label: 'f', source: 'A', target: 'B' },
+      { id: 'g', label: 'g', source: 'A', target: 'C' },
+      { id: 'h', label: 'h', source: 'B', target: 'D' },
+      { id: 'k', label: 'k', source: 'C', target: 'D' },
+    ],
+  },
+  equations: [{ lhs: path('A', 'f', 'h'), rhs: path('A', 'g', 'k') }],
+  interpretation: {
+    sets: { A: ['0', '1', '2'], B: ['1', '2', '3'], C: ['0', '2', '4'], D: ['2', '4', '6'] },
+    functions: {
+      f: tabulate(['0', '1', '2'], (x) => String(Number(x) + 1)),
+      g: tabulate(['0', '1', '2'], (x) => String(Number(x) * 2)),
+      h: tabulate(['1', '2', '3'], (x) => String(Number(x) * 2)),
+      k: tabulate(['0', '2', '4'], (x) => String(Number(x) + 2)),
+    },
+  },
+};
+
+export const twoTriangles: Diagram = {
+  id: 'two-triangles',
+  name: 'Two triangles and a diagonal',
+  description: 'Three triangles are asserted to commute; the fourth, m∘f = n, has to be derived',
+  graph: {
+    id: 'two-triangles',
+    name: 'Triangles',
+    objects: [
+      { id: 'A', label: 'A', x: 0, y: 70 },
+      { id: 'B', label: 'B', x: 50, y: 0 },
+      { id: 'C', label: 'C', x: 100, y: 70 },
+      { id: 'D', label: 'D', x: 150, y: 0 },
+    ],
+    morphisms: [
+      { id: 'f', label: 'f', source: 'A', target: 'B' },
+      { id: 'g', label: 'g', source: 'B', target: 'C' },
+      { id: 'h', label: 'h', source: 'C', target: 'D' },
+      { id: 'k', label: 'k', source: 'A', target: 'C' },
+      { id: 'm', label: 'm', source: 'B', target: 'D' },
+      { id: 'n', label: 'n', source: 'A', target: 'D' },
+    ],
+  },
+  equations: [
+    { lhs: path('A', 'f', 'g'), rhs: path('A', 'k') },
+    { lhs: path('B', 'g', 'h'), rhs: path('B', 'm') },
+    { lhs: path('A', 'k', 'h'), rhs: path('A', 'n') },
+  ],
+};
+
+export const pastedSquares: Diagram = {
+  id: 'pasted-squares',
+  name: 'Pasting two squares',
+  description: 'If both inner squares commute, so does the outer rectangle',
+  graph: {
+    id: 'pasted-squares',
+    name: 'Pasting',
+    objects: [
+      { id: 'A', label: 'A', x: 0, y: 0 },
+      { id: 'B', label: 'B', x: 80, y: 0 },
+      { id: 'C', label: 'C', x: 160, y: 0 },
+      { id: 'D', label: 'D', x: 0, y: 70 },
+      { id: 'E', label: 'E', x: 80, y: 70 },
+      { id: 'F', label: 'F', x: 160, y: 70 },
+    ],
+    morphisms: [
+      { id: 'f', label: 'f', source: 'A', target: 'B' },
+      { id: 'g', label: 'g', source: 'B', target: 'C' },
+      { id: 'f2', label: "f'", source: 'D', target: 'E' },
+      { id: 'g2', label: "g'", source: 'E', target: 'F' },
+      { id: 'u', label: 'u', source: 'A', target: 'D' },
+      { id: 'v', label: 'v', source: 'B', target: 'E' },
+      { id: 'w', label: 'w', source: 'C', target: 'F' },
+    ],
+  },
+  equations: [
+    { lhs: path('A', 'f', 'v'), rhs: path('A', 'u', 'f2') },
+    { lhs: path('B', 'g', 'w'), rhs: path('B', 'v', 'g2') },
+  ],
+};
+
+export const inverseArrows: Diagram = {
+  id: 'inverse-arrows',
+  name: 'An isomorphism',
+  description: 'g∘f = id_A and f∘g = id_B: every loop cancels down',
+  graph: {
+    id: 'inverse-arrows',
+    name: 'Isomorphism',
+    objects: [
+      { id: 'A', label: 'A', x: 0, y: 0 },
+      { id: 'B', label: 'B', x: 100, y: 0 },
+    ],
+    morphisms: [
+      { id: 'f', label: 'f', source: 'A', target: 'B' },
+      { id: 'g', label: 'g', source: 'B', target: 'A' },
+    ],
+  },
+  equations: [
+    { lhs: path('A', 'f', 'g'), rhs: path('A') },
+    { lhs: path('B', 'g', 'f'), rhs: path('B') },
+  ],
+};
+
+export const cancelledPair: Diagram = {
+  id: 'cancelled-pair',
+  name: 'Parallel pair (does not commute)',
+  description: 'h∘f = h∘g holds, but nothing says f = g: h need not be a monomorphism',
+  graph: {
+    id: 'cancelled-pair',
+    name: 'Parallel pair',
+    objects: [
+      { id: 'A', label: 'A', x: 0, y: 0 },
+      { id: 'B', label: 'B', x: 100, y: 0 },
+      { id: 'C', label: 'C', x: 200, y: 0 },
+    ],
+    morphisms: [
+      { id: 'f', label: 'f', source: 'A', target: 'B' },
+      { id: 'g', label: 'g', source: 'A', target: 'B' },
+      { id: 'h', label: 'h', source: 'B', target: 'C' },
+    ],
+  },
+  equations: [{ lhs: path('A', 'f', 'h'), rhs: path('A', 'g', 'h') }],
+  interpretation: {
+    sets: { A: ['1', '2'], B: ['1', '2', '3', '4'], C: ['even', 'odd'] },
+    functions: {
+      f: tabulate(['1', '2'], (x) => x),
+      g: tabulate(['1', '2'], (x) => String(Number(x) + 2)),
+      h: tabulate(['1', '2', '3', '4'], (x) => (Number(x) % 2 === 0 ? 'even' : 'odd')),
+    },
+  },
+};
+
+export const parityCospan: Diagram = {
+  id: 'parity-cospan',
+  name: 'Cospan in Set (pullback)',
+  description: 'Numbers and letters, both sent to their parity: the limit pairs up elements of equal parity',
+  graph: {
+    id: 'parity-cospan',
+    name: 'Cospan',
+    objects: [
+      { id: 'A', label: 'A', x: 0, y: 0 },
+      { id: 'B', label: 'B', x: 160, y: 0 },
+      { id: 'C', label: 'C', x: 80, y: 70 },
+    ],
+    morphisms: [
+      { id: 'f', label: 'f', source: 'A', target: 'C' },
+      { id: 'g', label: 'g', source: 'B', target: 'C' },
+    ],
+  },
+  equations: [],
+  interpretation: {
+    sets: { A: ['1', '2', '3', '4'], B: ['a', 'b', 'c'], C: ['even', 'odd'] },
+    functions: {
+      f: tabulate(['1', '2', '3', '4'], (x) => (Number(x) % 2 === 0 ? 'even' : 'odd')),
+      g: { a: 'even', b: 'odd', c: 'odd' },
+    },
+  },
+};
+
+export const parallelFunctions: Diagram = {
+  id: 'parallel-functions',
+  name: 'Parallel functions in Set (equaliser)',
+  description: 'f(x) = x and g(x) = x² mod 4 agree exactly on 0 and 1',
+  graph: {
+    id: 'parallel-functions',
+    name: 'Parallel functions',
+    objects: [
+      { id: 'A', label: 'A', x: 0, y: 0 },
+      { id: 'B', label: 'B', x: 120, y: 0 },
+    ],
+    morphisms: [
+      { id: 'f', label: 'f', source: 'A', target: 'B' },
+      { id: 'g', label: 'g', source: 'A', target: 'B' },
+    ],
+  },
+  equations: [],
+  interpretation: {
+    sets: { A: ['0', '1', '2', '3'], B: ['0', '1', '2', '3'] },
+    functions: {
+      f: tabulate(['0', '1', '2', '3'], (x) => x),
+      g: tabulate(['0', '1', '2', '3'], (x) => String((Number(x) * Number(x)) % 4)),
+    },
+  },
+};
+
+export const exampleDiagrams: Diagram[] = [
+  commutativeSquare,
+  twoTriangles,
+  pastedSquares,
+  inverseArrows,
+  cancelledPair,
+  parityCospan,
+  parallelFunctions,
+];
@@ -0,0 +1,222 @@
+/**
+ * Constructions and their duals for the Duality Translator
+ *
+ * Each preset is the diagram of a construction in C with the statement of
+ * its universal property. The dual diagram is the same one read in C^op,
+ * and the dual statement comes from the term dictionary below.
+ */
+
+import { Category } from '../utils/categoryTypes';
+
+export interface DualityPreset {
+  id: string;
+  name: string;
+  exampleIds: string[]; // examples in examples.ts this preset makes concrete
+  statement: string; // in C; the translator produces the dual
+  diagram: Category; // object coordinates give the layout of both panes
+  constructed: string[]; // object IDs the construction produces
+  universal: string[]; // morphism IDs of the unique factorisations, drawn dashed
+  dualLabels: Record<string, string>; // morphism IDs renamed in the dual pane
+}
+
+// Concepts and their duals; longer phrases take priority when translating
+export const dualTerms: [string, string][] = [
+  ['product', 'coproduct'],
+  ['products', 'coproducts'],
+  ['projection', 'injection'],
+  ['projections', 'injections'],
+  ['π₁', 'ι₁'],
+  ['π₂', 'ι₂'],
+  ['a monomorphism', 'an epimorphism'],
+  ['monomorphism', 'epimorphism'],
+  ['monomorphisms', 'epimorphisms'],
+  ['mono', 'epi'],
+  ['monos', 'epis'],
+  ['monic', 'epic'],
+  ['split mono', 'split epi'],
+  ['retraction', 'section'],
+  ['left inverse', 'right inverse'],
+  ['left-cancellable', 'right-cancellable'],
+  ['an initial', 'a terminal'],
+  ['initial', 'terminal'],
+  ['an equaliser', 'a coequaliser'],
+  ['equaliser', 'coequaliser'],
+  ['equalisers', 'coequalisers'],
+  ['an equalizer', 'a coequalizer'],
+  ['equalizer', 'coequalizer'],
+  ['limit', 'colimit'],
+  ['limits', 'colimits'],
+  ['cone', 'cocone'],
+  ['cones', 'cocones'],
+  ['pullback', 'pushout'],
+  ['kernel', 'cokernel'],
+  ['domain', 'codomain'],
+  ['source', 'target'],
+  ['𝒞', '𝒞ᵒᵖ'],
+];
+
+export const composition: DualityPreset = {
+  id: 'composition',
+  name: 'Composition',
+  exampleIds: ['opposite-category'],
+  statement: 'In 𝒞, f: A → B and g: B → C compose to g∘f: A → C, and h∘(g∘f) = (h∘g)∘f.',
+  diagram: {
+    id: 'composition',
+    name: 'Composable pair',
+    objects: [
+      { id: 'A', label: 'A', x: 0, y: 60 },
+      { id: 'B', label: 'B', x: 60, y: 0 },
+      { id: 'C', label: 'C', x: 120, y: 60 },
+    ],
+    morphisms: [
+      { id: 'f', label: 'f', source: 'A', target: 'B' },
+      { id: 'g', label: 'g', source: 'B', target: 'C' },
+      { id: 'gf', label: 'g∘f', source: 'A', target: 'C' },
+    ],
+  },
+  constructed: [],
+  universal: [],
+  dualLabels: { f: 'fᵒᵖ', g: 'gᵒᵖ', gf: 'fᵒᵖ∘gᵒᵖ' },
+};
+
+export const product: DualityPreset = {
+  id: 'product',
+  name: 'Product',
+  exampleIds: ['dual-concepts'],
+  statement: 'A product of A and B is an object P with projections π₁: P → A and π₂: P → B such that for every X with f: X → A and g: X → B there is a unique u: X → P with π₁∘u = f and π₂∘u = g.',
+  diagram: {
+    id: 'product',
+    name: 'Product',
+    objects: [
+      { id: 'X', label: 'X', x: 60, y: 0 },
+      { id: 'P', label: 'P', x: 60, y: 60 },
+      { id: 'A', label: 'A', x: 0, y: 100 },
+      { id: 'B', label: 'B', x: 120, y: 100 },
+    ],
+    morphisms: [
+      { id: 'p1', label: 'π₁', source: 'P', target: 'A' },
+      { id: 'p2', label: 'π₂', source: 'P', target: 'B' },
+      { id: 'f', label: 'f', source: 'X', target: 'A' },
+      { id: 'g', label: 'g', source: 'X', target: 'B' },
+      { id: 'u', label: 'u', source: 'X', target: 'P' },
+    ],
+  },
+  constructed: ['P'],
+  universal: ['u'],
+  dualLabels: { p1: 'ι₁', p2: 'ι₂' },
+};
+
+export const monomorphism: DualityPreset = {
+  id: 'mono',
+  name: 'Monomorphism',
+  exampleIds: ['duality-principle'],
+  statement: 'f: A → B is a monomorphism when, for every pair g, h: X → A, f∘g = f∘h implies g = h.',
+  diagram: {
+    id: 'mono',
+    name: 'Mono',
+    objects: [
+      { id: 'X', label: 'X', x: 0, y: 30 },
+      { id: 'A', label: 'A', x: 70, y: 30 },
+      { id: 'B', label: 'B', x: 140, y: 30 },
+    ],
+    morphisms: [
+      { id: 'g', label: 'g', source: 'X', target: 'A' },
+      { id: 'h', label: 'h', source: 'X', target: 'A' },
+      { id: 'f', label: 'f', source: 'A', target: 'B' },
+    ],
+  },
+  constructed: [],
+  universal: [],
+  dualLabels: {},
+};
+
+export const initialObject: DualityPreset = {
+  id: 'initial',
+  name: 'Initial object',
+  exampleIds: [],
+  statement: 'I is initial when for every object X there is exactly one arrow !: I → X.',
+  diagram: {
+    id: 'initial',
+    name: 'Initial object',
+    objects: [
+      { id: 'I', label: 'I', x: 60, y: 50 },
+      { id: 'X', label: 'X', x: 0, y: 0 },
+      { id: 'Y', label: 'Y', x: 120, y: 0 },
+      { id: 'Z', label: 'Z', x: 60, y: 110 },
+    ],
+    morphisms: [
+      { id: 'x', label: '!', source: 'I', target: 'X' },
+      { id: 'y', label: '!', source: 'I', target: 'Y' },
+      { id: 'z', label: '!', source: 'I', target: 'Z' },
+    ],
+  },
+  constructed: ['I'],
+  universal: ['x', 'y', 'z'],
+  dualLabels: {},
+};
+
+export const equaliser: DualityPreset = {
+  id: 'equaliser',
+  name: 'Equaliser',
+  exampleIds: [],
+  statement: 'An equaliser of f, g: A → B is e: E → A with f∘e = g∘e such that every x: X → A with f∘x = g∘x factors as x = e∘u for a unique u: X → E.',
+  diagram: {
+    id: 'equaliser',
+    name: 'Equaliser',
+    objects: [
+      { id: 'E', label: 'E', x: 0, y: 0 },
+      { id: 'A', label: 'A', x: 70, y: 0 },
+      { id: 'B', label: 'B', x: 140, y: 0 },
+      { id: 'X', label: 'X', x: 0, y: 70 },
+    ],
+    morphisms: [
+      { id: 'e', label: 'e', source: 'E', target: 'A' },
+      { id: 'f', label: 'f', source: 'A', target: 'B' },
+      { id: 'g', label: 'g', source: 'A', target: 'B' },
+      { id: 'x', label: 'x', source: 'X', target: 'A' },
+      { id: 'u', label: 'u', source: 'X', target: 'E' },
+    ],
+  },
+  constructed: ['E'],
+  universal: ['u'],
+  dualLabels: {},
+};
+
+export const limit: DualityPreset = {
+  id: 'limit',
+  name: 'Limit',
+  exampleIds: [],
+  statement: 'A limit of a diagram a: A → C, b: B → C is a cone λ_A: L → A, λ_B: L → B with a∘λ_A = b∘λ_B such that every cone c_A: X → A, c_B: X → B factors through it by a unique u: X → L.',
+  diagram: {
+    id: 'limit',
+    name: 'Limit of a cospan',
+    objects: [
+      { id: 'X', label: 'X', x: 0, y: 0 },
+      { id: 'L', label: 'L', x: 40, y: 40 },
+      { id: 'A', label: 'A', x: 130, y: 40 },
+      { id: 'B', label: 'B', x: 40, y: 120 },
+      { id: 'C', label: 'C', x: 130, y: 120 },
+    ],
+    morphisms: [
+      { id: 'a', label: 'a', source: 'A', target: 'C' },
+      { id: 'b', label: 'b', source: 'B', target: 'C' },
+      { id: 'lA', label: 'λ_A', source: 'L', target: 'A' },
+      { id: 'lB', label: 'λ_B', source: 'L', target: 'B' },
+      { id: 'cA', label: 'c_A', source: 'X', target: 'A' },
+      { id: 'cB', label: 'c_B', source: 'X', target: 'B' },
+      { id: 'u', label: 'u', source: 'X', target: 'L' },
+    ],
+  },
+  constructed: ['L'],
+  universal: ['u'],
+  dualLabels: {},
+};
+
+export const dualityPresets: DualityPreset[] = [
+  composition,
+  product,
+  monomorphism,
+  initialObject,
+  equaliser,
+  limit,
+];
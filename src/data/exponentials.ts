@@ -0,0 +1,45 @@
+/**
+ * Starting data for the Exponential Builder: sets A, B and a test object X
+ * with a function h: X × A → B to curry
+ */
+
+import { FunctionTable, tupleLabel } from '../utils/finiteSets';
+
+export interface ExponentialPreset {
+  id: string;
+  name: string;
+  description: string;
+  exampleIds: string[]; // examples in examples.ts this preset makes concrete
+  A: string[];
+  B: string[];
+  X: string[];
+  h: FunctionTable; // keyed by the pair label "(x, a)"
+}
+
+// Table of h on X × A, keyed the way the builder looks pairs up
+const pairTable = (X: string[], A: string[], h: (x: string, a: string) => string): FunctionTable =>
+  Object.fromEntries(X.flatMap((x) => A.map((a) => [tupleLabel([x, a]), h(x, a)])));
+
+export const booleanFunctions: ExponentialPreset = {
+  id: 'boolean-functions',
+  name: 'Functions on booleans',
+  description: 'B^A for A = B = {F, T} has four elements; curried AND sends F to the constant F and T to the identity',
+  exampleIds: ['exponential-object'],
+  A: ['F', 'T'],
+  B: ['F', 'T'],
+  X: ['F', 'T'],
+  h: pairTable(['F', 'T'], ['F', 'T'], (x, a) => (x === 'T' && a === 'T' ? 'T' : 'F')),
+};
+
+export const curriedAddition: ExponentialPreset = {
+  id: 'curried-addition',
+  name: 'Curried addition',
+  description: 'add: X × A → B with add(x, a) = x + a, curried to x ↦ (a ↦ x + a)',
+  exampleIds: ['curry-adjunction'],
+  A: ['0', '1'],
+  B: ['0', '1', '2'],
+  X: ['0', '1'],
+  h: pairTable(['0', '1'], ['0', '1'], (x, a) => String(Number(x) + Number(a))),
+};
+
+export const exponentialPresets: ExponentialPreset[] = [booleanFunctions, curriedAddition];
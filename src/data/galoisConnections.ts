@@ -0,0 +1,130 @@
+/**
+ * Pairs of finite posets with monotone maps for the Galois Playground
+ */
+
+import { MonotoneMap } from '../utils/galois';
+import { chain, Poset } from '../utils/posets';
+
+export interface GaloisPreset {
+  id: string;
+  name: string;
+  description: string;
+  exampleIds: string[]; // examples in examples.ts this preset makes concrete
+  P: Poset;
+  Q: Poset;
+  f: MonotoneMap; // P → Q, the candidate left adjoint
+  g?: MonotoneMap; // Q → P; left out, the playground computes it from f
+}
+
+const halves = chain('halves', 'Halves 0…2', ['0', '½', '1', '1½', '2']);
+const integers = chain('integers', 'Integers 0…2', ['0', '1', '2']);
+
+// Subsets of {−, 0, +} and the sign lattice they are abstracted to
+const signSets: Poset = {
+  id: 'sign-sets',
+  name: 'Sets of signs',
+  elements: ['∅', '{−}', '{0}', '{+}', '{−,0}', '{−,+}', '{0,+}', '{−,0,+}'],
+  covers: [
+    ['∅', '{−}'], ['∅', '{0}'], ['∅', '{+}'],
+    ['{−}', '{−,0}'], ['{−}', '{−,+}'], ['{0}', '{−,0}'],
+    ['{0}', '{0,+}'], ['{+}', '{−,+}'], ['{+}', '{0,+}'],
+    ['{−,0}', '{−,0,+}'], ['{−,+}', '{−,0,+}'], ['{0,+}', '{−,0,+}'],
+  ],
+};
+
+const signs: Poset = {
+  id: 'signs',
+  name: 'Signs',
+  elements: ['⊥', 'neg', 'zero', 'pos', '⊤'],
+  covers: [['⊥', 'neg'], ['⊥', 'zero'], ['⊥', 'pos'], ['neg', '⊤'], ['zero', '⊤'], ['pos', '⊤']],
+};
+
+// Subsets of {1, 2, 3} and of {a, b}, for image and preimage along 1, 2 ↦ a, 3 ↦ b
+const subsetsOfThree: Poset = {
+  id: 'subsets-3',
+  name: 'P({1,2,3})',
+  elements: ['∅', '1', '2', '3', '12', '13', '23', '123'],
+  covers: [
+    ['∅', '1'], ['∅', '2'], ['∅', '3'],
+    ['1', '12'], ['1', '13'], ['2', '12'], ['2', '23'], ['3', '13'], ['3', '23'],
+    ['12', '123'], ['13', '123'], ['23', '123'],
+  ],
+};
+
+const subsetsOfTwo: Poset = {
+  id: 'subsets-2',
+  name: 'P({a,b})',
+  elements: ['∅', 'a', 'b', 'ab'],
+  covers: [['∅', 'a'], ['∅', 'b'], ['a', 'ab'], ['b', 'ab']],
+};
+
+const diamond: Poset = {
+  id: 'diamond',
+  name: 'Diamond',
+  elements: ['⊥', 'l', 'r', '⊤'],
+  covers: [['⊥', 'l'], ['⊥', 'r'], ['l', '⊤'], ['r', '⊤']],
+};
+
+export const ceilingInclusion: GaloisPreset = {
+  id: 'ceiling-inclusion',
+  name: '⌈-⌉ ⊣ inclusion',
+  description: '⌈x⌉ ≤ n ⟺ x ≤ n. The closure rounds every x up to an integer',
+  exampleIds: ['galois-connection'],
+  P: halves,
+  Q: integers,
+  f: { '0': '0', '½': '1', '1': '1', '1½': '2', '2': '2' },
+  g: { '0': '0', '1': '1', '2': '2' },
+};
+
+export const floorInclusion: GaloisPreset = {
+  id: 'floor-inclusion',
+  name: '⌊-⌋ and inclusion',
+  description: 'Rounding down is not left adjoint to the inclusion: ⌊½⌋ ≤ 0 but ½ ≰ 0. Compute its real right adjoint instead',
+  exampleIds: [],
+  P: halves,
+  Q: integers,
+  f: { '0': '0', '½': '0', '1': '1', '1½': '1', '2': '2' },
+  g: { '0': '0', '1': '1', '2': '2' },
+};
+
+export const signAbstraction: GaloisPreset = {
+  id: 'sign-abstraction',
+  name: 'Sign abstraction',
+  description: 'Abstract interpretation: abstract(S) ⊑ a ⟺ S ⊆ concretize(a). The closure adds every value the abstraction cannot rule out',
+  exampleIds: [],
+  P: signSets,
+  Q: signs,
+  f: {
+    '∅': '⊥', '{−}': 'neg', '{0}': 'zero', '{+}': 'pos',
+    '{−,0}': '⊤', '{−,+}': '⊤', '{0,+}': '⊤', '{−,0,+}': '⊤',
+  },
+  g: { '⊥': '∅', neg: '{−}', zero: '{0}', pos: '{+}', '⊤': '{−,0,+}' },
+};
+
+export const imagePreimage: GaloisPreset = {
+  id: 'image-preimage',
+  name: 'Image ⊣ preimage',
+  description: 'For p: 1, 2 ↦ a, 3 ↦ b, taking images is left adjoint to taking preimages: p(S) ⊆ T ⟺ S ⊆ p⁻¹(T)',
+  exampleIds: ['poset-category'],
+  P: subsetsOfThree,
+  Q: subsetsOfTwo,
+  f: { '∅': '∅', '1': 'a', '2': 'a', '3': 'b', '12': 'a', '13': 'ab', '23': 'ab', '123': 'ab' },
+};
+
+export const noRightAdjoint: GaloisPreset = {
+  id: 'no-right-adjoint',
+  name: 'A map with no right adjoint',
+  description: 'f(l) = f(r) = 1 but f(l ∨ r) = 2: f does not preserve joins, so no g can work',
+  exampleIds: [],
+  P: diamond,
+  Q: integers,
+  f: { '⊥': '0', l: '1', r: '1', '⊤': '2' },
+};
+
+export const galoisPresets: GaloisPreset[] = [
+  ceilingInclusion,
+  floorInclusion,
+  signAbstraction,
+  imagePreimage,
+  noRightAdjoint,
+];
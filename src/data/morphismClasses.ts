@@ -0,0 +1,20 @@
+/**
+ * Small categories that show off monos, epis and their split versions,
+ * for opening examples in the Morphism Composer
+ */
+
+import { CategoryDefinition } from '../utils/categoryTypes';
+import { coequalisedFork, equalisedFork, splitIdempotent, walkingIso } from './smallCategories';
+
+export interface MorphismClassPreset {
+  exampleIds: string[]; // examples in examples.ts this preset makes concrete
+  category: CategoryDefinition;
+  focus: string; // morphism to inspect first
+}
+
+export const morphismClassPresets: MorphismClassPreset[] = [
+  { exampleIds: ['isomorphism'], category: walkingIso, focus: 'f' },
+  { exampleIds: ['monomorphism'], category: equalisedFork, focus: 'h' },
+  { exampleIds: ['epimorphism'], category: coequalisedFork, focus: 'f' },
+  { exampleIds: ['split-mono-epi'], category: splitIdempotent, focus: 's' },
+];
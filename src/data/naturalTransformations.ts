@@ -0,0 +1,286 @@
+/**
+ * Natural transformations between finite functors, with concrete sets
+ *
+ * Each target category D is the part of Set the square lives in: List A,
+ * List B, the functions between them and the composites the square needs.
+ * The interpretations give those objects actual finite sets (short lists
+ * over small element sets) so elements can be chased around the square.
+ */
+
+import { CategoryDefinition } from '../utils/categoryTypes';
+import { FunctorMap } from '../utils/functorEngine';
+import { listsOver, mapList, SetInterpretation, tabulate } from '../utils/finiteSets';
+import { walkingArrow } from './smallCategories';
+
+// η: F ⇒ G between functors C → D, all finite
+export interface NaturalTransformationInstance {
+  name: string;
+  description: string;
+  exampleId?: string; // entry in examples.ts this instance makes concrete
+  source: CategoryDefinition;
+  target: CategoryDefinition;
+  F: FunctorMap;
+  G: FunctorMap;
+  components: Record<string, string>; // object of C -> morphism of D
+  interpretation?: SetInterpretation; // finite sets for D's objects
+  sampleElement?: string; // element of F(A) to chase first
+}
+
+// D for transformations List ⇒ List: map f, the components on A and B,
+// and the composites of the square
+const listSquare = (
+  id: string,
+  component: (obj: string) => string,
+  compositions: CategoryDefinition['compositions'],
+  diagonals: { id: string; label: string }[]
+): CategoryDefinition => ({
+  id,
+  name: 'Set',
+  objects: [
+    { id: 'LA', label: 'List A' },
+    { id: 'LB', label: 'List B' },
+  ],
+  morphisms: [
+    { id: 'map', label: 'List f', source: 'LA', target: 'LB' },
+    { id: 'cA', label: component('A'), source: 'LA', target: 'LA' },
+    { id: 'cB', label: component('B'), source: 'LB', target: 'LB' },
+    ...diagonals.map((d) => ({ ...d, source: 'LA', target: 'LB' })),
+  ],
+  compositions,
+});
+
+const listFunctor: FunctorMap = { objectMap: { A: 'LA', B: 'LB' }, morphismMap: { f: 'map' } };
+
+const double = (x: unknown) => Number(x) * 2;
+const reverse = (list: string) => JSON.stringify([...JSON.parse(list)].reverse());
+const sort = (list: string) => JSON.stringify([...JSON.parse(list)].sort());
+const head = (list: string) => {
+  const items = JSON.parse(list) as unknown[];
+  return items.length === 0 ? 'Nothing' : `Just ${items[0]}`;
+};
+
+// A = {1, 2, 3}, B = {2, 4, 6}, f doubles
+const listsA = listsOver([1, 2, 3], 3);
+const listsB = listsOver([2, 4, 6], 3);
+const mapDouble = tabulate(listsA, (l) => mapList(l, double));
+
+export const listReverse: NaturalTransformationInstance = {
+  name: 'List reverse',
+  description: 'rev: List ⇒ List reverses a sequence; mapping f before or after reversing gives the same list',
+  exampleId: 'list-reverse',
+  source: walkingArrow,
+  target: listSquare(
+    'nt-reverse',
+    (obj) => `rev_${obj}`,
+    [
+      { before: 'cA', after: 'cA', result: 'id_LA' },
+      { before: 'cB', after: 'cB', result: 'id_LB' },
+      { before: 'cA', after: 'map', result: 'd' },
+      { before: 'map', after: 'cB', result: 'd' },
+      { before: 'd', after: 'cB', result: 'map' },
+      { before: 'cA', after: 'd', result: 'map' },
+    ],
+    [{ id: 'd', label: 'rev∘List f' }]
+  ),
+  F: listFunctor,
+  G: listFunctor,
+  components: { A: 'cA', B: 'cB' },
+  interpretation: {
+    sets: { LA: listsA, LB: listsB },
+    functions: {
+      map: mapDouble,
+      cA: tabulate(listsA, reverse),
+      cB: tabulate(listsB, reverse),
+      d: tabulate(listsA, (l) => reverse(mapDouble[l])),
+    },
+  },
+  sampleElement: '[1,2,3]',
+};
+
+const maybeA = ['Nothing', 'Just 1', 'Just 2', 'Just 3'];
+
+export const headNatural: NaturalTransformationInstance = {
+  name: 'head: List ⇒ Maybe',
+  description: 'head takes the first element if there is one; it does not matter whether f is mapped before or after',
+  exampleId: 'head-natural',
+  source: walkingArrow,
+  target: {
+    id: 'nt-head',
+    name: 'Set',
+    objects: [
+      { id: 'LA', label: 'List A' },
+      { id: 'LB', label: 'List B' },
+      { id: 'MA', label: 'Maybe A' },
+      { id: 'MB', label: 'Maybe B' },
+    ],
+    morphisms: [
+      { id: 'map', label: 'List f', source: 'LA', target: 'LB' },
+      { id: 'mapMaybe', label: 'Maybe f', source: 'MA', target: 'MB' },
+      { id: 'headA', label: 'head_A', source: 'LA', target: 'MA' },
+      { id: 'headB', label: 'head_B', source: 'LB', target: 'MB' },
+      { id: 'd', label: 'head∘List f', source: 'LA', target: 'MB' },
+    ],
+    compositions: [
+      { before: 'map', after: 'headB', result: 'd' },
+      { before: 'headA', after: 'mapMaybe', result: 'd' },
+    ],
+  },
+  F: listFunctor,
+  G: { objectMap: { A: 'MA', B: 'MB' }, morphismMap: { f: 'mapMaybe' } },
+  components: { A: 'headA', B: 'headB' },
+  interpretation: {
+    sets: { LA: listsA, LB: listsB, MA: maybeA, MB: ['Nothing', 'Just 2', 'Just 4', 'Just 6'] },
+    functions: {
+      map: mapDouble,
+      mapMaybe: tabulate(maybeA, (m) => m === 'Nothing' ? m : `Just ${double(m.slice(5))}`),
+      headA: tabulate(listsA, head),
+      headB: tabulate(listsB, head),
+      d: tabulate(listsA, (l) => head(mapDouble[l])),
+    },
+  },
+  sampleElement: '[1,2,3]',
+};
+
+export const listSingleton: NaturalTransformationInstance = {
+  name: 'List singleton',
+  description: 'η: Id ⇒ List wraps an element in a list: [f(x)] either way round',
+  source: walkingArrow,
+  target: {
+    id: 'nt-singleton',
+    name: 'Set',
+    objects: [
+      { id: 'A', label: 'A' },
+      { id: 'B', label: 'B' },
+      { id: 'LA', label: 'List A' },
+      { id: 'LB', label: 'List B' },
+    ],
+    morphisms: [
+      { id: 'f', label: 'f', source: 'A', target: 'B' },
+      { id: 'map', label: 'List f', source: 'LA', target: 'LB' },
+      { id: 'etaA', label: 'η_A', source: 'A', target: 'LA' },
+      { id: 'etaB', label: 'η_B', source: 'B', target: 'LB' },
+      { id: 'd', label: 'x ↦ [f(x)]', source: 'A', target: 'LB' },
+    ],
+    compositions: [
+      { before: 'f', after: 'etaB', result: 'd' },
+      { before: 'etaA', after: 'map', result: 'd' },
+    ],
+  },
+  F: { objectMap: { A: 'A', B: 'B' }, morphismMap: { f: 'f' } },
+  G: listFunctor,
+  components: { A: 'etaA', B: 'etaB' },
+  interpretation: {
+    sets: { A: ['1', '2', '3'], B: ['2', '4', '6'], LA: listsA, LB: listsB },
+    functions: {
+      f: tabulate(['1', '2', '3'], (x) => String(double(x))),
+      map: mapDouble,
+      etaA: tabulate(['1', '2', '3'], (x) => JSON.stringify([Number(x)])),
+      etaB: tabulate(['2', '4', '6'], (x) => JSON.stringify([Number(x)])),
+      d: tabulate(['1', '2', '3'], (x) => JSON.stringify([double(x)])),
+    },
+  },
+  sampleElement: '2',
+};
+
+// A = {1, 2}, B = {2, 4}: nested lists grow quickly
+const nestedA = listsOver(listsOver([1, 2], 2).map((l) => JSON.parse(l)), 2);
+const flatten = (list: string) => JSON.stringify((JSON.parse(list) as unknown[][]).flat());
+const mapNested = (list: string) =>
+  JSON.stringify((JSON.parse(list) as unknown[][]).map((inner) => inner.map(double)));
+
+export const listFlatten: NaturalTransformationInstance = {
+  name: 'Flatten (join)',
+  description: 'μ: List∘List ⇒ List flattens nested lists; flattening commutes with mapping f',
+  exampleId: 'flatten-natural',
+  source: walkingArrow,
+  target: {
+    id: 'nt-flatten',
+    name: 'Set',
+    objects: [
+      { id: 'LLA', label: 'List² A' },
+      { id: 'LLB', label: 'List² B' },
+      { id: 'LA', label: 'List A' },
+      { id: 'LB', label: 'List B' },
+    ],
+    morphisms: [
+      { id: 'map2', label: 'List² f', source: 'LLA', target: 'LLB' },
+      { id: 'map', label: 'List f', source: 'LA', target: 'LB' },
+      { id: 'muA', label: 'μ_A', source: 'LLA', target: 'LA' },
+      { id: 'muB', label: 'μ_B', source: 'LLB', target: 'LB' },
+      { id: 'd', label: 'μ∘List² f', source: 'LLA', target: 'LB' },
+    ],
+    compositions: [
+      { before: 'map2', after: 'muB', result: 'd' },
+      { before: 'muA', after: 'map', result: 'd' },
+    ],
+  },
+  F: { objectMap: { A: 'LLA', B: 'LLB' }, morphismMap: { f: 'map2' } },
+  G: listFunctor,
+  components: { A: 'muA', B: 'muB' },
+  interpretation: {
+    sets: {
+      LLA: nestedA,
+      LLB: nestedA.map(mapNested),
+      LA: listsOver([1, 2], 4),
+      LB: listsOver([2, 4], 4),
+    },
+    functions: {
+      map2: tabulate(nestedA, mapNested),
+      map: tabulate(listsOver([1, 2], 4), (l) => mapList(l, double)),
+      muA: tabulate(nestedA, flatten),
+      muB: tabulate(nestedA.map(mapNested), flatten),
+      d: tabulate(nestedA, (l) => flatten(mapNested(l))),
+    },
+  },
+  sampleElement: '[[1,2],[1]]',
+};
+
+// f: {1, 2, 3} → {1, 2, 3} reverses the order, x ↦ 4 − x
+const flip = (x: unknown) => 4 - Number(x);
+const mapFlip = tabulate(listsA, (l) => mapList(l, flip));
+
+export const listSort: NaturalTransformationInstance = {
+  name: 'Sort (not natural)',
+  description: 'sort: List ⇒ List on ordered sets, with f reversing the order: sorting before mapping leaves the list descending',
+  source: walkingArrow,
+  target: listSquare(
+    'nt-sort',
+    (obj) => `sort_${obj}`,
+    [
+      { before: 'cA', after: 'cA', result: 'cA' },
+      { before: 'cB', after: 'cB', result: 'cB' },
+      { before: 'cA', after: 'map', result: 'mapSorted' },
+      { before: 'map', after: 'cB', result: 'sortMapped' },
+      { before: 'mapSorted', after: 'cB', result: 'sortMapped' },
+      { before: 'sortMapped', after: 'cB', result: 'sortMapped' },
+      { before: 'cA', after: 'mapSorted', result: 'mapSorted' },
+      { before: 'cA', after: 'sortMapped', result: 'sortMapped' },
+    ],
+    [
+      { id: 'mapSorted', label: 'List f∘sort' },
+      { id: 'sortMapped', label: 'sort∘List f' },
+    ]
+  ),
+  F: listFunctor,
+  G: listFunctor,
+  components: { A: 'cA', B: 'cB' },
+  interpretation: {
+    sets: { LA: listsA, LB: listsA },
+    functions: {
+      map: mapFlip,
+      cA: tabulate(listsA, sort),
+      cB: tabulate(listsA, sort),
+      mapSorted: tabulate(listsA, (l) => mapFlip[sort(l)]),
+      sortMapped: tabulate(listsA, (l) => sort(mapFlip[l])),
+    },
+  },
+  sampleElement: '[1,2,3]',
+};
+
+export const naturalTransformationInstances: NaturalTransformationInstance[] = [
+  listReverse,
+  headNatural,
+  listSingleton,
+  listFlatten,
+  listSort,
+];
@@ -283,7 +283,7 @@ export const pagePlans: PagePlan[] = [
     section: '1d',
     title: 'Adjunctions - Introduction',
     concepts: ['adjunction', 'left-adjoint', 'right-adjoint'],
-    simulatorType: 'functor-mapper',
+    simulatorType: 'adjunction-explorer',
     exampleTypes: ['free-forgetful-adjunction'],
     applicationAreas: ['free-structures'],
     exercises: 2,
@@ -293,7 +293,7 @@ export const pagePlans: PagePlan[] = [
     section: '1d',
     title: 'Adjunctions - Definition',
     concepts: ['adjunction-definition', 'unit', 'counit'],
-    simulatorType: 'functor-mapper',
+    simulatorType: 'adjunction-explorer',
     exampleTypes: ['adjunction-examples'],
     applicationAreas: ['galois-connections'],
     exercises: 2,
@@ -303,7 +303,7 @@ export const pagePlans: PagePlan[] = [
     section: '1d',
     title: 'Adjunctions - Properties',
     concepts: ['adjunction-properties', 'universal-property'],
-    simulatorType: 'functor-mapper',
+    simulatorType: 'adjunction-explorer',
     exampleTypes: ['currying-adjunction'],
     applicationAreas: ['currying', 'exponentials'],
     exercises: 2,
@@ -327,7 +327,7 @@ export const pagePlans: PagePlan[] = [
     section: '1e',
     title: 'Duality - Duality Principle',
     concepts: ['duality-principle', 'dual-concepts'],
-    simulatorType: 'category-builder',
+    simulatorType: 'duality-translator',
     exampleTypes: ['product-coproduct-duality'],
     applicationAreas: ['dual-theorems'],
     exercises: 2,
@@ -474,7 +474,7 @@ export const pagePlans: PagePlan[] = [
     section: '2d',
     title: 'Equalisers',
     concepts: ['equaliser', 'kernel', 'subobject'],
-    simulatorType: 'diagram-chaser',
+    simulatorType: 'equaliser-builder',
     exampleTypes: ['equaliser-set', 'kernel-examples'],
     applicationAreas: ['constraints', 'equations'],
     exercises: 2,
@@ -484,7 +484,7 @@ export const pagePlans: PagePlan[] = [
     section: '2d',
     title: 'Coequalisers - Definition',
     concepts: ['coequaliser', 'quotient', 'equivalence-classes'],
-    simulatorType: 'diagram-chaser',
+    simulatorType: 'equaliser-builder',
     exampleTypes: ['quotient-set', 'coequaliser-examples'],
     applicationAreas: ['quotient-types', 'equivalence'],
     exercises: 2,
@@ -494,7 +494,7 @@ export const pagePlans: PagePlan[] = [
     section: '2d',
     title: 'Coequalisers - Universal Property',
     concepts: ['coequaliser-universal-property'],
-    simulatorType: 'diagram-chaser',
+    simulatorType: 'equaliser-builder',
     exampleTypes: ['universal-property-verification'],
     applicationAreas: ['modular-arithmetic'],
     exercises: 2,
@@ -504,7 +504,7 @@ export const pagePlans: PagePlan[] = [
     section: '2d',
     title: 'Coequalisers - Applications',
     concepts: ['pushout', 'coequaliser-applications'],
-    simulatorType: 'diagram-chaser',
+    simulatorType: 'equaliser-builder',
     exampleTypes: ['pushout-examples'],
     applicationAreas: ['gluing', 'merge-operations'],
     exercises: 2,
@@ -642,7 +642,7 @@ export const pagePlans: PagePlan[] = [
     section: 'A',
     title: `Adjointness - Part ${i + 1}`,
     concepts: ['adjunction-details', 'adjunction-properties'],
-    simulatorType: 'functor-mapper' as SimulatorType,
+    simulatorType: 'adjunction-explorer' as SimulatorType,
     exampleTypes: ['adjunction-examples'],
     applicationAreas: ['galois-connections', 'free-constructions'],
     exercises: i < 15 ? 2 : 1,
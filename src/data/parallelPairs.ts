@@ -0,0 +1,75 @@
+/**
+ * Parallel pairs f, g: A → B in FinSet for the Equaliser Builder
+ */
+
+import { ParallelPair } from '../utils/finiteLimits';
+import { tabulate } from '../utils/finiteSets';
+
+export interface ParallelPairPreset {
+  id: string;
+  name: string;
+  description: string;
+  mode: 'equaliser' | 'coequaliser'; // the side the example is about
+  exampleIds: string[]; // examples in examples.ts this preset makes concrete
+  pair: ParallelPair;
+}
+
+const upTo = (n: number) => Array.from({ length: n }, (_, i) => String(i));
+
+export const fixedPoints: ParallelPairPreset = {
+  id: 'fixed-points',
+  name: 'Fixed points of squaring',
+  description: 'id and x² mod 4 agree exactly on the fixed points 0 and 1',
+  mode: 'equaliser',
+  exampleIds: ['equaliser'],
+  pair: {
+    domain: upTo(4),
+    codomain: upTo(4),
+    f: tabulate(upTo(4), (x) => x),
+    g: tabulate(upTo(4), (x) => String((Number(x) * Number(x)) % 4)),
+  },
+};
+
+export const modThree: ParallelPairPreset = {
+  id: 'mod-three',
+  name: 'Integers mod 3',
+  description: 'Gluing k to k + 3 leaves three classes: the coequaliser is ℤ/3',
+  mode: 'coequaliser',
+  exampleIds: ['coequaliser'],
+  pair: {
+    domain: upTo(3),
+    codomain: upTo(6),
+    f: tabulate(upTo(3), (x) => x),
+    g: tabulate(upTo(3), (x) => String(Number(x) + 3)),
+  },
+};
+
+export const equalFractions: ParallelPairPreset = {
+  id: 'equal-fractions',
+  name: 'Fractions as a quotient type',
+  description: 'Each pair (a, b) is glued to its reduced form, so 2/4 and 1/2 become one rational',
+  mode: 'coequaliser',
+  exampleIds: ['quotient-types'],
+  pair: {
+    domain: ['2/4', '3/6', '2/6'],
+    codomain: ['1/2', '2/4', '3/6', '1/3', '2/6'],
+    f: { '2/4': '2/4', '3/6': '3/6', '2/6': '2/6' },
+    g: { '2/4': '1/2', '3/6': '1/2', '2/6': '1/3' },
+  },
+};
+
+export const samePair: ParallelPairPreset = {
+  id: 'same-pair',
+  name: 'f = g',
+  description: 'Equal functions: the equaliser is all of A and the coequaliser glues nothing',
+  mode: 'equaliser',
+  exampleIds: [],
+  pair: {
+    domain: ['a', 'b'],
+    codomain: ['1', '2', '3'],
+    f: { a: '1', b: '3' },
+    g: { a: '1', b: '3' },
+  },
+};
+
+export const parallelPairPresets: ParallelPairPreset[] = [fixedPoints, modThree, equalFractions, samePair];
@@ -0,0 +1,66 @@
+/**
+ * Which simulator opens each example, and with which preset
+ *
+ * Every preset module lists the examples it makes concrete; this registry
+ * collects them in one place for the Examples tab, the Simulator tab and
+ * the simulators themselves.
+ */
+
+import { SimulatorType } from '../utils/categoryTypes';
+import { NaturalTransformationInstance, naturalTransformationInstances } from './naturalTransformations';
+import { MorphismClassPreset, morphismClassPresets } from './morphismClasses';
+import { AdjunctionPreset, adjunctionPresets } from './adjunctions';
+import { GaloisPreset, galoisPresets } from './galoisConnections';
+import { DualityPreset, dualityPresets } from './dualities';
+import { ParallelPairPreset, parallelPairPresets } from './parallelPairs';
+import { ExponentialPreset, exponentialPresets } from './exponentials';
+
+// The kind of preset each simulator opens an example with
+export interface ExamplePresets {
+  'natural-transformation': NaturalTransformationInstance;
+  'morphism-composer': MorphismClassPreset;
+  'adjunction-explorer': AdjunctionPreset;
+  'galois-playground': GaloisPreset;
+  'duality-translator': DualityPreset;
+  'equaliser-builder': ParallelPairPreset;
+  'exponential-builder': ExponentialPreset;
+}
+
+export type ExampleSimulator = keyof ExamplePresets & SimulatorType;
+
+export type ExampleEntry = {
+  [S in ExampleSimulator]: { simulator: S; preset: ExamplePresets[S] };
+}[ExampleSimulator];
+
+const registry = new Map<string, ExampleEntry>();
+
+function register<S extends ExampleSimulator>(
+  simulator: S,
+  presets: ExamplePresets[S][],
+  exampleIds: (preset: ExamplePresets[S]) => string[]
+) {
+  presets.forEach((preset) => {
+    exampleIds(preset).forEach((id) => registry.set(id, { simulator, preset } as ExampleEntry));
+  });
+}
+
+register('natural-transformation', naturalTransformationInstances, (p) => (p.exampleId ? [p.exampleId] : []));
+register('morphism-composer', morphismClassPresets, (p) => p.exampleIds);
+register('adjunction-explorer', adjunctionPresets, (p) => p.exampleIds);
+register('galois-playground', galoisPresets, (p) => p.exampleIds);
+register('duality-translator', dualityPresets, (p) => p.exampleIds);
+register('equaliser-builder', parallelPairPresets, (p) => p.exampleIds);
+register('exponential-builder', exponentialPresets, (p) => p.exampleIds);
+
+export function getExampleEntry(exampleId: string): ExampleEntry | undefined {
+  return registry.get(exampleId);
+}
+
+// The preset a simulator opens with, when the example belongs to it
+export function getExamplePreset<S extends ExampleSimulator>(
+  simulator: S,
+  exampleId: string | undefined
+): ExamplePresets[S] | undefined {
+  const entry = exampleId !== undefined ? registry.get(exampleId) : undefined;
+  return entry?.simulator === simulator ? (entry.preset as ExamplePresets[S]) : undefined;
+}
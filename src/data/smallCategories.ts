@@ -0,0 +1,284 @@
+/**
+ * Library of standard small categories, loadable into the simulators
+ */
+
+import { CategoryDefinition } from '../utils/categoryTypes';
+
+export const walkingArrow: CategoryDefinition = {
+  id: 'walking-arrow',
+  name: 'Walking arrow',
+  description: 'Two objects and a single non-identity arrow f: A → B',
+  objects: [
+    { id: 'A', label: 'A' },
+    { id: 'B', label: 'B' },
+  ],
+  morphisms: [{ id: 'f', label: 'f', source: 'A', target: 'B' }],
+  compositions: [],
+};
+
+export const walkingIso: CategoryDefinition = {
+  id: 'walking-iso',
+  name: 'Walking isomorphism',
+  description: 'f: A → B and its inverse g: B → A',
+  objects: [
+    { id: 'A', label: 'A' },
+    { id: 'B', label: 'B' },
+  ],
+  morphisms: [
+    { id: 'f', label: 'f', source: 'A', target: 'B' },
+    { id: 'g', label: 'g', source: 'B', target: 'A' },
+  ],
+  compositions: [
+    { before: 'f', after: 'g', result: 'id_A' },
+    { before: 'g', after: 'f', result: 'id_B' },
+  ],
+};
+
+export const ordinalTwo: CategoryDefinition = {
+  id: 'ordinal-2',
+  name: '2',
+  description: 'The ordinal 2 = {0 ≤ 1} as a poset category',
+  objects: [
+    { id: '0', label: '0' },
+    { id: '1', label: '1' },
+  ],
+  morphisms: [{ id: '0≤1', label: '0≤1', source: '0', target: '1' }],
+  compositions: [],
+};
+
+export const ordinalThree: CategoryDefinition = {
+  id: 'ordinal-3',
+  name: '3',
+  description: 'The ordinal 3 = {0 ≤ 1 ≤ 2} as a poset category',
+  objects: [
+    { id: '0', label: '0' },
+    { id: '1', label: '1' },
+    { id: '2', label: '2' },
+  ],
+  morphisms: [
+    { id: '0≤1', label: '0≤1', source: '0', target: '1' },
+    { id: '1≤2', label: '1≤2', source: '1', target: '2' },
+    { id: '0≤2', label: '0≤2', source: '0', target: '2' },
+  ],
+  compositions: [{ before: '0≤1', after: '1≤2', result: '0≤2' }],
+};
+
+export const cyclicTwo: CategoryDefinition = {
+  id: 'z2',
+  name: 'ℤ/2',
+  description: 'The group ℤ/2 as a one-object category: s∘s = id',
+  objects: [{ id: '*', label: '*' }],
+  morphisms: [{ id: 's', label: 's', source: '*', target: '*' }],
+  compositions: [{ before: 's', after: 's', result: 'id_*' }],
+};
+
+export const discreteTwo: CategoryDefinition = {
+  id: 'discrete-2',
+  name: 'Discrete {A, B}',
+  description: 'Two objects and only identity arrows',
+  objects: [
+    { id: 'A', label: 'A' },
+    { id: 'B', label: 'B' },
+  ],
+  morphisms: [],
+  compositions: [],
+};
+
+export const discreteThree: CategoryDefinition = {
+  id: 'discrete-3',
+  name: 'Discrete {A, B, C}',
+  description: 'Three objects and only identity arrows',
+  objects: [
+    { id: 'A', label: 'A' },
+    { id: 'B', label: 'B' },
+    { id: 'C', label: 'C' },
+  ],
+  morphisms: [],
+  compositions: [],
+};
+
+export const parallelPair: CategoryDefinition = {
+  id: 'parallel-pair',
+  name: 'Parallel pair',
+  description: 'Two parallel arrows f, g: A → B (the shape of an equaliser)',
+  objects: [
+    { id: 'A', label: 'A' },
+    { id: 'B', label: 'B' },
+  ],
+  morphisms: [
+    { id: 'f', label: 'f', source: 'A', target: 'B' },
+    { id: 'g', label: 'g', source: 'A', target: 'B' },
+  ],
+  compositions: [],
+};
+
+export const cospanPoset: CategoryDefinition = {
+  id: 'poset-cospan',
+  name: 'Poset a ≤ c ≥ b',
+  description: 'Two elements below a common upper bound (the shape of a pullback)',
+  objects: [
+    { id: 'a', label: 'a' },
+    { id: 'b', label: 'b' },
+    { id: 'c', label: 'c' },
+  ],
+  morphisms: [
+    { id: 'a≤c', label: 'a≤c', source: 'a', target: 'c' },
+    { id: 'b≤c', label: 'b≤c', source: 'b', target: 'c' },
+  ],
+  compositions: [],
+};
+
+export const diamondPoset: CategoryDefinition = {
+  id: 'poset-diamond',
+  name: 'Poset ⊥ ≤ a, b ≤ ⊤',
+  description: 'The four-element Boolean lattice',
+  objects: [
+    { id: 'bot', label: '⊥' },
+    { id: 'a', label: 'a' },
+    { id: 'b', label: 'b' },
+    { id: 'top', label: '⊤' },
+  ],
+  morphisms: [
+    { id: '⊥≤a', label: '⊥≤a', source: 'bot', target: 'a' },
+    { id: '⊥≤b', label: '⊥≤b', source: 'bot', target: 'b' },
+    { id: 'a≤⊤', label: 'a≤⊤', source: 'a', target: 'top' },
+    { id: 'b≤⊤', label: 'b≤⊤', source: 'b', target: 'top' },
+    { id: '⊥≤⊤', label: '⊥≤⊤', source: 'bot', target: 'top' },
+  ],
+  compositions: [
+    { before: '⊥≤a', after: 'a≤⊤', result: '⊥≤⊤' },
+    { before: '⊥≤b', after: 'b≤⊤', result: '⊥≤⊤' },
+  ],
+};
+
+export const splitIdempotent: CategoryDefinition = {
+  id: 'split-idempotent',
+  name: 'Retract A ⇄ B',
+  description: 'r∘s = id_A but s∘r = e ≠ id_B: s is split mono, r split epi, and e is idempotent',
+  objects: [
+    { id: 'A', label: 'A' },
+    { id: 'B', label: 'B' },
+  ],
+  morphisms: [
+    { id: 's', label: 's', source: 'A', target: 'B' },
+    { id: 'r', label: 'r', source: 'B', target: 'A' },
+    { id: 'e', label: 'e', source: 'B', target: 'B' },
+  ],
+  compositions: [
+    { before: 's', after: 'r', result: 'id_A' },
+    { before: 'r', after: 's', result: 'e' },
+    { before: 'e', after: 'e', result: 'e' },
+    { before: 's', after: 'e', result: 's' },
+    { before: 'e', after: 'r', result: 'r' },
+  ],
+};
+
+export const coequalisedFork: CategoryDefinition = {
+  id: 'fork-coequalised',
+  name: 'Fork A → B ⇉ C',
+  description: 'g∘f = h∘f = k although g ≠ h, so f is not epi',
+  objects: [
+    { id: 'A', label: 'A' },
+    { id: 'B', label: 'B' },
+    { id: 'C', label: 'C' },
+  ],
+  morphisms: [
+    { id: 'f', label: 'f', source: 'A', target: 'B' },
+    { id: 'g', label: 'g', source: 'B', target: 'C' },
+    { id: 'h', label: 'h', source: 'B', target: 'C' },
+    { id: 'k', label: 'k', source: 'A', target: 'C' },
+  ],
+  compositions: [
+    { before: 'f', after: 'g', result: 'k' },
+    { before: 'f', after: 'h', result: 'k' },
+  ],
+};
+
+export const equalisedFork: CategoryDefinition = {
+  id: 'fork-equalised',
+  name: 'Fork A ⇉ B → C',
+  description: 'h∘f = h∘g = k although f ≠ g, so h is not mono',
+  objects: [
+    { id: 'A', label: 'A' },
+    { id: 'B', label: 'B' },
+    { id: 'C', label: 'C' },
+  ],
+  morphisms: [
+    { id: 'f', label: 'f', source: 'A', target: 'B' },
+    { id: 'g', label: 'g', source: 'A', target: 'B' },
+    { id: 'h', label: 'h', source: 'B', target: 'C' },
+    { id: 'k', label: 'k', source: 'A', target: 'C' },
+  ],
+  compositions: [
+    { before: 'f', after: 'h', result: 'k' },
+    { before: 'g', after: 'h', result: 'k' },
+  ],
+};
+
+export const finSetTwo: CategoryDefinition = {
+  id: 'finset-2',
+  name: 'FinSet on ∅, 1, 2',
+  description: 'The sets ∅, 1 = {0} and 2 = {0, 1} with every function between them: a finite piece of Set_fin',
+  objects: [
+    { id: 'empty', label: '∅' },
+    { id: '1', label: '1' },
+    { id: '2', label: '2' },
+  ],
+  morphisms: [
+    { id: '!₁', label: '!₁', source: 'empty', target: '1' },
+    { id: '!₂', label: '!₂', source: 'empty', target: '2' },
+    { id: 'p₀', label: 'p₀', source: '1', target: '2' },
+    { id: 'p₁', label: 'p₁', source: '1', target: '2' },
+    { id: '!', label: '!', source: '2', target: '1' },
+    { id: 'σ', label: 'σ', source: '2', target: '2' },
+    { id: 'c₀', label: 'c₀', source: '2', target: '2' },
+    { id: 'c₁', label: 'c₁', source: '2', target: '2' },
+  ],
+  compositions: [
+    { before: '!₁', after: 'p₀', result: '!₂' },
+    { before: '!₁', after: 'p₁', result: '!₂' },
+    { before: '!₂', after: '!', result: '!₁' },
+    { before: '!₂', after: 'σ', result: '!₂' },
+    { before: '!₂', after: 'c₀', result: '!₂' },
+    { before: '!₂', after: 'c₁', result: '!₂' },
+    { before: 'p₀', after: '!', result: 'id_1' },
+    { before: 'p₁', after: '!', result: 'id_1' },
+    { before: 'p₀', after: 'σ', result: 'p₁' },
+    { before: 'p₁', after: 'σ', result: 'p₀' },
+    { before: 'p₀', after: 'c₀', result: 'p₀' },
+    { before: 'p₁', after: 'c₀', result: 'p₀' },
+    { before: 'p₀', after: 'c₁', result: 'p₁' },
+    { before: 'p₁', after: 'c₁', result: 'p₁' },
+    { before: '!', after: 'p₀', result: 'c₀' },
+    { before: '!', after: 'p₁', result: 'c₁' },
+    { before: 'σ', after: '!', result: '!' },
+    { before: 'c₀', after: '!', result: '!' },
+    { before: 'c₁', after: '!', result: '!' },
+    { before: 'σ', after: 'σ', result: 'id_2' },
+    { before: 'σ', after: 'c₀', result: 'c₀' },
+    { before: 'σ', after: 'c₁', result: 'c₁' },
+    { before: 'c₀', after: 'σ', result: 'c₁' },
+    { before: 'c₁', after: 'σ', result: 'c₀' },
+    { before: 'c₀', after: 'c₀', result: 'c₀' },
+    { before: 'c₁', after: 'c₀', result: 'c₀' },
+    { before: 'c₀', after: 'c₁', result: 'c₁' },
+    { before: 'c₁', after: 'c₁', result: 'c₁' },
+  ],
+};
+
+export const smallCategories: CategoryDefinition[] = [
+  walkingArrow,
+  walkingIso,
+  ordinalTwo,
+  ordinalThree,
+  cyclicTwo,
+  discreteTwo,
+  discreteThree,
+  parallelPair,
+  cospanPoset,
+  diamondPoset,
+  splitIdempotent,
+  coequalisedFork,
+  equalisedFork,
+  finSetTwo,
+];
@@ -1,7 +1,12 @@
 import { useState, useEffect, useCallback } from 'react';
+import { CategoryDefinition } from '../utils/categoryTypes';
+
+// Fired on window after a write, with the key as detail, so other hooks on that key re-read it
+const localStorageEvent = 'local-storage-change';
 
 /**
- * Hook for persisting state in localStorage with automatic serialization
+ * Hook for persisting state in localStorage with automatic serialization.
+ * Every hook on the same key, in this tab or another, shares one value.
  */
 export function useLocalStorage<T>(
   key: string,
@@ -29,12 +34,41 @@ export function useLocalStorage<T>(
     }
 
     try {
-      window.localStorage.setItem(key, JSON.stringify(storedValue));
+      const serialized = JSON.stringify(storedValue);
+      // Skip values read back from another hook, which would otherwise echo forever
+      if (window.localStorage.getItem(key) === serialized) return;
+      window.localStorage.setItem(key, serialized);
+      window.dispatchEvent(new CustomEvent<string>(localStorageEvent, { detail: key }));
     } catch (error) {
       console.warn(`Error setting localStorage key "${key}":`, error);
     }
   }, [key, storedValue]);
 
+  // Pick up writes to this key from other hooks and other tabs
+  useEffect(() => {
+    if (typeof window === 'undefined') {
+      return;
+    }
+
+    const sync = (event: Event) => {
+      const changed = event instanceof StorageEvent ? event.key : (event as CustomEvent<string>).detail;
+      if (changed !== key) return;
+      try {
+        const item = window.localStorage.getItem(key);
+        if (item !== null) setStoredValue(JSON.parse(item) as T);
+      } catch (error) {
+        console.warn(`Error reading localStorage key "${key}":`, error);
+      }
+    };
+
+    window.addEventListener('storage', sync);
+    window.addEventListener(localStorageEvent, sync);
+    return () => {
+      window.removeEventListener('storage', sync);
+      window.removeEventListener(localStorageEvent, sync);
+    };
+  }, [key]);
+
   // Setter that handles function updates
   const setValue = useCallback((value: T | ((prev: T) => T)) => {
     setStoredValue((prev) => {
@@ -206,3 +240,44 @@ export function useNotes() {
     clearNotes,
   };
 }
+
+/**
+ * Hook for categories saved from the Category Builder, so other simulators
+ * can load them; a save shows up in every open picker at once
+ */
+export interface SavedCategory {
+  definition: CategoryDefinition;
+  savedAt: string;
+}
+
+export function useSavedCategories() {
+  const [savedCategories, setSavedCategories, clearSavedCategories] = useLocalStorage<SavedCategory[]>(
+    'category-theory-saved-categories',
+    []
+  );
+
+  // Saving under an existing name replaces the earlier version
+  const saveCategory = useCallback(
+    (definition: CategoryDefinition) => {
+      setSavedCategories((prev) => [
+        ...prev.filter((s) => s.definition.name !== definition.name),
+        { definition, savedAt: new Date().toISOString() },
+      ]);
+    },
+    [setSavedCategories]
+  );
+
+  const removeSavedCategory = useCallback(
+    (name: string) => {
+      setSavedCategories((prev) => prev.filter((s) => s.definition.name !== name));
+    },
+    [setSavedCategories]
+  );
+
+  return {
+    savedCategories,
+    saveCategory,
+    removeSavedCategory,
+    clearSavedCategories,
+  };
+}
@@ -0,0 +1,158 @@
+/**
+ * Adjunctions between finite categories
+ *
+ * F: C → D is left adjoint to G: D → C when there are natural
+ * transformations η: id_C ⇒ GF (the unit) and ε: FG ⇒ id_D (the counit)
+ * satisfying the triangle identities
+ *
+ *   ε_F(A)∘F(η_A) = id_F(A)    and    G(ε_B)∘η_G(B) = id_G(B).
+ *
+ * Equivalently, φ(g) = G(g)∘η_A is a bijection
+ * Hom_D(F(A), B) ≅ Hom_C(A, G(B)), natural in A and B.
+ */
+
+import { compose, FiniteCategory, hom } from './categoryEngine';
+import {
+  applyFunctor,
+  checkFunctor,
+  composeFunctors,
+  FunctorMap,
+  identityFunctor,
+} from './functorEngine';
+import { enumerateNaturalTransformations } from './naturalTransformation';
+
+export interface HomComparison {
+  a: string; // object of C
+  b: string; // object of D
+  left: string[]; // Hom_D(F(A), B)
+  right: string[]; // Hom_C(A, G(B))
+  images: (string | null)[]; // φ of each arrow in `left`, once a unit is chosen
+  bijective: boolean;
+}
+
+export interface TriangleCheck {
+  identity: 'left' | 'right'; // left at an object A of C, right at B of D
+  object: string;
+  composite: string | null; // null when the composite is undefined
+  expected: string; // the identity it should equal
+  holds: boolean;
+}
+
+export interface AdjunctionSearch {
+  functorIssues: string[]; // F or G is not a functor, so nothing else is checked
+  units: Map<string, string>[]; // every natural η: id_C ⇒ GF
+  counits: Map<string, string>[]; // every natural ε: FG ⇒ id_D
+  truncated: boolean;
+  countMismatches: HomComparison[]; // pairs whose hom-sets differ in size
+  best: { unit: number; counit: number; failures: number } | null; // fewest triangle failures
+  adjoint: boolean;
+}
+
+/**
+ * Hom_D(F(A), B) next to Hom_C(A, G(B)) for every A and B. Without a unit a
+ * pair is only checked by size; with one, φ(g) = G(g)∘η_A must actually be a
+ * bijection, so two g with the same image fail even when every f is hit.
+ */
+export function homComparison(
+  source: FiniteCategory,
+  target: FiniteCategory,
+  F: FunctorMap,
+  G: FunctorMap,
+  unit?: Map<string, string>
+): HomComparison[] {
+  return source.objects.flatMap((a) =>
+    target.objects.map((b) => {
+      const left = hom(target, F.objectMap[a.id], b.id).map((m) => m.id);
+      const right = hom(source, a.id, G.objectMap[b.id]).map((m) => m.id);
+      const etaA = unit?.get(a.id);
+      const images = left.map((g) => {
+        const gg = applyFunctor(target, source, G, g);
+        return etaA === undefined || gg === undefined ? null : compose(source, etaA, gg);
+      });
+      const bijective = etaA === undefined
+        ? left.length === right.length
+        : left.length === right.length
+          && images.every((f) => f !== null)
+          && new Set(images).size === left.length
+          && right.every((f) => images.includes(f));
+      return { a: a.id, b: b.id, left, right, images, bijective };
+    })
+  );
+}
+
+// Both triangle identities, one check per object of C and per object of D
+export function triangleChecks(
+  source: FiniteCategory,
+  target: FiniteCategory,
+  F: FunctorMap,
+  G: FunctorMap,
+  unit: Map<string, string>,
+  counit: Map<string, string>
+): TriangleCheck[] {
+  const left = source.objects.map((a): TriangleCheck => {
+    const fa = F.objectMap[a.id];
+    const fEta = applyFunctor(source, target, F, unit.get(a.id)!);
+    const epsilon = counit.get(fa);
+    const composite = fEta === undefined || epsilon === undefined ? null : compose(target, fEta, epsilon);
+    const expected = target.identities[fa];
+    return { identity: 'left', object: a.id, composite, expected, holds: composite === expected };
+  });
+  const right = target.objects.map((b): TriangleCheck => {
+    const gb = G.objectMap[b.id];
+    const gEpsilon = applyFunctor(target, source, G, counit.get(b.id)!);
+    const eta = unit.get(gb);
+    const composite = gEpsilon === undefined || eta === undefined ? null : compose(source, eta, gEpsilon);
+    const expected = source.identities[gb];
+    return { identity: 'right', object: b.id, composite, expected, holds: composite === expected };
+  });
+  return [...left, ...right];
+}
+
+/**
+ * Look for an adjunction F ⊣ G: list every natural unit and counit, then
+ * pick the pair that breaks the fewest triangle identities. F ⊣ G exactly
+ * when that pair breaks none.
+ */
+export function searchAdjunction(
+  source: FiniteCategory,
+  target: FiniteCategory,
+  F: FunctorMap,
+  G: FunctorMap,
+  limit = 200
+): AdjunctionSearch {
+  const functorIssues = [
+    ...checkFunctor(source, target, F).map((v) => `F: ${v.message}`),
+    ...checkFunctor(target, source, G).map((v) => `G: ${v.message}`),
+  ];
+  if (functorIssues.length > 0) {
+    return { functorIssues, units: [], counits: [], truncated: false, countMismatches: [], best: null, adjoint: false };
+  }
+
+  const countMismatches = homComparison(source, target, F, G).filter((row) => !row.bijective);
+  const units = enumerateNaturalTransformations(
+    source, source, identityFunctor(source), composeFunctors(source, target, source, F, G), limit
+  );
+  const counits = enumerateNaturalTransformations(
+    target, target, composeFunctors(target, source, target, G, F), identityFunctor(target), limit
+  );
+
+  let best: AdjunctionSearch['best'] = null;
+  for (let i = 0; i < units.transformations.length && best?.failures !== 0; i++) {
+    for (let j = 0; j < counits.transformations.length; j++) {
+      const failures = triangleChecks(source, target, F, G, units.transformations[i], counits.transformations[j])
+        .filter((t) => !t.holds).length;
+      if (best === null || failures < best.failures) best = { unit: i, counit: j, failures };
+      if (failures === 0) break;
+    }
+  }
+
+  return {
+    functorIssues,
+    units: units.transformations,
+    counits: counits.transformations,
+    truncated: units.truncated || counits.truncated,
+    countMismatches,
+    best,
+    adjoint: best?.failures === 0,
+  };
+}
@@ -0,0 +1,344 @@
+/**
+ * Finite categories built from other finite categories
+ *
+ * Each construction returns a CategoryDefinition with a full composition
+ * table and coordinates for every object, ready to open in the Category
+ * Builder. Identities are named identityId(object) so the engine adopts
+ * them instead of deriving a second copy.
+ */
+
+import {
+  CategoryDefinition,
+  CategoryObject,
+  CompositeEntry,
+  Functor,
+  Morphism,
+  NaturalTransformation,
+} from './categoryTypes';
+import {
+  compose,
+  createFiniteCategory,
+  FiniteCategory,
+  hom,
+  identityId,
+  isIdentity,
+  nonIdentityMorphisms,
+} from './categoryEngine';
+import { applyFunctor, enumerateFunctors, toFunctor } from './functorEngine';
+import { enumerateNaturalTransformations } from './naturalTransformation';
+import { fitLayout } from './layout';
+
+// Where the simulators would draw C's objects
+const basePositions = (cat: FiniteCategory) =>
+  new Map(fitLayout(cat.objects, { x: 0, y: 0, width: 200, height: 150 }).map((o) => [o.id, o]));
+
+// Nudge objects that would land on the same spot apart
+function spread(objects: CategoryObject[]): CategoryObject[] {
+  const taken = new Map<string, number>();
+  return objects.map((o) => {
+    const key = `${Math.round(o.x!)},${Math.round(o.y!)}`;
+    const slot = taken.get(key) ?? 0;
+    taken.set(key, slot + 1);
+    return slot === 0 ? o : { ...o, x: o.x! + slot * 30, y: o.y! + slot * 24 };
+  });
+}
+
+const label = (cat: FiniteCategory, id: string) => cat.morphismById.get(id)?.label ?? id;
+
+/**
+ * Assemble the definition, filling the table from `composite`: the ID of
+ * g∘f, or null when C leaves a composite it depends on undefined.
+ */
+function assemble(
+  id: string,
+  name: string,
+  description: string,
+  objects: CategoryObject[],
+  morphisms: Morphism[],
+  composite: (f: Morphism, g: Morphism) => string | null
+): CategoryDefinition {
+  const ids = new Set(morphisms.map((m) => m.id));
+  const identity = (m: Morphism) => m.source === m.target && m.id === identityId(m.source);
+  const compositions: CompositeEntry[] = [];
+  morphisms.filter((f) => !identity(f)).forEach((f) => {
+    morphisms.filter((g) => g.source === f.target && !identity(g)).forEach((g) => {
+      const result = composite(f, g);
+      if (result !== null && ids.has(result)) compositions.push({ before: f.id, after: g.id, result });
+    });
+  });
+  return { id, name, description, objects, morphisms, compositions };
+}
+
+// C × D: pairs of objects, pairs of arrows, composed component by component
+export function productCategory(C: CategoryDefinition, D: CategoryDefinition): CategoryDefinition {
+  const c = createFiniteCategory(C, C.compositions);
+  const d = createFiniteCategory(D, D.compositions);
+  const objectId = (a: string, b: string) => `(${a},${b})`;
+  const arrowId = (f: string, g: string) => {
+    const fm = c.morphismById.get(f)!;
+    const gm = d.morphismById.get(g)!;
+    return isIdentity(c, f) && isIdentity(d, g) ? identityId(objectId(fm.source, gm.source)) : `(${f},${g})`;
+  };
+
+  const objects = c.objects.flatMap((a, i) =>
+    d.objects.map((b, j) => ({ id: objectId(a.id, b.id), label: `(${a.label},${b.label})`, x: i * 90, y: j * 70 }))
+  );
+  const parts = new Map<string, [string, string]>();
+  const morphisms = c.morphisms.flatMap((f) =>
+    d.morphisms.map((g) => {
+      const id = arrowId(f.id, g.id);
+      parts.set(id, [f.id, g.id]);
+      return {
+        id,
+        label: `(${f.label},${g.label})`,
+        source: objectId(f.source, g.source),
+        target: objectId(f.target, g.target),
+      };
+    })
+  );
+
+  return assemble(
+    `${C.id}x${D.id}`,
+    `${C.name} × ${D.name}`,
+    'Pairs of objects and pairs of arrows, composed component by component',
+    objects,
+    morphisms,
+    (f, g) => {
+      const [f1, f2] = parts.get(f.id)!;
+      const [g1, g2] = parts.get(g.id)!;
+      const first = compose(c, f1, g1);
+      const second = compose(d, f2, g2);
+      return first !== null && second !== null ? arrowId(first, second) : null;
+    }
+  );
+}
+
+/**
+ * Slice C/X (over = true) and coslice X/C (over = false). Objects are the
+ * arrows into (out of) X; an arrow from f to g is an h of C with g∘h = f
+ * (h∘f = g).
+ */
+function sliceOrCoslice(C: CategoryDefinition, x: string, over: boolean): CategoryDefinition {
+  const c = createFiniteCategory(C, C.compositions);
+  const base = basePositions(c);
+  const xLabel = c.objects.find((o) => o.id === x)?.label ?? x;
+  const end = (f: Morphism) => (over ? f.source : f.target); // the end that is not X
+
+  const arrows = c.morphisms.filter((f) => (over ? f.target === x : f.source === x));
+  const objects = spread(arrows.map((f) => ({
+    id: f.id,
+    label: f.label,
+    x: base.get(end(f))?.x,
+    y: base.get(end(f))?.y,
+  })));
+
+  const arrowId = (h: string, f: string, g: string) =>
+    f === g && isIdentity(c, h) ? identityId(f) : `${h}|${f}|${g}`;
+  const parts = new Map<string, string>();
+  const morphisms = arrows.flatMap((f) =>
+    arrows.flatMap((g) =>
+      hom(c, end(f), end(g))
+        .filter((h) => (over ? compose(c, h.id, g.id) === f.id : compose(c, f.id, h.id) === g.id))
+        .map((h) => {
+          const id = arrowId(h.id, f.id, g.id);
+          parts.set(id, h.id);
+          return { id, label: h.label, source: f.id, target: g.id };
+        })
+    )
+  );
+
+  return assemble(
+    over ? `${C.id}/${x}` : `${x}/${C.id}`,
+    over ? `${C.name}/${xLabel}` : `${xLabel}/${C.name}`,
+    over
+      ? `Arrows into ${xLabel}; an arrow f → g is an h with g∘h = f`
+      : `Arrows out of ${xLabel}; an arrow f → g is an h with h∘f = g`,
+    objects,
+    morphisms,
+    (f, g) => {
+      const h = compose(c, parts.get(f.id)!, parts.get(g.id)!);
+      return h !== null ? arrowId(h, f.source, g.target) : null;
+    }
+  );
+}
+
+export function sliceCategory(C: CategoryDefinition, x: string): CategoryDefinition {
+  return sliceOrCoslice(C, x, true);
+}
+
+export function cosliceCategory(C: CategoryDefinition, x: string): CategoryDefinition {
+  return sliceOrCoslice(C, x, false);
+}
+
+/**
+ * The arrow category C^→: objects are the arrows of C, and an arrow from
+ * f: A → B to g: A' → B' is a commuting square (u, v) with v∘f = g∘u.
+ */
+export function arrowCategory(C: CategoryDefinition): CategoryDefinition {
+  const c = createFiniteCategory(C, C.compositions);
+  const base = basePositions(c);
+
+  // Identities sit on their objects, other arrows halfway along themselves
+  const objects = spread(c.morphisms.map((f) => {
+    const a = base.get(f.source)!;
+    const b = base.get(f.target)!;
+    return { id: f.id, label: f.label, x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+  }));
+
+  const arrowId = (u: string, v: string, f: string, g: string) =>
+    f === g && isIdentity(c, u) && isIdentity(c, v) ? identityId(f) : `(${u},${v})|${f}|${g}`;
+  const parts = new Map<string, [string, string]>();
+  const morphisms = c.morphisms.flatMap((f) =>
+    c.morphisms.flatMap((g) =>
+      hom(c, f.source, g.source).flatMap((u) =>
+        hom(c, f.target, g.target)
+          .filter((v) => {
+            const vf = compose(c, f.id, v.id);
+            return vf !== null && vf === compose(c, u.id, g.id);
+          })
+          .map((v) => {
+            const id = arrowId(u.id, v.id, f.id, g.id);
+            parts.set(id, [u.id, v.id]);
+            return { id, label: `(${label(c, u.id)},${label(c, v.id)})`, source: f.id, target: g.id };
+          })
+      )
+    )
+  );
+
+  return assemble(
+    `${C.id}-arrows`,
+    `${C.name}^→`,
+    'Arrows of C as objects; commuting squares as arrows',
+    objects,
+    morphisms,
+    (f, g) => {
+      const [u1, v1] = parts.get(f.id)!;
+      const [u2, v2] = parts.get(g.id)!;
+      const u = compose(c, u1, u2);
+      const v = compose(c, v1, v2);
+      return u !== null && v !== null ? arrowId(u, v, f.source, g.target) : null;
+    }
+  );
+}
+
+// The chosen objects with every arrow of C between them
+export function fullSubcategory(C: CategoryDefinition, keep: string[]): CategoryDefinition {
+  const c = createFiniteCategory(C, C.compositions);
+  const base = basePositions(c);
+  const kept = new Set(keep);
+  const objects = c.objects
+    .filter((o) => kept.has(o.id))
+    .map((o) => ({ ...o, x: base.get(o.id)!.x, y: base.get(o.id)!.y }));
+  const morphisms = C.morphisms.filter((m) => kept.has(m.source) && kept.has(m.target));
+  const ids = new Set([...morphisms.map((m) => m.id), ...keep.map(identityId)]);
+
+  return {
+    id: `${C.id}-full-${keep.join('-')}`,
+    name: `${C.name} on {${objects.map((o) => o.label).join(', ')}}`,
+    description: 'Every arrow between the chosen objects, composed as in C',
+    objects,
+    morphisms,
+    compositions: C.compositions.filter((e) => ids.has(e.before) && ids.has(e.after) && ids.has(e.result)),
+  };
+}
+
+export interface FunctorCategory {
+  definition: CategoryDefinition;
+  functors: Functor[]; // the objects, in the order they were enumerated
+  transformations: NaturalTransformation[]; // the arrows, identities included
+  truncated: boolean; // stopped at the limit, so the table is not a category
+}
+
+/**
+ * The functor category [C, D]: every functor C → D as an object and every
+ * natural transformation between two of them as an arrow, composed
+ * vertically, (θ∘η)_A = θ_A∘η_A. A functor is labelled by where it sends
+ * the arrows of C (and objects no arrow touches), so [2, D] reads like D^→.
+ * `limit` bounds both the functors and the transformations in total.
+ */
+export function functorCategory(C: CategoryDefinition, D: CategoryDefinition, limit = 400): FunctorCategory {
+  const c = createFiniteCategory(C, C.compositions);
+  const d = createFiniteCategory(D, D.compositions);
+  const base = basePositions(d);
+  const enumeration = enumerateFunctors(c, d, limit);
+  let truncated = enumeration.truncated;
+
+  const arrows = nonIdentityMorphisms(c);
+  const isolated = c.objects.filter((o) => !arrows.some((m) => m.source === o.id || m.target === o.id));
+  const functorLabel = (maps: (typeof enumeration.functors)[number]) => {
+    const parts = [
+      ...isolated.map((o) => d.objects.find((x) => x.id === maps.objectMap[o.id])!.label),
+      ...arrows.map((m) => label(d, applyFunctor(c, d, maps, m.id)!)),
+    ];
+    return parts.length === 1 ? parts[0] : `(${parts.join(',')})`;
+  };
+
+  const functors = enumeration.functors.map((maps, i) =>
+    toFunctor(`F${i + 1}`, functorLabel(maps), c, d, maps)
+  );
+  // Each functor sits at the average position of its image
+  const objects = spread(functors.map((F) => {
+    const images = c.objects.map((o) => base.get(F.objectMapping.get(o.id)!)!);
+    return {
+      id: F.id,
+      label: F.name,
+      x: images.reduce((sum, p) => sum + p.x, 0) / Math.max(images.length, 1),
+      y: images.reduce((sum, p) => sum + p.y, 0) / Math.max(images.length, 1),
+    };
+  }));
+
+  // A transformation is determined by its ends and its components
+  const key = (F: string, G: string, components: Map<string, string>) =>
+    `${F}|${G}|${c.objects.map((o) => components.get(o.id)).join(',')}`;
+  const ids = new Map<string, string>();
+  const transformations: NaturalTransformation[] = [];
+  functors.forEach((F, i) => {
+    functors.forEach((G, j) => {
+      if (truncated) return;
+      const found = enumerateNaturalTransformations(
+        c, d, enumeration.functors[i], enumeration.functors[j], limit - transformations.length
+      );
+      truncated = found.truncated;
+      found.transformations.forEach((components) => {
+        const trivial = F === G && c.objects.every((o) => isIdentity(d, components.get(o.id)!));
+        const id = trivial ? identityId(F.id) : key(F.id, G.id, components);
+        ids.set(key(F.id, G.id, components), id);
+        const parts = c.objects.map((o) => label(d, components.get(o.id)!));
+        transformations.push({
+          id,
+          name: parts.length === 1 ? parts[0] : `(${parts.join(',')})`,
+          sourceFunctor: F.id,
+          targetFunctor: G.id,
+          components,
+        });
+      });
+    });
+  });
+  const byId = new Map(transformations.map((eta) => [eta.id, eta]));
+
+  const definition = assemble(
+    `[${C.id},${D.id}]`,
+    `[${C.name}, ${D.name}]`,
+    'Functors as objects; natural transformations as arrows, composed component by component',
+    objects,
+    transformations.map((eta) => ({
+      id: eta.id,
+      label: eta.name,
+      source: eta.sourceFunctor,
+      target: eta.targetFunctor,
+    })),
+    (f, g) => {
+      const eta = byId.get(f.id)!;
+      const theta = byId.get(g.id)!;
+      const components = new Map<string, string>();
+      for (const o of c.objects) {
+        const composite = compose(d, eta.components.get(o.id)!, theta.components.get(o.id)!);
+        if (composite === null) return null;
+        components.set(o.id, composite);
+      }
+      return ids.get(key(eta.sourceFunctor, theta.targetFunctor, components)) ?? null;
+    }
+  );
+
+  return { definition, functors, transformations, truncated };
+}
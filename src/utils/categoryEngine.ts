@@ -0,0 +1,383 @@
+/**
+ * Finite category engine
+ *
+ * Turns a `Category` plus an explicit (partial) composition table into
+ * something the simulators can compute with: identities are derived,
+ * composites are looked up, hom-sets and composable paths are enumerated.
+ */
+
+import { Category, CategoryDefinition, CategoryObject, CompositeEntry, Morphism } from './categoryTypes';
+
+export interface FiniteCategory {
+  id: string;
+  name: string;
+  objects: CategoryObject[];
+  morphisms: Morphism[]; // derived identities first, then the given morphisms
+  identities: Record<string, string>; // object ID -> identity morphism ID
+  table: CompositeEntry[]; // composition table as supplied
+  morphismById: Map<string, Morphism>;
+  composites: Map<string, string>; // pairKey(before, after) -> result ID
+}
+
+export interface ComposablePath {
+  morphisms: string[]; // morphism IDs in order of application
+  source: string;
+  target: string;
+  composite: string | null; // null when the table does not define it
+}
+
+// Key for a composable pair in the composite lookup
+export function pairKey(before: string, after: string): string {
+  return JSON.stringify([before, after]);
+}
+
+// Conventional ID of the identity on an object
+export function identityId(objectId: string): string {
+  return `id_${objectId}`;
+}
+
+/**
+ * Build a finite category from its objects, non-identity morphisms and a
+ * composition table. A morphism whose ID is already `id_X` on object X is
+ * taken to be that identity instead of getting a duplicate.
+ * When the table lists the same pair twice, the first entry wins.
+ */
+export function createFiniteCategory(
+  category: Category,
+  table: CompositeEntry[] = []
+): FiniteCategory {
+  const identities: Record<string, string> = {};
+  const identityMorphisms: Morphism[] = [];
+  const given = new Map(category.morphisms.map((m) => [m.id, m]));
+
+  category.objects.forEach((obj) => {
+    const id = identityId(obj.id);
+    identities[obj.id] = id;
+    const existing = given.get(id);
+    if (existing && existing.source === obj.id && existing.target === obj.id) {
+      identityMorphisms.push(existing);
+      given.delete(id);
+    } else {
+      identityMorphisms.push({ id, label: `id_${obj.label}`, source: obj.id, target: obj.id });
+    }
+  });
+
+  const morphisms = [...identityMorphisms, ...given.values()];
+  const composites = new Map<string, string>();
+  table.forEach((entry) => {
+    const key = pairKey(entry.before, entry.after);
+    if (!composites.has(key)) {
+      composites.set(key, entry.result);
+    }
+  });
+
+  return {
+    id: category.id,
+    name: category.name,
+    objects: category.objects,
+    morphisms,
+    identities,
+    table,
+    morphismById: new Map(morphisms.map((m) => [m.id, m])),
+    composites,
+  };
+}
+
+export function getMorphism(cat: FiniteCategory, id: string): Morphism | undefined {
+  return cat.morphismById.get(id);
+}
+
+export function isIdentity(cat: FiniteCategory, id: string): boolean {
+  const m = cat.morphismById.get(id);
+  return !!m && cat.identities[m.source] === id;
+}
+
+// Morphisms other than the derived identities
+export function nonIdentityMorphisms(cat: FiniteCategory): Morphism[] {
+  return cat.morphisms.filter((m) => !isIdentity(cat, m.id));
+}
+
+export function isComposable(cat: FiniteCategory, f: string, g: string): boolean {
+  const mf = cat.morphismById.get(f);
+  const mg = cat.morphismById.get(g);
+  return !!mf && !!mg && mf.target === mg.source;
+}
+
+/**
+ * g∘f — first f, then g. Returns the composite's ID, or null when the pair
+ * is not composable or the table leaves the composite undefined.
+ */
+export function compose(cat: FiniteCategory, f: string, g: string): string | null {
+  if (!isComposable(cat, f, g)) return null;
+  if (isIdentity(cat, f)) return g;
+  if (isIdentity(cat, g)) return f;
+  return cat.composites.get(pairKey(f, g)) ?? null;
+}
+
+// Compose a path given in order of application
+export function composePath(cat: FiniteCategory, path: string[]): string | null {
+  if (path.length === 0) return null;
+  let result: string | null = path[0];
+  if (!cat.morphismById.has(result)) return null;
+  for (let i = 1; i < path.length && result !== null; i++) {
+    result = compose(cat, result, path[i]);
+  }
+  return result;
+}
+
+// Hom(A, B), including the identity when A = B
+export function hom(cat: FiniteCategory, a: string, b: string): Morphism[] {
+  return cat.morphisms.filter((m) => m.source === a && m.target === b);
+}
+
+/**
+ * All composable paths of non-identity morphisms with 1..maxLength steps.
+ * The bound keeps cyclic graphs finite.
+ */
+export function composablePaths(cat: FiniteCategory, maxLength = 3): ComposablePath[] {
+  const arrows = nonIdentityMorphisms(cat);
+  const paths: ComposablePath[] = [];
+
+  const extend = (path: Morphism[]) => {
+    const ids = path.map((m) => m.id);
+    paths.push({
+      morphisms: ids,
+      source: path[0].source,
+      target: path[path.length - 1].target,
+      composite: composePath(cat, ids),
+    });
+    if (path.length >= maxLength) return;
+    const last = path[path.length - 1];
+    arrows
+      .filter((m) => m.source === last.target)
+      .forEach((m) => extend([...path, m]));
+  };
+
+  arrows.forEach((m) => extend([m]));
+  return paths;
+}
+
+// Two-sided inverse of f, or null when f is not an isomorphism
+export function inverse(cat: FiniteCategory, f: string): string | null {
+  const m = cat.morphismById.get(f);
+  if (!m) return null;
+  const candidate = hom(cat, m.target, m.source).find(
+    (g) => compose(cat, f, g.id) === cat.identities[m.source]
+      && compose(cat, g.id, f) === cat.identities[m.target]
+  );
+  return candidate?.id ?? null;
+}
+
+// Some isomorphism a → b, or null when the objects are not isomorphic
+export function findIsomorphism(cat: FiniteCategory, a: string, b: string): string | null {
+  return hom(cat, a, b).find((m) => inverse(cat, m.id) !== null)?.id ?? null;
+}
+
+// Formal label of a path, e.g. "h∘g∘f" for [f, g, h]
+export function pathLabel(cat: FiniteCategory, path: string[]): string {
+  return [...path]
+    .reverse()
+    .map((id) => cat.morphismById.get(id)?.label ?? id)
+    .join('∘');
+}
+
+// ============================================================
+// Duality
+// ============================================================
+
+const OP = 'ᵒᵖ';
+
+// Toggle an ᵒᵖ suffix: f ↦ fᵒᵖ, g∘f ↦ (g∘f)ᵒᵖ, and back again
+export function opLabel(label: string): string {
+  if (label.endsWith(OP)) {
+    const inner = label.slice(0, -OP.length);
+    return inner.startsWith('(') && inner.endsWith(')') ? inner.slice(1, -1) : inner;
+  }
+  return label.includes('∘') ? `(${label})${OP}` : `${label}${OP}`;
+}
+
+/**
+ * The opposite graph: same objects, every arrow reversed. IDs are kept,
+ * so reversing twice gives back what you started with. Identities keep
+ * their labels, since id_A is its own opposite.
+ */
+export function oppositeGraph(graph: Category): Category {
+  return {
+    id: graph.id.endsWith('-op') ? graph.id.slice(0, -3) : `${graph.id}-op`,
+    name: opLabel(graph.name),
+    objects: graph.objects,
+    morphisms: graph.morphisms.map((m) => ({
+      ...m,
+      label: m.id === identityId(m.source) && m.source === m.target ? m.label : opLabel(m.label),
+      source: m.target,
+      target: m.source,
+    })),
+  };
+}
+
+/**
+ * C^op: g∘f = h in C reads fᵒᵖ∘gᵒᵖ = hᵒᵖ in C^op, so every table entry
+ * swaps which arrow comes first.
+ */
+export function opposite(def: CategoryDefinition): CategoryDefinition {
+  return {
+    ...def,
+    ...oppositeGraph(def),
+    compositions: def.compositions.map((c) => ({ before: c.after, after: c.before, result: c.result })),
+  };
+}
+
+// ============================================================
+// Axiom checking
+// ============================================================
+
+export type AxiomViolationKind =
+  | 'ill-typed-composite'
+  | 'missing-composite'
+  | 'ambiguous-composite'
+  | 'identity-law'
+  | 'associativity';
+
+export interface AxiomViolation {
+  kind: AxiomViolationKind;
+  morphisms: string[]; // offending pair or triple, in order of application
+  message: string;
+}
+
+// Composable pairs of non-identity morphisms, [f, g] meaning g∘f
+export function composablePairs(cat: FiniteCategory): [string, string][] {
+  const arrows = nonIdentityMorphisms(cat);
+  const pairs: [string, string][] = [];
+  arrows.forEach((f) => {
+    arrows.forEach((g) => {
+      if (f.target === g.source) pairs.push([f.id, g.id]);
+    });
+  });
+  return pairs;
+}
+
+/**
+ * Table entries for undeclared composable pairs whose hom-set offers
+ * exactly one candidate, so the composite has no other choice.
+ */
+export function forcedComposites(category: Category, table: CompositeEntry[]): CompositeEntry[] {
+  const cat = createFiniteCategory(category, table);
+  return composablePairs(cat)
+    .filter(([f, g]) => !cat.composites.has(pairKey(f, g)))
+    .flatMap(([f, g]) => {
+      const candidates = hom(cat, cat.morphismById.get(f)!.source, cat.morphismById.get(g)!.target);
+      return candidates.length === 1 ? [{ before: f, after: g, result: candidates[0].id }] : [];
+    });
+}
+
+/**
+ * Check that a category with the given composition table satisfies the
+ * category axioms. Every failure is returned as a counterexample.
+ */
+export function checkCategoryAxioms(category: Category, table: CompositeEntry[]): AxiomViolation[] {
+  const cat = createFiniteCategory(category, table);
+  const violations: AxiomViolation[] = [];
+  const label = (id: string) => cat.morphismById.get(id)?.label ?? id;
+
+  // Declared entries must name real, composable morphisms with a result of the right type
+  const declared = new Map<string, string>();
+  table.forEach((entry) => {
+    const f = cat.morphismById.get(entry.before);
+    const g = cat.morphismById.get(entry.after);
+    const r = cat.morphismById.get(entry.result);
+    const formal = `${label(entry.after)}∘${label(entry.before)}`;
+
+    if (!f || !g || !r) {
+      violations.push({
+        kind: 'ill-typed-composite',
+        morphisms: [entry.before, entry.after],
+        message: `${formal} = ${label(entry.result)} refers to a morphism that does not exist`,
+      });
+      return;
+    }
+    if (f.target !== g.source) {
+      violations.push({
+        kind: 'ill-typed-composite',
+        morphisms: [f.id, g.id],
+        message: `${formal} is declared, but ${f.label} ends at ${f.target} and ${g.label} starts at ${g.source}`,
+      });
+      return;
+    }
+    if (r.source !== f.source || r.target !== g.target) {
+      violations.push({
+        kind: 'ill-typed-composite',
+        morphisms: [f.id, g.id],
+        message: `${formal} must go ${f.source}→${g.target}, but ${r.label} goes ${r.source}→${r.target}`,
+      });
+      return;
+    }
+    if (isIdentity(cat, f.id) || isIdentity(cat, g.id)) {
+      const expected = isIdentity(cat, f.id) ? g.id : f.id;
+      if (r.id !== expected) {
+        violations.push({
+          kind: 'identity-law',
+          morphisms: [f.id, g.id],
+          message: `${formal} should be ${label(expected)}, but is declared as ${r.label}`,
+        });
+      }
+      return;
+    }
+
+    const key = pairKey(f.id, g.id);
+    const previous = declared.get(key);
+    if (previous !== undefined && previous !== r.id) {
+      violations.push({
+        kind: 'ambiguous-composite',
+        morphisms: [f.id, g.id],
+        message: `${formal} is declared as both ${label(previous)} and ${r.label}`,
+      });
+    } else {
+      declared.set(key, r.id);
+    }
+  });
+
+  // Every composable pair needs exactly one composite
+  composablePairs(cat).forEach(([f, g]) => {
+    if (cat.composites.has(pairKey(f, g))) return;
+    const mf = cat.morphismById.get(f)!;
+    const mg = cat.morphismById.get(g)!;
+    const candidates = hom(cat, mf.source, mg.target);
+    const formal = `${mg.label}∘${mf.label}`;
+
+    if (candidates.length === 0) {
+      violations.push({
+        kind: 'missing-composite',
+        morphisms: [f, g],
+        message: `${formal}: ${mf.source}→${mg.target} has no morphism to be equal to`,
+      });
+    } else if (candidates.length > 1) {
+      violations.push({
+        kind: 'ambiguous-composite',
+        morphisms: [f, g],
+        message: `${formal} could be any of ${candidates.map((m) => m.label).join(', ')}; declare which one`,
+      });
+    }
+  });
+
+  // (h∘g)∘f = h∘(g∘f) wherever both sides are defined
+  const arrows = nonIdentityMorphisms(cat);
+  arrows.forEach((f) => {
+    arrows.filter((g) => g.source === f.target).forEach((g) => {
+      arrows.filter((h) => h.source === g.target).forEach((h) => {
+        const gf = compose(cat, f.id, g.id);
+        const hg = compose(cat, g.id, h.id);
+        if (gf === null || hg === null) return;
+        const left = compose(cat, f.id, hg);
+        const right = compose(cat, gf, h.id);
+        if (left === null || right === null || left === right) return;
+        violations.push({
+          kind: 'associativity',
+          morphisms: [f.id, g.id, h.id],
+          message: `(${h.label}∘${g.label})∘${f.label} = ${label(left)}, but ${h.label}∘(${g.label}∘${f.label}) = ${label(right)}`,
+        });
+      });
+    });
+  });
+
+  return violations;
+}
@@ -0,0 +1,90 @@
+/**
+ * Reading and writing category definitions as JSON files
+ *
+ * File format:
+ *   {
+ *     "name": "My category",
+ *     "objects": [{ "id": "A", "label": "A" }, ...],
+ *     "morphisms": [{ "id": "f", "label": "f", "source": "A", "target": "B" }, ...],
+ *     "compositions": [{ "before": "f", "after": "g", "result": "h" }, ...]
+ *   }
+ */
+
+import { CategoryDefinition } from './categoryTypes';
+import { checkCategoryAxioms, forcedComposites } from './categoryEngine';
+
+export type CategoryCheckResult =
+  | { ok: true; category: CategoryDefinition }
+  | { ok: false; error: string };
+
+/**
+ * Fill in forced composites and make sure the result is a category, so the
+ * definition can be handed to any simulator.
+ */
+export function completeDefinition(definition: CategoryDefinition): CategoryCheckResult {
+  const compositions = [
+    ...definition.compositions,
+    ...forcedComposites(definition, definition.compositions),
+  ];
+  const violations = checkCategoryAxioms(definition, compositions);
+  if (violations.length > 0) {
+    return { ok: false, error: `Not a category: ${violations[0].message}` };
+  }
+  return { ok: true, category: { ...definition, compositions } };
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+export function parseCategoryFile(text: string, fallbackName = 'Imported'): CategoryCheckResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, error: 'File is not valid JSON' };
+  }
+  if (typeof data !== 'object' || data === null) {
+    return { ok: false, error: 'Expected an object with "objects" and "morphisms"' };
+  }
+
+  const raw = data as Record<string, unknown>;
+  const objects = Array.isArray(raw.objects) ? raw.objects : null;
+  const morphisms = Array.isArray(raw.morphisms) ? raw.morphisms : [];
+  const compositions = Array.isArray(raw.compositions) ? raw.compositions : [];
+  if (!objects) {
+    return { ok: false, error: 'Missing "objects" array' };
+  }
+
+  if (!objects.every((o) => isString(o?.id))) {
+    return { ok: false, error: 'Every object needs a string "id"' };
+  }
+  const objectIds = new Set(objects.map((o) => o.id as string));
+  if (!morphisms.every((m) => isString(m?.id) && objectIds.has(m.source) && objectIds.has(m.target))) {
+    return { ok: false, error: 'Every morphism needs an "id" and a "source"/"target" among the objects' };
+  }
+  if (!compositions.every((c) => isString(c?.before) && isString(c?.after) && isString(c?.result))) {
+    return { ok: false, error: 'Every composition needs "before", "after" and "result"' };
+  }
+
+  const name = isString(raw.name) ? raw.name : fallbackName;
+  return completeDefinition({
+    id: `file-${name}`,
+    name,
+    objects: objects.map((o) => ({
+      id: o.id,
+      label: isString(o.label) ? o.label : o.id,
+      ...(typeof o.x === 'number' && typeof o.y === 'number' ? { x: o.x, y: o.y } : {}),
+    })),
+    morphisms: morphisms.map((m) => ({
+      id: m.id,
+      label: isString(m.label) ? m.label : m.id,
+      source: m.source,
+      target: m.target,
+    })),
+    compositions: compositions.map((c) => ({ before: c.before, after: c.after, result: c.result })),
+  });
+}
+
+export function toCategoryFile(definition: CategoryDefinition): string {
+  const { name, objects, morphisms, compositions } = definition;
+  return JSON.stringify({ name, objects, morphisms, compositions }, null, 2);
+}
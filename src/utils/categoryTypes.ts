@@ -24,6 +24,34 @@ export interface Category {
   morphisms: Morphism[];
 }
 
+// Object with a fixed canvas position (used by the simulators)
+export interface PlacedObject extends CategoryObject {
+  x: number;
+  y: number;
+}
+
+// Composition table entry: after ∘ before = result (morphism IDs)
+export interface CompositeEntry {
+  before: string;
+  after: string;
+  result: string;
+}
+
+// Category together with its composition table (what gets saved, loaded and shared)
+export interface CategoryDefinition extends Category {
+  description?: string;
+  compositions: CompositeEntry[];
+}
+
+// Derived categories the Category Builder can construct from finite ones
+export type CategoryConstruction =
+  | 'product'
+  | 'slice'
+  | 'coslice'
+  | 'arrow'
+  | 'full-subcategory'
+  | 'functor-category';
+
 // Functor between categories
 export interface Functor {
   id: string;
@@ -32,6 +60,18 @@ export interface Functor {
   targetCategory: string;
   objectMapping: Map<string, string>; // source obj ID -> target obj ID
   morphismMapping: Map<string, string>; // source morph ID -> target morph ID
+  properties?: FunctorProperties; // computed when both categories are finite
+}
+
+// Properties of a functor F: C → D
+export interface FunctorProperties {
+  faithful: boolean; // injective on each hom-set
+  full: boolean; // surjective onto each Hom(F(A), F(B))
+  injectiveOnObjects: boolean;
+  surjectiveOnObjects: boolean;
+  essentiallySurjective: boolean; // every object of D is isomorphic to some F(A)
+  conservative: boolean; // reflects isomorphisms
+  equivalence: boolean; // full, faithful and essentially surjective
 }
 
 // Natural transformation between functors
@@ -129,7 +169,12 @@ export type SimulatorType =
   | 'category-builder'
   | 'morphism-composer'
   | 'functor-mapper'
+  | 'adjunction-explorer'
+  | 'galois-playground'
+  | 'duality-translator'
   | 'product-builder'
+  | 'equaliser-builder'
+  | 'exponential-builder'
   | 'diagram-chaser'
   | 'natural-transformation';
 
@@ -144,7 +189,7 @@ export interface DiagramNode {
   label: string;
   x?: number;
   y?: number;
-  type?: 'object' | 'product' | 'coproduct' | 'initial' | 'terminal';
+  type?: 'object' | 'product' | 'coproduct' | 'initial' | 'terminal' | 'zero';
 }
 
 export interface DiagramLink {
@@ -0,0 +1,214 @@
+/**
+ * Diagram chasing: which paths of a diagram are equal?
+ *
+ * A diagram is a directed graph together with asserted path equations. Two
+ * paths are provably equal when one can be rewritten into the other by
+ * replacing a segment that matches one side of an equation with the other
+ * side; doing this inside longer paths is how new equalities are derived by
+ * composition. Paths are only explored up to a length bound, as in
+ * freeCategory.ts.
+ */
+
+import { Category, CategoryDefinition } from './categoryTypes';
+import { createFiniteCategory, nonIdentityMorphisms } from './categoryEngine';
+import {
+  enumeratePaths,
+  GraphPath,
+  graphPathLabel,
+  PathEquation,
+  pathKey,
+  pathTarget,
+  rewriteOnce,
+} from './freeCategory';
+import { SetInterpretation } from './finiteSets';
+
+export interface Diagram {
+  id: string;
+  name: string;
+  description?: string;
+  graph: Category;
+  equations: PathEquation[]; // asserted commutativity conditions
+  interpretation?: SetInterpretation; // finite sets and functions, for chasing elements
+}
+
+// One rewrite: the segment at `position` was replaced using an equation
+export interface ProofStep {
+  path: GraphPath; // the path after the rewrite
+  equation: number; // index into the diagram's equations
+  reversed: boolean; // used right to left
+  position: number; // index of the first replaced arrow
+}
+
+export interface CommutationReport {
+  commutes: boolean;
+  classes: GraphPath[][]; // non-empty parallel paths grouped by provable equality
+  failures: [GraphPath, GraphPath][]; // one pair per class that is not equal to its neighbour
+  derived: PathEquation[]; // equalities that follow without being asserted
+  truncated: boolean; // some rewrite would exceed the bound
+}
+
+interface Visit {
+  path: GraphPath;
+  parent: string | null;
+  step: ProofStep | null;
+}
+
+const samePath = (a: GraphPath, b: GraphPath) => pathKey(a) === pathKey(b);
+
+// Every path one rewrite away from `path`, plus whether any was too long to keep
+function rewrites(
+  graph: Category,
+  equations: PathEquation[],
+  path: GraphPath,
+  maxLength: number
+): { steps: ProofStep[]; truncated: boolean } {
+  const steps: ProofStep[] = [];
+  let truncated = false;
+
+  equations.forEach((eq, equation) => {
+    ([[eq.lhs, eq.rhs, false], [eq.rhs, eq.lhs, true]] as const).forEach(([from, to, reversed]) => {
+      rewriteOnce(graph, path, from, to).forEach(({ path: next, position }) => {
+        if (next.arrows.length > maxLength) {
+          truncated = true;
+          return;
+        }
+        steps.push({ path: next, equation, reversed, position });
+      });
+    });
+  });
+  return { steps, truncated };
+}
+
+// Breadth-first search over rewrites, so every proof found is a shortest one
+function explore(
+  graph: Category,
+  equations: PathEquation[],
+  start: GraphPath,
+  maxLength: number
+): { visits: Map<string, Visit>; truncated: boolean } {
+  const visits = new Map<string, Visit>([[pathKey(start), { path: start, parent: null, step: null }]]);
+  const queue = [start];
+  let truncated = false;
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    const next = rewrites(graph, equations, current, maxLength);
+    truncated = truncated || next.truncated;
+    next.steps.forEach((step) => {
+      const key = pathKey(step.path);
+      if (visits.has(key)) return;
+      visits.set(key, { path: step.path, parent: pathKey(current), step });
+      queue.push(step.path);
+    });
+  }
+  return { visits, truncated };
+}
+
+function traceBack(visits: Map<string, Visit>, key: string): ProofStep[] {
+  const steps: ProofStep[] = [];
+  let visit = visits.get(key);
+  while (visit && visit.step && visit.parent !== null) {
+    steps.unshift(visit.step);
+    visit = visits.get(visit.parent);
+  }
+  return steps;
+}
+
+/**
+ * Rewrites turning lhs into rhs, or null when the equations do not prove
+ * them equal within the bound. An empty list means the paths are identical.
+ */
+export function provePathEquality(
+  diagram: Diagram,
+  lhs: GraphPath,
+  rhs: GraphPath,
+  maxLength: number
+): ProofStep[] | null {
+  const { visits } = explore(diagram.graph, diagram.equations, lhs, maxLength);
+  const key = pathKey(rhs);
+  return visits.has(key) ? traceBack(visits, key) : null;
+}
+
+/**
+ * Does the diagram commute? Every two non-empty paths with the same source
+ * and target must be provably equal. Paths longer than maxLength are not
+ * considered, so cyclic diagrams are only checked up to the bound.
+ */
+export function checkCommutation(diagram: Diagram, maxLength: number): CommutationReport {
+  const { graph, equations } = diagram;
+  const paths = enumeratePaths(graph, maxLength).filter((p) => p.arrows.length > 0);
+  const assigned = new Set<string>();
+  const classes: GraphPath[][] = [];
+  const failures: [GraphPath, GraphPath][] = [];
+  const derived: PathEquation[] = [];
+  let truncated = false;
+
+  const asserted = (a: GraphPath, b: GraphPath) => equations.some(
+    (eq) => (samePath(eq.lhs, a) && samePath(eq.rhs, b)) || (samePath(eq.lhs, b) && samePath(eq.rhs, a))
+  );
+
+  // Group parallel paths by their endpoints, keeping enumeration order
+  const groups = new Map<string, GraphPath[]>();
+  paths.forEach((p) => {
+    const key = `${p.source}→${pathTarget(graph, p)}`;
+    groups.set(key, [...(groups.get(key) ?? []), p]);
+  });
+
+  groups.forEach((group) => {
+    const groupClasses: GraphPath[][] = [];
+    group.forEach((p) => {
+      if (assigned.has(pathKey(p))) return;
+      const result = explore(graph, equations, p, maxLength);
+      truncated = truncated || result.truncated;
+      // Shortest member first, so derived equations read "long path = short path"
+      const members = group
+        .filter((q) => result.visits.has(pathKey(q)))
+        .sort((x, y) => x.arrows.length - y.arrows.length);
+      members.forEach((q) => {
+        assigned.add(pathKey(q));
+        if (q !== members[0] && !asserted(q, members[0])) derived.push({ lhs: q, rhs: members[0] });
+      });
+      groupClasses.push(members);
+    });
+    for (let i = 1; i < groupClasses.length; i++) {
+      failures.push([groupClasses[i - 1][0], groupClasses[i][0]]);
+    }
+    classes.push(...groupClasses);
+  });
+
+  return { commutes: failures.length === 0, classes, failures, derived, truncated };
+}
+
+// "h∘g = k" with the graph's labels
+export function equationLabel(graph: Category, eq: PathEquation): string {
+  return `${graphPathLabel(graph, eq.lhs)} = ${graphPathLabel(graph, eq.rhs)}`;
+}
+
+/**
+ * The diagram of a finite category: its non-identity morphisms as arrows and
+ * every composition table entry as an equation.
+ */
+export function diagramFromCategory(def: CategoryDefinition): Diagram {
+  const cat = createFiniteCategory(def, def.compositions);
+  const arrows = nonIdentityMorphisms(cat);
+  const isArrow = (id: string) => arrows.some((m) => m.id === id);
+  const pathOf = (id: string): GraphPath => {
+    const m = cat.morphismById.get(id)!;
+    return isArrow(id) ? { source: m.source, arrows: [id] } : { source: m.source, arrows: [] };
+  };
+
+  const equations = def.compositions
+    .filter((entry) => isArrow(entry.before) && isArrow(entry.after) && cat.morphismById.has(entry.result))
+    .map((entry) => ({
+      lhs: { source: cat.morphismById.get(entry.before)!.source, arrows: [entry.before, entry.after] },
+      rhs: pathOf(entry.result),
+    }));
+
+  return {
+    id: `diagram-${def.id}`,
+    name: def.name,
+    description: def.description,
+    graph: { id: def.id, name: def.name, objects: def.objects, morphisms: arrows },
+    equations,
+  };
+}
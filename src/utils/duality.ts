@@ -0,0 +1,83 @@
+/**
+ * Translating statements into their duals
+ *
+ * Reading a statement in C^op reverses every arrow and every composite:
+ * "f: A → B" becomes "f: B → A" and "f∘g" becomes "g∘f". Named concepts
+ * are swapped for their duals from a dictionary (product ↔ coproduct, …).
+ */
+
+export interface DualStatement {
+  text: string;
+  used: [string, string][]; // dictionary pairs that occurred, as written → dual
+}
+
+const NAME = "[\\p{L}\\p{N}_']+";
+const FACTOR = `(?:${NAME}|\\([^()]*\\))`;
+const CHAIN = `${FACTOR}(?:\\s*∘\\s*${FACTOR})+`;
+const ARROW = `(${NAME})(\\s*)([→⇒])(\\s*)(${NAME})`;
+
+const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Keep a capital first letter when the match had one
+const matchCase = (match: string, replacement: string) =>
+  match[0] !== match[0].toLowerCase()
+    ? replacement[0].toUpperCase() + replacement.slice(1)
+    : replacement;
+
+export function dualizeStatement(text: string, terms: [string, string][]): DualStatement {
+  const dictionary = new Map<string, string>();
+  terms.forEach(([a, b]) => {
+    dictionary.set(a.toLowerCase(), b);
+    dictionary.set(b.toLowerCase(), a);
+  });
+
+  // Longest terms first, so "split mono" wins over "mono"
+  const words = [...dictionary.keys()].sort((a, b) => b.length - a.length).map(escape);
+  const boundary = '(?<![\\p{L}\\p{N}_])';
+  const pattern = new RegExp(
+    `(${CHAIN})|${ARROW}|${boundary}(${words.join('|') || '(?!)'})(?![\\p{L}\\p{N}_])`,
+    'giu'
+  );
+
+  const used = new Map<string, string>();
+  const swap = (word: string) => {
+    const dual = dictionary.get(word.toLowerCase());
+    if (dual === undefined) return word;
+    used.set(word.toLowerCase(), dual.toLowerCase());
+    return matchCase(word, dual);
+  };
+
+  // h∘(g∘f) reads (fᵒᵖ∘gᵒᵖ)∘hᵒᵖ: reverse the factors, and inside brackets too
+  const reverseChain = (chain: string): string => {
+    const factors: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const ch of chain) {
+      if (ch === '(') depth++;
+      if (ch === ')') depth--;
+      if (ch === '∘' && depth === 0) {
+        factors.push(current.trim());
+        current = '';
+      } else {
+        current += ch;
+      }
+    }
+    factors.push(current.trim());
+    return factors
+      .map((f) => (f.startsWith('(') ? `(${reverseChain(f.slice(1, -1))})` : swap(f)))
+      .reverse()
+      .join('∘');
+  };
+
+  const result = text.replace(pattern, (match, chain, source, before, arrow, after, target, word) => {
+    if (chain) {
+      return reverseChain(match);
+    }
+    if (arrow) {
+      return `${swap(target)}${before}${arrow}${after}${swap(source)}`;
+    }
+    return swap(word);
+  });
+
+  return { text: result, used: [...used.entries()] };
+}
@@ -0,0 +1,504 @@
+/**
+ * Limits and colimits of finite diagrams in FinSet
+ *
+ * A diagram is a graph whose objects are finite sets and whose arrows are
+ * functions (a SetInterpretation). The limit is the set of compatible
+ * families: one element per object, matched by every arrow. The colimit is
+ * the disjoint union of all the sets, glued along every arrow. Equalisers,
+ * coequalisers, pullbacks and pushouts are special cases worked out directly
+ * on the two functions involved.
+ */
+
+import { Category } from './categoryTypes';
+import { disjointUnion, FunctionTable, SetInterpretation, tupleLabel } from './finiteSets';
+
+export interface FiniteLimit {
+  apex: string[]; // compatible families, labelled as tuples in object order
+  families: Record<string, Record<string, string>>; // apex element -> object -> component
+  legs: Record<string, FunctionTable>; // object -> projection from the apex
+}
+
+export interface FiniteColimit {
+  apex: string[]; // equivalence classes [id:x], named by their first member
+  classes: Record<string, string[]>; // apex element -> tagged members; see taggedLabel for display
+  legs: Record<string, FunctionTable>; // object -> injection into the apex
+}
+
+// A competing cone or cocone: an apex set and one map per object
+export interface TestCone {
+  apex: string[];
+  legs: Record<string, FunctionTable>; // cone: apex -> F(i); cocone: F(i) -> apex
+}
+
+// The apex a competing (co)cone starts with, as the learner types it
+export const initialTestApex = 'x, y';
+
+export interface ConeFailure {
+  arrow: string;
+  element: string;
+  message: string;
+}
+
+export interface UniversalCheck {
+  failures: ConeFailure[]; // empty when the test data really is a (co)cone
+  mediating: FunctionTable | null; // the unique map to the limit / from the colimit
+}
+
+// Two parallel functions f, g: A → B between finite sets
+export interface ParallelPair {
+  domain: string[]; // A
+  codomain: string[]; // B
+  f: FunctionTable;
+  g: FunctionTable;
+}
+
+export interface FiniteCoequaliser {
+  apex: string[]; // the classes of B/~, labelled [b] by their first member
+  classes: Record<string, string[]>; // class -> members of B
+  quotient: FunctionTable; // q: B → B/~
+}
+
+/**
+ * Three sets with C as the shared corner: a cospan A →f C ←g B for
+ * pullbacks, or a span A ←f C →g B for pushouts.
+ */
+export interface CornerDiagram {
+  A: string[];
+  B: string[];
+  C: string[];
+  f: FunctionTable; // A → C in a cospan, C → A in a span
+  g: FunctionTable; // B → C in a cospan, C → B in a span
+}
+
+const objectLabeller = (graph: Category) => (id: string) => graph.objects.find((o) => o.id === id)?.label ?? id;
+
+// Element x of F(i) in the disjoint union; tagged by ID, since labels may repeat
+export function taggedElement(objectId: string, x: string): string {
+  return `${objectId}:${x}`;
+}
+
+// A tagged element, or a class [id:x] of them, with the object's label in place of its ID
+export function taggedLabel(graph: Category, element: string): string {
+  const bracketed = element.startsWith('[') && element.endsWith(']');
+  const inner = bracketed ? element.slice(1, -1) : element;
+  const obj = graph.objects.find((o) => inner.startsWith(`${o.id}:`));
+  const text = obj ? `${obj.label}:${inner.slice(obj.id.length + 1)}` : inner;
+  return bracketed ? `[${text}]` : text;
+}
+
+/**
+ * The smallest equivalence relation on `elements` containing the given
+ * pairs, as a function to each element's representative. Union-find with
+ * the earlier element kept as the root, so representatives are stable.
+ */
+function generatedEquivalence(elements: string[], pairs: [string, string][]): (e: string) => string {
+  const parent = new Map(elements.map((e) => [e, e]));
+  const find = (e: string): string => {
+    let root = e;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(e, root);
+    return root;
+  };
+
+  pairs.forEach(([x, y]) => {
+    const a = find(x);
+    const b = find(y);
+    const [keep, merge] = elements.indexOf(a) < elements.indexOf(b) ? [a, b] : [b, a];
+    if (a !== b) parent.set(merge, keep);
+  });
+  return find;
+}
+
+/**
+ * Families (x_i) with x_i ∈ F(i) and F(f)(x_i) = x_j for every f: i → j.
+ * Objects are filled in order and a family is dropped as soon as an arrow
+ * between filled objects disagrees.
+ */
+export function computeLimit(graph: Category, sets: SetInterpretation): FiniteLimit {
+  const objects = graph.objects;
+  const families: Record<string, string>[] = [];
+
+  const extend = (index: number, family: Record<string, string>) => {
+    if (index === objects.length) {
+      families.push({ ...family });
+      return;
+    }
+    const obj = objects[index];
+    (sets.sets[obj.id] ?? []).forEach((x) => {
+      family[obj.id] = x;
+      const consistent = graph.morphisms.every((m) => {
+        if (family[m.source] === undefined || family[m.target] === undefined) return true;
+        return sets.functions[m.id]?.[family[m.source]] === family[m.target];
+      });
+      if (consistent) extend(index + 1, family);
+      delete family[obj.id];
+    });
+  };
+  extend(0, {});
+
+  const label = (family: Record<string, string>) => tupleLabel(objects.map((o) => family[o.id]));
+  const apex = families.map(label);
+  return {
+    apex,
+    families: Object.fromEntries(families.map((f, i) => [apex[i], f])),
+    legs: Object.fromEntries(objects.map((o) => [o.id, Object.fromEntries(families.map((f, i) => [apex[i], f[o.id]]))])),
+  };
+}
+
+/**
+ * Disjoint union of the F(i), quotiented by x ~ F(f)(x) for every arrow f
+ * and every x in its domain.
+ */
+export function computeColimit(graph: Category, sets: SetInterpretation): FiniteColimit {
+  const elements = graph.objects.flatMap((o) => (sets.sets[o.id] ?? []).map((x) => taggedElement(o.id, x)));
+  const glued: [string, string][] = [];
+  graph.morphisms.forEach((m) => {
+    (sets.sets[m.source] ?? []).forEach((x) => {
+      const y = sets.functions[m.id]?.[x];
+      if (y !== undefined) glued.push([taggedElement(m.source, x), taggedElement(m.target, y)]);
+    });
+  });
+  const find = generatedEquivalence(elements, glued);
+
+  const classes: Record<string, string[]> = {};
+  elements.forEach((e) => {
+    const key = `[${find(e)}]`;
+    classes[key] = [...(classes[key] ?? []), e];
+  });
+
+  return {
+    apex: Object.keys(classes),
+    classes,
+    legs: Object.fromEntries(graph.objects.map((o) => [
+      o.id,
+      Object.fromEntries((sets.sets[o.id] ?? []).map((x) => [x, `[${find(taggedElement(o.id, x))}]`])),
+    ])),
+  };
+}
+
+/**
+ * Test a competing cone (X, c_i: X → F(i)) against the limit. When every
+ * c_j = F(f)∘c_i holds, the mediating map sends x to the family (c_i(x)),
+ * which is an element of the limit by construction.
+ */
+export function checkCone(graph: Category, sets: SetInterpretation, cone: TestCone): UniversalCheck {
+  const labelOf = objectLabeller(graph);
+  const failures: ConeFailure[] = [];
+  graph.morphisms.forEach((m) => {
+    cone.apex.forEach((x) => {
+      const viaArrow = sets.functions[m.id]?.[cone.legs[m.source]?.[x]];
+      const direct = cone.legs[m.target]?.[x];
+      if (viaArrow !== direct) {
+        failures.push({
+          arrow: m.id,
+          element: x,
+          message: `${m.label}(c_${labelOf(m.source)}(${x})) = ${viaArrow ?? '?'}, but c_${labelOf(m.target)}(${x}) = ${direct ?? '?'}`,
+        });
+      }
+    });
+  });
+  if (failures.length > 0) return { failures, mediating: null };
+
+  const mediating: FunctionTable = {};
+  cone.apex.forEach((x) => {
+    mediating[x] = tupleLabel(graph.objects.map((o) => cone.legs[o.id][x]));
+  });
+  return { failures, mediating };
+}
+
+/**
+ * Test a competing cocone (X, c_i: F(i) → X) against the colimit. The
+ * mediating map sends the class of x ∈ F(i) to c_i(x); it is well defined
+ * exactly when c_j∘F(f) = c_i for every f: i → j.
+ */
+export function checkCocone(
+  graph: Category,
+  sets: SetInterpretation,
+  colimit: FiniteColimit,
+  cocone: TestCone
+): UniversalCheck {
+  const labelOf = objectLabeller(graph);
+  const failures: ConeFailure[] = [];
+  graph.morphisms.forEach((m) => {
+    (sets.sets[m.source] ?? []).forEach((x) => {
+      const viaArrow = cocone.legs[m.target]?.[sets.functions[m.id]?.[x]];
+      const direct = cocone.legs[m.source]?.[x];
+      if (viaArrow !== direct) {
+        failures.push({
+          arrow: m.id,
+          element: x,
+          message: `c_${labelOf(m.target)}(${m.label}(${x})) = ${viaArrow ?? '?'}, but c_${labelOf(m.source)}(${x}) = ${direct ?? '?'}`,
+        });
+      }
+    });
+  });
+  if (failures.length > 0) return { failures, mediating: null };
+
+  const mediating: FunctionTable = {};
+  graph.objects.forEach((o) => {
+    (sets.sets[o.id] ?? []).forEach((x) => {
+      mediating[colimit.legs[o.id][x]] = cocone.legs[o.id][x];
+    });
+  });
+  return { failures, mediating };
+}
+
+// The equaliser of f and g: the elements of A on which they agree
+export function computeEqualiser(pair: ParallelPair): string[] {
+  return pair.domain.filter((a) => pair.f[a] === pair.g[a]);
+}
+
+// The coequaliser of f and g: B quotiented by f(a) ~ g(a) for every a ∈ A
+export function computeCoequaliser(pair: ParallelPair): FiniteCoequaliser {
+  const glued = pair.domain
+    .filter((a) => pair.f[a] !== undefined && pair.g[a] !== undefined)
+    .map((a): [string, string] => [pair.f[a], pair.g[a]]);
+  const find = generatedEquivalence(pair.codomain, glued);
+
+  const classes: Record<string, string[]> = {};
+  pair.codomain.forEach((b) => {
+    const key = `[${find(b)}]`;
+    classes[key] = [...(classes[key] ?? []), b];
+  });
+  return {
+    apex: Object.keys(classes),
+    classes,
+    quotient: Object.fromEntries(pair.codomain.map((b) => [b, `[${find(b)}]`])),
+  };
+}
+
+/**
+ * Test h: X → A against the equaliser. When f∘h = g∘h every h(x) lies in
+ * the equaliser, so the mediating map is h itself with its codomain cut
+ * down to E.
+ */
+export function checkEqualiserTest(pair: ParallelPair, apex: string[], h: FunctionTable): UniversalCheck {
+  const failures: ConeFailure[] = [];
+  apex.forEach((x) => {
+    const fx = pair.f[h[x]];
+    const gx = pair.g[h[x]];
+    if (fx !== gx) {
+      failures.push({
+        arrow: 'h',
+        element: x,
+        message: `f(h(${x})) = f(${h[x] ?? '?'}) = ${fx ?? '?'}, but g(h(${x})) = ${gx ?? '?'}`,
+      });
+    }
+  });
+  if (failures.length > 0) return { failures, mediating: null };
+  return { failures, mediating: Object.fromEntries(apex.map((x) => [x, h[x]])) };
+}
+
+/**
+ * Test k: B → X against the coequaliser. When k∘f = k∘g, k is constant on
+ * every class, so the mediating map sends [b] to k(b).
+ */
+export function checkCoequaliserTest(
+  pair: ParallelPair,
+  coequaliser: FiniteCoequaliser,
+  k: FunctionTable
+): UniversalCheck {
+  const failures: ConeFailure[] = [];
+  pair.domain.forEach((a) => {
+    const kf = k[pair.f[a]];
+    const kg = k[pair.g[a]];
+    if (kf !== kg) {
+      failures.push({
+        arrow: 'k',
+        element: a,
+        message: `k(f(${a})) = k(${pair.f[a] ?? '?'}) = ${kf ?? '?'}, but k(g(${a})) = k(${pair.g[a] ?? '?'}) = ${kg ?? '?'}`,
+      });
+    }
+  });
+  if (failures.length > 0) return { failures, mediating: null };
+  return {
+    failures,
+    mediating: Object.fromEntries(pair.codomain.map((b) => [coequaliser.quotient[b], k[b]])),
+  };
+}
+
+/**
+ * Pullback of a cospan A → C ← B: the pairs (a, b) with f(a) = g(b),
+ * projected onto A and B.
+ */
+export function computePullback(cospan: CornerDiagram): FiniteLimit {
+  const families = cospan.A.flatMap((a) => cospan.B
+    .filter((b) => cospan.f[a] !== undefined && cospan.f[a] === cospan.g[b])
+    .map((b) => ({ A: a, B: b })));
+  const apex = families.map((family) => tupleLabel([family.A, family.B]));
+  return {
+    apex,
+    families: Object.fromEntries(families.map((family, i) => [apex[i], family])),
+    legs: {
+      A: Object.fromEntries(families.map((family, i) => [apex[i], family.A])),
+      B: Object.fromEntries(families.map((family, i) => [apex[i], family.B])),
+    },
+  };
+}
+
+/**
+ * Pushout of a span A ← C → B: the coproduct A+B with ι₁(f(c)) glued to
+ * ι₂(g(c)) for every c ∈ C.
+ */
+export function computePushout(span: CornerDiagram): FiniteColimit {
+  const union = disjointUnion(span.A, span.B);
+  const labelIn = (tag: number, x: string) => union.find((e) => e.tag === tag && e.value === x)?.label ?? x;
+  const glued = span.C
+    .filter((c) => span.f[c] !== undefined && span.g[c] !== undefined)
+    .map((c): [string, string] => [labelIn(1, span.f[c]), labelIn(2, span.g[c])]);
+  const find = generatedEquivalence(union.map((e) => e.label), glued);
+
+  const classes: Record<string, string[]> = {};
+  union.forEach((e) => {
+    const key = `[${find(e.label)}]`;
+    classes[key] = [...(classes[key] ?? []), e.label];
+  });
+  return {
+    apex: Object.keys(classes),
+    classes,
+    legs: {
+      A: Object.fromEntries(span.A.map((a) => [a, `[${find(labelIn(1, a))}]`])),
+      B: Object.fromEntries(span.B.map((b) => [b, `[${find(labelIn(2, b))}]`])),
+    },
+  };
+}
+
+/**
+ * Test a cone p: X → A, q: X → B over the cospan. When f∘p = g∘q the
+ * mediating map is ⟨p, q⟩: X → P, sending x to (p(x), q(x)).
+ */
+export function checkPullbackCone(cospan: CornerDiagram, cone: TestCone): UniversalCheck {
+  const failures: ConeFailure[] = [];
+  cone.apex.forEach((x) => {
+    const [a, b] = [cone.legs.A?.[x], cone.legs.B?.[x]];
+    if (cospan.f[a] !== cospan.g[b]) {
+      failures.push({
+        arrow: 'f',
+        element: x,
+        message: `f(p(${x})) = f(${a ?? '?'}) = ${cospan.f[a] ?? '?'}, but g(q(${x})) = g(${b ?? '?'}) = ${cospan.g[b] ?? '?'}`,
+      });
+    }
+  });
+  if (failures.length > 0) return { failures, mediating: null };
+  return { failures, mediating: Object.fromEntries(cone.apex.map((x) => [x, tupleLabel([cone.legs.A[x], cone.legs.B[x]])])) };
+}
+
+/**
+ * Test a cocone p: A → X, q: B → X under the span. When p∘f = q∘g the
+ * mediating map [p, q]: P → X sends each class to the common value.
+ */
+export function checkPushoutCocone(span: CornerDiagram, pushout: FiniteColimit, cocone: TestCone): UniversalCheck {
+  const failures: ConeFailure[] = [];
+  span.C.forEach((c) => {
+    const viaA = cocone.legs.A?.[span.f[c]];
+    const viaB = cocone.legs.B?.[span.g[c]];
+    if (viaA !== viaB) {
+      failures.push({
+        arrow: 'f',
+        element: c,
+        message: `p(f(${c})) = p(${span.f[c] ?? '?'}) = ${viaA ?? '?'}, but q(g(${c})) = q(${span.g[c] ?? '?'}) = ${viaB ?? '?'}`,
+      });
+    }
+  });
+  if (failures.length > 0) return { failures, mediating: null };
+
+  const mediating: FunctionTable = {};
+  span.A.forEach((a) => { mediating[pushout.legs.A[a]] = cocone.legs.A[a]; });
+  span.B.forEach((b) => { mediating[pushout.legs.B[b]] = cocone.legs.B[b]; });
+  return { failures, mediating };
+}
+
+/**
+ * Where a mediating map may send each element, given a candidate (co)product
+ * and a test (co)cone over the same factors. For a product u: X → P needs
+ * legᵢ(u(x)) = fᵢ(x); for a coproduct u: P → X needs u(legᵢ(a)) = fᵢ(a).
+ * Both triangles can be made to commute iff no list is empty, and the
+ * mediating map is unique iff every list has exactly one entry.
+ */
+export function mediatingChoices(
+  factors: Record<string, string[]>,
+  candidate: TestCone,
+  test: TestCone,
+  isProduct: boolean
+): Record<string, string[]> {
+  const names = Object.keys(factors);
+  if (isProduct) {
+    return Object.fromEntries(test.apex.map((x) => [
+      x,
+      candidate.apex.filter((p) => names.every((name) => candidate.legs[name]?.[p] === test.legs[name]?.[x])),
+    ]));
+  }
+  return Object.fromEntries(candidate.apex.map((c) => [
+    c,
+    test.apex.filter((x) => names.every((name) => factors[name].every(
+      (a) => candidate.legs[name]?.[a] !== c || test.legs[name]?.[a] === x
+    ))),
+  ]));
+}
+
+/**
+ * Fill in whatever the interpretation leaves out, so every object has a set
+ * and every arrow a total function: missing sets become {1, 2} and missing
+ * values go to the first element of the target.
+ */
+export function completeInterpretation(graph: Category, partial: SetInterpretation | undefined): SetInterpretation {
+  const sets = Object.fromEntries(graph.objects.map((o) => [o.id, partial?.sets[o.id] ?? ['1', '2']]));
+  const functions = Object.fromEntries(graph.morphisms.map((m) => {
+    const codomain = sets[m.target];
+    const table = partial?.functions[m.id] ?? {};
+    return [m.id, Object.fromEntries(sets[m.source].map((x) => [
+      x,
+      codomain.includes(table[x]) ? table[x] : codomain[0],
+    ]))];
+  }));
+  return { sets, functions };
+}
+
+/**
+ * fn as a function domain → codomain: values still in the codomain are
+ * kept and the rest go to its first element. Empty when the codomain is.
+ */
+export function restrictFunction(fn: FunctionTable, domain: string[], codomain: string[]): FunctionTable {
+  return Object.fromEntries(domain
+    .filter(() => codomain.length > 0)
+    .map((x) => [x, codomain.includes(fn[x]) ? fn[x] : codomain[0]]));
+}
+
+/**
+ * A leg X → F(i) of a test cone. Values the learner has not chosen (or that
+ * left F(i)) follow the universal leg at the matching element of its apex,
+ * so an untouched cone factors through the limit.
+ */
+export function defaultConeLeg(
+  testApex: string[],
+  chosen: FunctionTable,
+  target: string[],
+  universalApex: string[],
+  universalLeg: (element: string) => string
+): FunctionTable {
+  return Object.fromEntries(testApex.map((x, i) => {
+    const fallback = universalApex.length > 0
+      ? universalLeg(universalApex[Math.min(i, universalApex.length - 1)])
+      : target[0];
+    return [x, target.includes(chosen[x]) ? chosen[x] : fallback];
+  }));
+}
+
+/**
+ * A leg F(i) → X of a test cocone. Unchosen values send the k-th class of
+ * the universal cocone to the k-th element of X, so an untouched cocone
+ * factors through the colimit.
+ */
+export function defaultCoconeLeg(
+  source: string[],
+  chosen: FunctionTable,
+  testApex: string[],
+  universalApex: string[],
+  universalLeg: (element: string) => string
+): FunctionTable {
+  return Object.fromEntries(source.map((y) => {
+    const classIndex = universalApex.indexOf(universalLeg(y));
+    const fallback = testApex[Math.min(classIndex, testApex.length - 1)];
+    return [y, testApex.includes(chosen[y]) ? chosen[y] : fallback];
+  }));
+}
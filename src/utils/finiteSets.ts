@@ -0,0 +1,151 @@
+/**
+ * Concrete semantics: objects as finite sets, morphisms as function tables
+ *
+ * Elements are plain strings so they can be shown as-is; structured values
+ * such as lists are written as JSON ("[1,2,3]").
+ */
+
+import { FiniteCategory, isIdentity, nonIdentityMorphisms } from './categoryEngine';
+
+export type FunctionTable = Record<string, string>; // element -> image
+
+// Finite sets and functions for (some of) a category's objects and morphisms
+export interface SetInterpretation {
+  sets: Record<string, string[]>; // object ID -> elements
+  functions: Record<string, FunctionTable>; // morphism ID -> table; identities are implicit
+}
+
+export interface InterpretationIssue {
+  morphisms: string[];
+  message: string;
+}
+
+// "a, b, c" -> ['a', 'b', 'c'], without blanks or repeats
+export function parseElements(text: string): string[] {
+  return [...new Set(text.split(',').map((x) => x.trim()).filter(Boolean))];
+}
+
+// Function table of fn on a finite domain
+export function tabulate(domain: string[], fn: (x: string) => string): FunctionTable {
+  return Object.fromEntries(domain.map((x) => [x, fn(x)]));
+}
+
+// Image of x under a morphism, or undefined when the table has no entry
+export function evaluate(
+  cat: FiniteCategory,
+  interpretation: SetInterpretation,
+  morphismId: string,
+  x: string
+): string | undefined {
+  if (isIdentity(cat, morphismId)) return x;
+  return interpretation.functions[morphismId]?.[x];
+}
+
+// x followed through a path (order of application), x included
+export function evaluatePath(
+  cat: FiniteCategory,
+  interpretation: SetInterpretation,
+  path: string[],
+  x: string
+): (string | undefined)[] {
+  const trace: (string | undefined)[] = [x];
+  path.forEach((id) => {
+    const current = trace[trace.length - 1];
+    trace.push(current === undefined ? undefined : evaluate(cat, interpretation, id, current));
+  });
+  return trace;
+}
+
+/**
+ * Check that the interpretation is a functor into finite sets: every table is
+ * a total function between the right sets, and each composite in the table is
+ * interpreted as the composite function.
+ */
+export function checkInterpretation(cat: FiniteCategory, interpretation: SetInterpretation): InterpretationIssue[] {
+  const issues: InterpretationIssue[] = [];
+  const arrows = nonIdentityMorphisms(cat);
+
+  arrows.forEach((m) => {
+    const domain = interpretation.sets[m.source];
+    const codomain = new Set(interpretation.sets[m.target] ?? []);
+    const table = interpretation.functions[m.id];
+    if (!domain || !table) {
+      issues.push({ morphisms: [m.id], message: `${m.label} has no function table` });
+      return;
+    }
+    const missing = domain.find((x) => table[x] === undefined);
+    if (missing !== undefined) {
+      issues.push({ morphisms: [m.id], message: `${m.label}(${missing}) is not defined` });
+      return;
+    }
+    const outside = domain.find((x) => !codomain.has(table[x]));
+    if (outside !== undefined) {
+      issues.push({ morphisms: [m.id], message: `${m.label}(${outside}) = ${table[outside]} is not in the target set` });
+    }
+  });
+
+  cat.table.forEach(({ before, after, result }) => {
+    const f = cat.morphismById.get(before);
+    const g = cat.morphismById.get(after);
+    if (!f || !g) return;
+    const counterexample = (interpretation.sets[f.source] ?? []).find((x) => {
+      const [, , gfx] = evaluatePath(cat, interpretation, [before, after], x);
+      return gfx !== evaluate(cat, interpretation, result, x);
+    });
+    if (counterexample !== undefined) {
+      issues.push({
+        morphisms: [before, after],
+        message: `${g.label}∘${f.label} should be ${cat.morphismById.get(result)?.label ?? result}, but they differ at ${counterexample}`,
+      });
+    }
+  });
+
+  return issues;
+}
+
+// Elements of A₁×…×Aₙ as tuples; the empty product has just the empty tuple
+export function cartesianProduct(...sets: string[][]): string[][] {
+  return sets.reduce<string[][]>((tuples, set) => tuples.flatMap((t) => set.map((x) => [...t, x])), [[]]);
+}
+
+export function tupleLabel(values: string[]): string {
+  return `(${values.join(', ')})`;
+}
+
+// 1 -> "₁", 12 -> "₁₂"
+export function subscript(n: number): string {
+  return String(n).replace(/\d/g, (d) => '₀₁₂₃₄₅₆₇₈₉'[Number(d)]);
+}
+
+// Elements of A₁+…+Aₙ, tagged (from 1) with the injection they come from
+export function disjointUnion(...sets: string[][]): { tag: number; value: string; label: string }[] {
+  return sets.flatMap((set, i) => set.map((value) => ({ tag: i + 1, value, label: `ι${subscript(i + 1)}(${value})` })));
+}
+
+// Every function domain → codomain, |codomain|^|domain| of them, in lexicographic order
+export function allFunctions(domain: string[], codomain: string[]): FunctionTable[] {
+  return cartesianProduct(...domain.map(() => codomain)).map((values) =>
+    Object.fromEntries(domain.map((x, i) => [x, values[i]]))
+  );
+}
+
+// A function as an element of B^A, e.g. "{1↦a, 2↦b}"
+export function functionLabel(domain: string[], fn: FunctionTable): string {
+  return `{${domain.map((x) => `${x}↦${fn[x] ?? '?'}`).join(', ')}}`;
+}
+
+// Lists over the given elements of length 0..maxLength, as JSON
+export function listsOver(elements: unknown[], maxLength: number): string[] {
+  const lists: unknown[][] = [[]];
+  let layer: unknown[][] = [[]];
+  for (let length = 1; length <= maxLength; length++) {
+    layer = layer.flatMap((list) => elements.map((x) => [...list, x]));
+    lists.push(...layer);
+  }
+  return lists.map((list) => JSON.stringify(list));
+}
+
+// Apply fn to a JSON list element-wise, as List f does
+export function mapList(list: string, fn: (x: unknown) => unknown): string {
+  return JSON.stringify((JSON.parse(list) as unknown[]).map(fn));
+}
@@ -0,0 +1,269 @@
+/**
+ * Free categories on directed graphs and their quotients by path equations
+ *
+ * Morphisms of the free category are the paths of the graph. Cyclic graphs
+ * have infinitely many paths, so everything here works up to a path-length
+ * bound; composites that would exceed it are left out of the table.
+ */
+
+import { Category, CompositeEntry, Morphism } from './categoryTypes';
+import { identityId, opLabel } from './categoryEngine';
+
+// A path in the graph: arrows in order of application, starting at `source`
+export interface GraphPath {
+  source: string;
+  arrows: string[];
+}
+
+// lhs = rhs, both paths sharing source and target
+export interface PathEquation {
+  lhs: GraphPath;
+  rhs: GraphPath;
+}
+
+export type ParsedEquation =
+  | { ok: true; equation: PathEquation }
+  | { ok: false; error: string };
+
+export interface GeneratedCategory {
+  category: Category;
+  table: CompositeEntry[];
+  paths: Record<string, GraphPath[]>; // morphism ID -> paths it stands for (within the bound)
+  generated: string[]; // morphisms that only exist as composites of generators
+  truncated: boolean; // some composite was longer than the bound
+}
+
+export function pathKey(path: GraphPath): string {
+  return `${path.source}:${path.arrows.join('.')}`;
+}
+
+export function pathTarget(graph: Category, path: GraphPath): string {
+  if (path.arrows.length === 0) return path.source;
+  const last = graph.morphisms.find((m) => m.id === path.arrows[path.arrows.length - 1]);
+  return last ? last.target : path.source;
+}
+
+// "h∘g∘f" for the path f, g, h; "id_A" for the empty path at A
+export function graphPathLabel(graph: Category, path: GraphPath): string {
+  if (path.arrows.length === 0) {
+    const obj = graph.objects.find((o) => o.id === path.source);
+    return `id_${obj?.label ?? path.source}`;
+  }
+  return [...path.arrows]
+    .reverse()
+    .map((id) => graph.morphisms.find((m) => m.id === id)?.label ?? id)
+    .join('∘');
+}
+
+// Parse one side of an equation such as "g∘f" or "id_A"
+function parsePath(graph: Category, text: string): GraphPath | string {
+  const tokens = text.split('∘').map((t) => t.trim()).filter(Boolean);
+  if (tokens.length === 0) return 'Empty side in equation';
+
+  if (tokens.length === 1 && tokens[0].startsWith('id_')) {
+    const label = tokens[0].slice(3);
+    const obj = graph.objects.find((o) => o.label === label || o.id === label);
+    return obj ? { source: obj.id, arrows: [] } : `Unknown object "${label}"`;
+  }
+
+  const arrows: Morphism[] = [];
+  for (const token of [...tokens].reverse()) {
+    const m = graph.morphisms.find((x) => x.label === token || x.id === token);
+    if (!m) return `Unknown morphism "${token}"`;
+    const previous = arrows[arrows.length - 1];
+    if (previous && previous.target !== m.source) {
+      return `${token} does not start where ${previous.label} ends`;
+    }
+    arrows.push(m);
+  }
+  return { source: arrows[0].source, arrows: arrows.map((m) => m.id) };
+}
+
+/**
+ * Parse a path equation written with the graph's labels, e.g. "g∘f = h".
+ * Both sides must be paths with the same source and target.
+ */
+export function parsePathEquation(graph: Category, text: string): ParsedEquation {
+  const sides = text.split('=');
+  if (sides.length !== 2) return { ok: false, error: 'Write the equation as "path = path"' };
+
+  const lhs = parsePath(graph, sides[0]);
+  if (typeof lhs === 'string') return { ok: false, error: lhs };
+  const rhs = parsePath(graph, sides[1]);
+  if (typeof rhs === 'string') return { ok: false, error: rhs };
+
+  if (lhs.source !== rhs.source || pathTarget(graph, lhs) !== pathTarget(graph, rhs)) {
+    return { ok: false, error: 'Both sides must have the same source and target' };
+  }
+  return { ok: true, equation: { lhs, rhs } };
+}
+
+/**
+ * The same equation in the opposite graph: each side is read backwards and
+ * every arrow gets its opposite label. Arrows whose label is itself a
+ * composite are written by ID so the parser can still find them.
+ */
+export function oppositeEquation(graph: Category, text: string): string {
+  return text
+    .split('=')
+    .map((side) => side
+      .split('∘')
+      .map((t) => t.trim())
+      .filter(Boolean)
+      .reverse()
+      .map((token) => {
+        const m = graph.morphisms.find((x) => x.label === token || x.id === token);
+        if (!m) return token;
+        const label = opLabel(m.label);
+        return label.includes('∘') ? m.id : label;
+      })
+      .join('∘'))
+    .join(' = ');
+}
+
+// Objects visited along a path, so empty sides can be inserted anywhere
+function objectsAlong(graph: Category, path: GraphPath): (string | undefined)[] {
+  const objs: (string | undefined)[] = [path.source];
+  path.arrows.forEach((id) => {
+    objs.push(graph.morphisms.find((m) => m.id === id)?.target);
+  });
+  return objs;
+}
+
+/**
+ * Every path one rewrite away from `path`: a segment matching `from` is
+ * replaced by `to`, keeping the arrows on either side (whiskering).
+ * `position` is the index of the first replaced arrow.
+ */
+export function rewriteOnce(
+  graph: Category,
+  path: GraphPath,
+  from: GraphPath,
+  to: GraphPath
+): { path: GraphPath; position: number }[] {
+  const objs = objectsAlong(graph, path);
+  const results: { path: GraphPath; position: number }[] = [];
+  for (let i = 0; i + from.arrows.length <= path.arrows.length; i++) {
+    if (objs[i] !== from.source) continue;
+    if (!from.arrows.every((a, k) => path.arrows[i + k] === a)) continue;
+    const arrows = [...path.arrows.slice(0, i), ...to.arrows, ...path.arrows.slice(i + from.arrows.length)];
+    results.push({ path: { source: path.source, arrows }, position: i });
+  }
+  return results;
+}
+
+// Every path with at most maxLength arrows, including the empty ones
+export function enumeratePaths(graph: Category, maxLength: number): GraphPath[] {
+  const paths: GraphPath[] = [];
+  const extend = (path: GraphPath, at: string) => {
+    paths.push(path);
+    if (path.arrows.length >= maxLength) return;
+    graph.morphisms
+      .filter((m) => m.source === at)
+      .forEach((m) => extend({ source: path.source, arrows: [...path.arrows, m.id] }, m.target));
+  };
+  graph.objects.forEach((obj) => extend({ source: obj.id, arrows: [] }, obj.id));
+  return paths;
+}
+
+/**
+ * Quotient of the free category on `graph` by the congruence the equations
+ * generate. Equations are applied inside longer paths (whiskering), but only
+ * rewrites that stay within maxLength are taken into account.
+ */
+export function generateCategory(
+  graph: Category,
+  equations: PathEquation[],
+  maxLength: number
+): GeneratedCategory {
+  const paths = enumeratePaths(graph, maxLength);
+  const index = new Map(paths.map((p, i) => [pathKey(p), i]));
+  const parent = paths.map((_, i) => i);
+
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const union = (a: number, b: number) => {
+    parent[find(a)] = find(b);
+  };
+
+  const rewrite = (from: GraphPath, to: GraphPath) => {
+    paths.forEach((p, pi) => {
+      rewriteOnce(graph, p, from, to).forEach(({ path }) => {
+        const qi = index.get(pathKey(path));
+        if (qi !== undefined) union(pi, qi);
+      });
+    });
+  };
+
+  // Rewrites are syntactic, so one pass plus union-find gives the closure
+  equations.forEach((eq) => {
+    rewrite(eq.lhs, eq.rhs);
+    rewrite(eq.rhs, eq.lhs);
+  });
+
+  // Group paths into classes; shortest path is the representative
+  const classes = new Map<number, GraphPath[]>();
+  paths.forEach((p, i) => {
+    const root = find(i);
+    classes.set(root, [...(classes.get(root) ?? []), p]);
+  });
+
+  const classId = new Map<number, string>();
+  const morphisms: Morphism[] = [];
+  const classPaths: Record<string, GraphPath[]> = {};
+  const generated: string[] = [];
+
+  classes.forEach((members, root) => {
+    const sorted = [...members].sort(
+      (a, b) => a.arrows.length - b.arrows.length || pathKey(a).localeCompare(pathKey(b))
+    );
+    const rep = sorted[0];
+    let id: string;
+    if (rep.arrows.length === 0) {
+      id = identityId(rep.source);
+    } else {
+      id = rep.arrows.length === 1 ? rep.arrows[0] : `path:${pathKey(rep)}`;
+      morphisms.push({
+        id,
+        label: graphPathLabel(graph, rep),
+        source: rep.source,
+        target: pathTarget(graph, rep),
+      });
+      if (rep.arrows.length > 1) generated.push(id);
+    }
+    classId.set(root, id);
+    classPaths[id] = sorted;
+  });
+
+  const table: CompositeEntry[] = [];
+  let truncated = false;
+  morphisms.forEach((f) => {
+    morphisms.filter((g) => g.source === f.target).forEach((g) => {
+      const arrows = [...classPaths[f.id][0].arrows, ...classPaths[g.id][0].arrows];
+      const i = index.get(pathKey({ source: f.source, arrows }));
+      if (i === undefined) {
+        truncated = true;
+        return;
+      }
+      table.push({ before: f.id, after: g.id, result: classId.get(find(i))! });
+    });
+  });
+
+  return {
+    category: { id: `${graph.id}-generated`, name: graph.name, objects: graph.objects, morphisms },
+    table,
+    paths: classPaths,
+    generated,
+    truncated,
+  };
+}
+
+// Free category on a graph, up to the path-length bound
+export function freeCategory(graph: Category, maxLength: number): GeneratedCategory {
+  return generateCategory(graph, [], maxLength);
+}
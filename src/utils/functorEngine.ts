@@ -0,0 +1,569 @@
+/**
+ * Functors between finite categories
+ *
+ * A functor is given by plain object/morphism maps. Identities may be left
+ * out of the morphism map: F(id_A) then defaults to id_F(A).
+ */
+
+import { CategoryObject, Functor, FunctorProperties, Morphism } from './categoryTypes';
+import {
+  compose,
+  composePath,
+  findIsomorphism,
+  FiniteCategory,
+  hom,
+  inverse,
+  isComposable,
+  isIdentity,
+  nonIdentityMorphisms,
+} from './categoryEngine';
+
+export interface FunctorMap {
+  objectMap: Record<string, string>; // C object ID -> D object ID
+  morphismMap: Record<string, string>; // C morphism ID -> D morphism ID
+}
+
+export interface FunctorCompletion {
+  functor: FunctorMap;
+  inferredObjects: string[]; // C objects whose image was filled in automatically
+  inferredMorphisms: string[]; // likewise for C morphisms
+}
+
+export type FunctorViolationKind =
+  | 'unmapped-object'
+  | 'unmapped-morphism'
+  | 'unknown-target'
+  | 'ill-typed'
+  | 'identity'
+  | 'composition';
+
+export interface FunctorViolation {
+  kind: FunctorViolationKind;
+  morphisms: string[]; // C morphisms involved, in order of application
+  message: string;
+}
+
+// Image of a C morphism under F, or undefined when F leaves it unmapped
+export function applyFunctor(
+  source: FiniteCategory,
+  target: FiniteCategory,
+  functor: FunctorMap,
+  morphismId: string
+): string | undefined {
+  const mapped = functor.morphismMap[morphismId];
+  if (mapped !== undefined) return mapped;
+  if (!isIdentity(source, morphismId)) return undefined;
+  const obj = functor.objectMap[source.morphismById.get(morphismId)!.source];
+  return obj === undefined ? undefined : target.identities[obj];
+}
+
+/**
+ * Check that F is a functor C → D: every object and morphism is mapped into
+ * D, F(f): F(A) → F(B) for f: A → B, F(id_A) = id_F(A) and
+ * F(g∘f) = F(g)∘F(f) for every composite C defines.
+ */
+export function checkFunctor(
+  source: FiniteCategory,
+  target: FiniteCategory,
+  functor: FunctorMap
+): FunctorViolation[] {
+  const violations: FunctorViolation[] = [];
+  const cLabel = (id: string) => source.morphismById.get(id)?.label ?? id;
+  const dLabel = (id: string) => target.morphismById.get(id)?.label ?? id;
+  const dObject = (id: string) => target.objects.find((o) => o.id === id)?.label ?? id;
+
+  source.objects.forEach((obj) => {
+    const image = functor.objectMap[obj.id];
+    if (image === undefined) {
+      violations.push({ kind: 'unmapped-object', morphisms: [], message: `F(${obj.label}) is not defined` });
+    } else if (!target.objects.some((o) => o.id === image)) {
+      violations.push({ kind: 'unknown-target', morphisms: [], message: `F(${obj.label}) = ${image}, which is not an object of ${target.name}` });
+    }
+  });
+
+  source.morphisms.forEach((m) => {
+    const image = applyFunctor(source, target, functor, m.id);
+    if (image === undefined) {
+      violations.push({ kind: 'unmapped-morphism', morphisms: [m.id], message: `F(${m.label}) is not defined` });
+      return;
+    }
+    const dm = target.morphismById.get(image);
+    if (!dm) {
+      violations.push({ kind: 'unknown-target', morphisms: [m.id], message: `F(${m.label}) = ${image}, which is not a morphism of ${target.name}` });
+      return;
+    }
+
+    const fa = functor.objectMap[m.source];
+    const fb = functor.objectMap[m.target];
+    if (fa !== undefined && fb !== undefined && (dm.source !== fa || dm.target !== fb)) {
+      violations.push({
+        kind: 'ill-typed',
+        morphisms: [m.id],
+        message: `F(${m.label}) must go ${dObject(fa)}→${dObject(fb)}, but ${dm.label} goes ${dObject(dm.source)}→${dObject(dm.target)}`,
+      });
+      return;
+    }
+
+    if (isIdentity(source, m.id) && fa !== undefined && image !== target.identities[fa]) {
+      violations.push({
+        kind: 'identity',
+        morphisms: [m.id],
+        message: `F(${m.label}) = ${dm.label}, but it should be ${dLabel(target.identities[fa])}`,
+      });
+    }
+  });
+
+  const arrows = nonIdentityMorphisms(source);
+  arrows.forEach((f) => {
+    arrows.filter((g) => g.source === f.target).forEach((g) => {
+      const gf = compose(source, f.id, g.id);
+      if (gf === null) return;
+      const image = applyFunctor(source, target, functor, gf);
+      const ff = applyFunctor(source, target, functor, f.id);
+      const fg = applyFunctor(source, target, functor, g.id);
+      if (image === undefined || ff === undefined || fg === undefined) return;
+      // Ill-typed images are already reported above
+      if (!isComposable(target, ff, fg)) return;
+
+      const formal = `${g.label}∘${f.label}`;
+      const composite = compose(target, ff, fg);
+      if (composite === null) {
+        violations.push({
+          kind: 'composition',
+          morphisms: [f.id, g.id],
+          message: `F(${g.label})∘F(${f.label}) = ${dLabel(fg)}∘${dLabel(ff)} is not defined in ${target.name}, so F(${formal}) cannot match it`,
+        });
+      } else if (composite !== image) {
+        violations.push({
+          kind: 'composition',
+          morphisms: [f.id, g.id],
+          message: `F(${formal}) = F(${cLabel(gf)}) = ${dLabel(image)}, but F(${g.label})∘F(${f.label}) = ${dLabel(composite)}`,
+        });
+      }
+    });
+  });
+
+  return violations;
+}
+
+// A partial map is consistent when nothing it already defines breaks a law
+function isConsistent(source: FiniteCategory, target: FiniteCategory, functor: FunctorMap): boolean {
+  return checkFunctor(source, target, functor).every(
+    (v) => v.kind === 'unmapped-object' || v.kind === 'unmapped-morphism'
+  );
+}
+
+// Objects of D that F(A) can still be, given the choices made so far
+export function objectCandidates(
+  source: FiniteCategory,
+  target: FiniteCategory,
+  functor: FunctorMap,
+  objectId: string
+): CategoryObject[] {
+  return target.objects.filter((o) =>
+    isConsistent(source, target, { ...functor, objectMap: { ...functor.objectMap, [objectId]: o.id } })
+  );
+}
+
+/**
+ * Morphisms of D that F(f) can still be: once F(A) and F(B) are chosen only
+ * Hom(F(A), F(B)) remains, and already-mapped composites narrow it further.
+ */
+export function morphismCandidates(
+  source: FiniteCategory,
+  target: FiniteCategory,
+  functor: FunctorMap,
+  morphismId: string
+): Morphism[] {
+  const m = source.morphismById.get(morphismId);
+  if (!m) return [];
+  const fa = functor.objectMap[m.source];
+  const fb = functor.objectMap[m.target];
+  return target.morphisms.filter((d) => {
+    if (fa !== undefined && d.source !== fa) return false;
+    if (fb !== undefined && d.target !== fb) return false;
+    if (m.source === m.target && d.source !== d.target) return false;
+    return isConsistent(source, target, {
+      ...functor,
+      morphismMap: { ...functor.morphismMap, [morphismId]: d.id },
+    });
+  });
+}
+
+/**
+ * Fill in everything a partial functor already determines: endpoints of
+ * mapped morphisms, images of composites F(g∘f) = F(g)∘F(f), and morphisms
+ * with exactly one remaining candidate.
+ */
+export function completeFunctor(
+  source: FiniteCategory,
+  target: FiniteCategory,
+  partial: FunctorMap
+): FunctorCompletion {
+  const objectMap = { ...partial.objectMap };
+  const morphismMap = { ...partial.morphismMap };
+  const inferredObjects: string[] = [];
+  const inferredMorphisms: string[] = [];
+  const arrows = nonIdentityMorphisms(source);
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    const current = { objectMap, morphismMap };
+
+    arrows.forEach((m) => {
+      const image = target.morphismById.get(morphismMap[m.id] ?? '');
+      if (!image) return;
+      [[m.source, image.source], [m.target, image.target]].forEach(([obj, img]) => {
+        if (objectMap[obj] === undefined) {
+          objectMap[obj] = img;
+          inferredObjects.push(obj);
+          changed = true;
+        }
+      });
+    });
+
+    arrows.forEach((f) => {
+      arrows.filter((g) => g.source === f.target).forEach((g) => {
+        const h = compose(source, f.id, g.id);
+        if (h === null || isIdentity(source, h) || morphismMap[h] !== undefined) return;
+        const ff = morphismMap[f.id];
+        const fg = morphismMap[g.id];
+        if (ff === undefined || fg === undefined) return;
+        const image = compose(target, ff, fg);
+        if (image !== null) {
+          morphismMap[h] = image;
+          inferredMorphisms.push(h);
+          changed = true;
+        }
+      });
+    });
+
+    arrows.forEach((m) => {
+      if (morphismMap[m.id] !== undefined) return;
+      if (objectMap[m.source] === undefined || objectMap[m.target] === undefined) return;
+      const candidates = morphismCandidates(source, target, current, m.id);
+      if (candidates.length === 1) {
+        morphismMap[m.id] = candidates[0].id;
+        inferredMorphisms.push(m.id);
+        changed = true;
+      }
+    });
+  }
+
+  return { functor: { objectMap, morphismMap }, inferredObjects, inferredMorphisms };
+}
+
+// ============================================================
+// Enumeration
+// ============================================================
+
+export interface FunctorEnumeration {
+  functors: FunctorMap[];
+  truncated: boolean; // stopped at the result limit
+}
+
+/**
+ * Every functor C → D, found by backtracking: objects are assigned first and
+ * only maps with Hom(F(A), F(B)) non-empty for each f: A → B survive; then
+ * each morphism takes a candidate from that hom-set, and a branch is cut as
+ * soon as a composite F(g∘f) = F(g)∘F(f) it completes fails.
+ */
+export function enumerateFunctors(
+  source: FiniteCategory,
+  target: FiniteCategory,
+  limit = 1000
+): FunctorEnumeration {
+  const arrows = nonIdentityMorphisms(source);
+  const functors: FunctorMap[] = [];
+  let truncated = false;
+
+  // Composable triples (f, g, g∘f) in which each arrow takes part
+  const triples = new Map<string, [string, string, string][]>(arrows.map((m) => [m.id, []]));
+  arrows.forEach((f) => {
+    arrows.filter((g) => g.source === f.target).forEach((g) => {
+      const gf = compose(source, f.id, g.id);
+      if (gf === null) return;
+      const triple: [string, string, string] = [f.id, g.id, gf];
+      new Set(triple).forEach((id) => triples.get(id)?.push(triple));
+    });
+  });
+
+  const objectMap: Record<string, string> = {};
+  const morphismMap: Record<string, string> = {};
+  const image = (id: string) =>
+    isIdentity(source, id)
+      ? target.identities[objectMap[source.morphismById.get(id)!.source]]
+      : morphismMap[id];
+
+  const preservesComposites = (id: string) =>
+    triples.get(id)!.every(([f, g, gf]) => {
+      const [ff, fg, fgf] = [image(f), image(g), image(gf)];
+      return ff === undefined || fg === undefined || fgf === undefined || compose(target, ff, fg) === fgf;
+    });
+
+  const assignMorphism = (i: number) => {
+    if (i === arrows.length) {
+      // Only a functor beyond the limit means the list is incomplete
+      if (functors.length >= limit) truncated = true;
+      else functors.push({ objectMap: { ...objectMap }, morphismMap: { ...morphismMap } });
+      return;
+    }
+    const m = arrows[i];
+    hom(target, objectMap[m.source], objectMap[m.target]).forEach((d) => {
+      if (truncated) return;
+      morphismMap[m.id] = d.id;
+      if (preservesComposites(m.id)) assignMorphism(i + 1);
+      delete morphismMap[m.id];
+    });
+  };
+
+  const assignObject = (i: number) => {
+    if (i === source.objects.length) {
+      const typable = arrows.every((m) => hom(target, objectMap[m.source], objectMap[m.target]).length > 0);
+      if (typable) assignMorphism(0);
+      return;
+    }
+    const obj = source.objects[i];
+    target.objects.forEach((o) => {
+      if (truncated) return;
+      objectMap[obj.id] = o.id;
+      // Arrows between objects already placed need somewhere to go
+      const placed = arrows.every((m) =>
+        objectMap[m.source] === undefined
+        || objectMap[m.target] === undefined
+        || hom(target, objectMap[m.source], objectMap[m.target]).length > 0
+      );
+      if (placed) assignObject(i + 1);
+      delete objectMap[obj.id];
+    });
+  };
+
+  assignObject(0);
+  return { functors, truncated };
+}
+
+// ============================================================
+// Composition
+// ============================================================
+
+// id_C: everything goes to itself
+export function identityFunctor(cat: FiniteCategory): FunctorMap {
+  return {
+    objectMap: Object.fromEntries(cat.objects.map((o) => [o.id, o.id])),
+    morphismMap: Object.fromEntries(cat.morphisms.map((m) => [m.id, m.id])),
+  };
+}
+
+/**
+ * G∘F: C → E for F: C → D and G: D → E. Images either functor leaves
+ * undefined stay undefined.
+ */
+export function composeFunctors(
+  source: FiniteCategory,
+  middle: FiniteCategory,
+  target: FiniteCategory,
+  F: FunctorMap,
+  G: FunctorMap
+): FunctorMap {
+  const objectMap: Record<string, string> = {};
+  const morphismMap: Record<string, string> = {};
+  source.objects.forEach((o) => {
+    const image = G.objectMap[F.objectMap[o.id]];
+    if (image !== undefined) objectMap[o.id] = image;
+  });
+  source.morphisms.forEach((m) => {
+    const fm = applyFunctor(source, middle, F, m.id);
+    const image = fm === undefined ? undefined : applyFunctor(middle, target, G, fm);
+    if (image !== undefined) morphismMap[m.id] = image;
+  });
+  return { objectMap, morphismMap };
+}
+
+// ============================================================
+// Properties
+// ============================================================
+
+export interface FunctorClassification {
+  properties: FunctorProperties;
+  witnesses: Partial<Record<keyof FunctorProperties, string>>; // why each failed property fails
+  quasiInverse: FunctorMap | null; // G: D → C when F is an equivalence
+}
+
+// F restricted to Hom(A, B), as a list of images
+function homImages(source: FiniteCategory, target: FiniteCategory, functor: FunctorMap, a: string, b: string) {
+  return hom(source, a, b).map((m) => applyFunctor(source, target, functor, m.id));
+}
+
+const objectLabel = (cat: FiniteCategory, id: string) => cat.objects.find((o) => o.id === id)?.label ?? id;
+const morphismLabel = (cat: FiniteCategory, id: string) => cat.morphismById.get(id)?.label ?? id;
+
+// Two parallel arrows with the same image, or null when F is faithful
+function faithfulnessWitness(source: FiniteCategory, target: FiniteCategory, functor: FunctorMap): string | null {
+  for (const a of source.objects) {
+    for (const b of source.objects) {
+      const arrows = hom(source, a.id, b.id);
+      const images = homImages(source, target, functor, a.id, b.id);
+      for (let i = 0; i < arrows.length; i++) {
+        const j = images.indexOf(images[i]);
+        if (j < i) {
+          return `${arrows[j].label} ≠ ${arrows[i].label}: ${a.label}→${b.label}, but both go to ${morphismLabel(target, images[i]!)}`;
+        }
+      }
+    }
+  }
+  return null;
+}
+
+// An arrow of D between images that nothing maps onto, or null when F is full
+function fullnessWitness(source: FiniteCategory, target: FiniteCategory, functor: FunctorMap): string | null {
+  for (const a of source.objects) {
+    for (const b of source.objects) {
+      const images = new Set(homImages(source, target, functor, a.id, b.id));
+      const missed = hom(target, functor.objectMap[a.id], functor.objectMap[b.id]).find((d) => !images.has(d.id));
+      if (missed) {
+        return `${missed.label}: F(${a.label})→F(${b.label}) is not F of any arrow ${a.label}→${b.label}`;
+      }
+    }
+  }
+  return null;
+}
+
+function injectivityWitness(source: FiniteCategory, target: FiniteCategory, functor: FunctorMap): string | null {
+  for (let i = 0; i < source.objects.length; i++) {
+    for (let j = 0; j < i; j++) {
+      const [a, b] = [source.objects[j], source.objects[i]];
+      if (functor.objectMap[a.id] === functor.objectMap[b.id]) {
+        return `F(${a.label}) = F(${b.label}) = ${objectLabel(target, functor.objectMap[a.id])}`;
+      }
+    }
+  }
+  return null;
+}
+
+export function isFaithful(source: FiniteCategory, target: FiniteCategory, functor: FunctorMap): boolean {
+  return faithfulnessWitness(source, target, functor) === null;
+}
+
+export function isFull(source: FiniteCategory, target: FiniteCategory, functor: FunctorMap): boolean {
+  return fullnessWitness(source, target, functor) === null;
+}
+
+export function isInjectiveOnObjects(source: FiniteCategory, functor: FunctorMap): boolean {
+  const images = source.objects.map((o) => functor.objectMap[o.id]);
+  return new Set(images).size === images.length;
+}
+
+// Everything goes to one object and its identity
+export function isConstant(source: FiniteCategory, target: FiniteCategory, functor: FunctorMap): boolean {
+  const images = new Set(source.objects.map((o) => functor.objectMap[o.id]));
+  if (images.size > 1) return false;
+  const [only] = [...images];
+  return source.morphisms.every((m) => applyFunctor(source, target, functor, m.id) === target.identities[only]);
+}
+
+/**
+ * Quasi-inverse of a full, faithful, essentially surjective F. Each object Y
+ * of D picks some A with an iso φ: F(A) → Y and G(Y) = A; an arrow g: Y → Y'
+ * goes to the unique h with F(h) = φ'⁻¹∘g∘φ.
+ */
+function quasiInverse(source: FiniteCategory, target: FiniteCategory, functor: FunctorMap): FunctorMap | null {
+  const objectMap: Record<string, string> = {};
+  const iso: Record<string, string> = {}; // Y -> φ_Y: F(G(Y)) → Y
+  for (const y of target.objects) {
+    const preimage = source.objects.find((a) => findIsomorphism(target, functor.objectMap[a.id], y.id) !== null);
+    if (!preimage) return null;
+    objectMap[y.id] = preimage.id;
+    iso[y.id] = findIsomorphism(target, functor.objectMap[preimage.id], y.id)!;
+  }
+
+  const morphismMap: Record<string, string> = {};
+  for (const g of nonIdentityMorphisms(target)) {
+    const back = inverse(target, iso[g.target])!;
+    const conjugate = composePath(target, [iso[g.source], g.id, back]);
+    const h = hom(source, objectMap[g.source], objectMap[g.target]).find(
+      (m) => applyFunctor(source, target, functor, m.id) === conjugate
+    );
+    if (!h) return null;
+    morphismMap[g.id] = h.id;
+  }
+  return { objectMap, morphismMap };
+}
+
+/**
+ * Classify a functor between finite categories. Every property that fails
+ * comes with a witness, e.g. the two parallel arrows that F identifies.
+ */
+export function classifyFunctor(
+  source: FiniteCategory,
+  target: FiniteCategory,
+  functor: FunctorMap
+): FunctorClassification {
+  const witnesses: FunctorClassification['witnesses'] = {};
+  const image = (id: string) => applyFunctor(source, target, functor, id)!;
+  const imageObjects = new Set(source.objects.map((o) => functor.objectMap[o.id]));
+
+  const faithful = faithfulnessWitness(source, target, functor);
+  if (faithful) witnesses.faithful = faithful;
+  const full = fullnessWitness(source, target, functor);
+  if (full) witnesses.full = full;
+  const injective = injectivityWitness(source, target, functor);
+  if (injective) witnesses.injectiveOnObjects = injective;
+
+  const missed = target.objects.find((y) => !imageObjects.has(y.id));
+  if (missed) witnesses.surjectiveOnObjects = `${missed.label} is not F of any object`;
+
+  const unreached = target.objects.find((y) =>
+    [...imageObjects].every((fa) => findIsomorphism(target, fa, y.id) === null)
+  );
+  if (unreached) {
+    witnesses.essentiallySurjective = `${unreached.label} is not isomorphic to the image of any object`;
+  }
+
+  const unreflected = nonIdentityMorphisms(source).find(
+    (m) => inverse(source, m.id) === null && inverse(target, image(m.id)) !== null
+  );
+  if (unreflected) {
+    witnesses.conservative = `F(${unreflected.label}) = ${morphismLabel(target, image(unreflected.id))} is an isomorphism, but ${unreflected.label} is not`;
+  }
+
+  const failing = (['full', 'faithful', 'essentiallySurjective'] as const).filter((p) => witnesses[p]);
+  const names = { full: 'full', faithful: 'faithful', essentiallySurjective: 'essentially surjective' };
+  const inverseMap = failing.length === 0 ? quasiInverse(source, target, functor) : null;
+  if (failing.length > 0) {
+    witnesses.equivalence = `Not ${failing.map((p) => names[p]).join(', not ')}`;
+  }
+
+  return {
+    properties: {
+      faithful: !witnesses.faithful,
+      full: !witnesses.full,
+      injectiveOnObjects: !witnesses.injectiveOnObjects,
+      surjectiveOnObjects: !witnesses.surjectiveOnObjects,
+      essentiallySurjective: !witnesses.essentiallySurjective,
+      conservative: !witnesses.conservative,
+      equivalence: inverseMap !== null,
+    },
+    witnesses,
+    quasiInverse: inverseMap,
+  };
+}
+
+// The shared `Functor` record for a valid functor map, with its properties
+export function toFunctor(
+  id: string,
+  name: string,
+  source: FiniteCategory,
+  target: FiniteCategory,
+  functor: FunctorMap
+): Functor {
+  return {
+    id,
+    name,
+    sourceCategory: source.id,
+    targetCategory: target.id,
+    objectMapping: new Map(Object.entries(functor.objectMap)),
+    morphismMapping: new Map(source.morphisms.map((m) => [m.id, applyFunctor(source, target, functor, m.id)!])),
+    properties: classifyFunctor(source, target, functor).properties,
+  };
+}
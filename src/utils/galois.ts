@@ -0,0 +1,105 @@
+/**
+ * Galois connections between finite posets
+ *
+ * Monotone f: P → Q and g: Q → P form a Galois connection f ⊣ g when
+ * f(x) ≤ y ⟺ x ≤ g(y) for all x in P and y in Q. Then g∘f is a closure
+ * operator on P and f∘g a kernel (interior) operator on Q. A monotone f
+ * has a right adjoint exactly when every {x : f(x) ≤ y} has a greatest
+ * element, which is then g(y).
+ */
+
+import { ordering, Poset } from './posets';
+
+export type MonotoneMap = Record<string, string>;
+
+export interface GaloisPair {
+  x: string; // element of P
+  y: string; // element of Q
+  left: boolean; // f(x) ≤ y
+  right: boolean; // x ≤ g(y)
+}
+
+export interface OperatorCheck {
+  map: MonotoneMap; // g∘f on P or f∘g on Q
+  fixed: string[]; // closed (or open) elements
+  inflationFailures: string[]; // x ≰ gf(x) for a closure, fg(y) ≰ y for a kernel
+  idempotenceFailures: string[]; // elements where applying twice changes the value
+}
+
+export interface AdjointObstruction {
+  y: string;
+  below: string[]; // every x with f(x) ≤ y
+  maximal: string[]; // maximal elements of `below`; no greatest element when there are several
+  join: string | null; // join in P of the first two maximal elements, when it exists
+}
+
+export interface RightAdjoint {
+  g: Record<string, string | null>; // greatest x with f(x) ≤ y, or null where there is none
+  obstructions: AdjointObstruction[];
+}
+
+// Pairs x ≤ x' with f(x) ≰ f(x')
+export function monotonicityFailures(P: Poset, Q: Poset, f: MonotoneMap): [string, string][] {
+  const leqP = ordering(P);
+  const leqQ = ordering(Q);
+  return P.elements.flatMap((x) =>
+    P.elements
+      .filter((x2) => x !== x2 && leqP(x, x2) && !leqQ(f[x], f[x2]))
+      .map((x2) => [x, x2] as [string, string])
+  );
+}
+
+// Least upper bound of some elements, or null when there is none
+export function join(P: Poset, xs: string[]): string | null {
+  const leq = ordering(P);
+  const bounds = P.elements.filter((u) => xs.every((x) => leq(x, u)));
+  return bounds.find((u) => bounds.every((v) => leq(u, v))) ?? null;
+}
+
+// Both sides of f(x) ≤ y ⟺ x ≤ g(y) for every pair
+export function galoisPairs(P: Poset, Q: Poset, f: MonotoneMap, g: MonotoneMap): GaloisPair[] {
+  const leqP = ordering(P);
+  const leqQ = ordering(Q);
+  return P.elements.flatMap((x) =>
+    Q.elements.map((y) => ({ x, y, left: leqQ(f[x], y), right: leqP(x, g[y]) }))
+  );
+}
+
+/**
+ * The composite `outer∘inner` on a poset, checked for being a closure
+ * (x ≤ c(x)) or kernel (k(x) ≤ x) operator and for idempotence.
+ */
+export function operatorCheck(
+  poset: Poset,
+  inner: MonotoneMap,
+  outer: MonotoneMap,
+  kind: 'closure' | 'kernel'
+): OperatorCheck {
+  const leq = ordering(poset);
+  const map = Object.fromEntries(poset.elements.map((x) => [x, outer[inner[x]]]));
+  return {
+    map,
+    fixed: poset.elements.filter((x) => map[x] === x),
+    inflationFailures: poset.elements.filter((x) => (kind === 'closure' ? !leq(x, map[x]) : !leq(map[x], x))),
+    idempotenceFailures: poset.elements.filter((x) => map[map[x]] !== map[x]),
+  };
+}
+
+// g(y) = the greatest x with f(x) ≤ y, wherever that exists
+export function rightAdjoint(P: Poset, Q: Poset, f: MonotoneMap): RightAdjoint {
+  const leqP = ordering(P);
+  const leqQ = ordering(Q);
+  const g: Record<string, string | null> = {};
+  const obstructions: AdjointObstruction[] = [];
+  Q.elements.forEach((y) => {
+    const below = P.elements.filter((x) => leqQ(f[x], y));
+    const maximal = below.filter((x) => !below.some((z) => z !== x && leqP(x, z)));
+    if (maximal.length === 1) {
+      g[y] = maximal[0];
+    } else {
+      g[y] = null;
+      obstructions.push({ y, below, maximal, join: maximal.length > 1 ? join(P, maximal.slice(0, 2)) : null });
+    }
+  });
+  return { g, obstructions };
+}
@@ -0,0 +1,113 @@
+/**
+ * Layout helpers for drawing finite categories with D3
+ */
+
+import { CategoryObject, Morphism, PlacedObject } from './categoryTypes';
+
+export interface LayoutBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ArrowGeometry {
+  d: string; // SVG path
+  labelX: number;
+  labelY: number;
+}
+
+/**
+ * Place objects inside a box. Objects that all carry coordinates keep their
+ * arrangement (scaled to fit); otherwise they are spread on an ellipse.
+ */
+export function fitLayout(objects: CategoryObject[], box: LayoutBox): PlacedObject[] {
+  const cx = box.x + box.width / 2;
+  const cy = box.y + box.height / 2;
+
+  if (objects.length === 1) {
+    return [{ ...objects[0], x: cx, y: cy }];
+  }
+
+  const placed = objects.every((o) => o.x !== undefined && o.y !== undefined);
+  if (placed && objects.length > 0) {
+    const xs = objects.map((o) => o.x!);
+    const ys = objects.map((o) => o.y!);
+    const minX = Math.min(...xs);
+    const minY = Math.min(...ys);
+    const spanX = Math.max(...xs) - minX;
+    const spanY = Math.max(...ys) - minY;
+    const scale = Math.min(
+      spanX > 0 ? box.width / spanX : Infinity,
+      spanY > 0 ? box.height / spanY : Infinity,
+      1.5
+    );
+    const offsetX = cx - (spanX * scale) / 2;
+    const offsetY = cy - (spanY * scale) / 2;
+    return objects.map((o) => ({
+      ...o,
+      x: offsetX + (o.x! - minX) * scale,
+      y: offsetY + (o.y! - minY) * scale,
+    }));
+  }
+
+  // Two objects sit side by side; more go round an ellipse starting at the top
+  const start = objects.length === 2 ? Math.PI : -Math.PI / 2;
+  return objects.map((o, i) => {
+    const angle = start + (2 * Math.PI * i) / objects.length;
+    return { ...o, x: cx + (box.width / 2) * Math.cos(angle), y: cy + (box.height / 2) * Math.sin(angle) };
+  });
+}
+
+/**
+ * Path for a morphism between placed objects. Parallel arrows fan out,
+ * opposite arrows bend apart and endomorphisms become loops above the node.
+ */
+export function arrowGeometry(
+  morphism: Morphism,
+  all: Morphism[],
+  objects: PlacedObject[],
+  nodeRadius: number
+): ArrowGeometry | null {
+  const source = objects.find((o) => o.id === morphism.source);
+  const target = objects.find((o) => o.id === morphism.target);
+  if (!source || !target) return null;
+
+  const slot = all
+    .filter((m) => m.source === morphism.source && m.target === morphism.target)
+    .findIndex((m) => m.id === morphism.id);
+
+  if (source.id === target.id) {
+    const r = nodeRadius + 6 + slot * 10;
+    const top = source.y - nodeRadius;
+    return {
+      d: `M ${source.x - 8} ${top} C ${source.x - r} ${source.y - 2 * r}, ${source.x + r} ${source.y - 2 * r}, ${source.x + 8} ${top}`,
+      labelX: source.x,
+      labelY: source.y - 1.6 * r - 4,
+    };
+  }
+
+  const dx = target.x - source.x;
+  const dy = target.y - source.y;
+  const dist = Math.sqrt(dx * dx + dy * dy);
+  if (dist === 0) return null;
+
+  const startX = source.x + (dx / dist) * nodeRadius;
+  const startY = source.y + (dy / dist) * nodeRadius;
+  const endX = target.x - (dx / dist) * nodeRadius;
+  const endY = target.y - (dy / dist) * nodeRadius;
+  const hasReverse = all.some((m) => m.source === morphism.target && m.target === morphism.source);
+  const bend = (hasReverse ? 14 : 0) + slot * 16;
+
+  const perpX = (-dy / dist) * bend;
+  const perpY = (dx / dist) * bend;
+  const midX = (startX + endX) / 2 + perpX;
+  const midY = (startY + endY) / 2 + perpY;
+  const labelShift = bend === 0 ? 12 : bend * 0.6;
+
+  return {
+    d: `M ${startX} ${startY} Q ${midX} ${midY} ${endX} ${endY}`,
+    labelX: (startX + endX) / 2 + perpX / 2 + (-dy / dist) * labelShift,
+    labelY: (startY + endY) / 2 + perpY / 2 + (dx / dist) * labelShift,
+  };
+}
@@ -0,0 +1,76 @@
+/**
+ * Monos, epis, isos and their split versions in a finite category
+ *
+ * f: A → B is mono when f∘g = f∘h forces g = h, and epi when g∘f = h∘f
+ * does. It is split mono when some retraction r: B → A has r∘f = id_A,
+ * split epi when some section s: B → A has f∘s = id_B, and iso when one
+ * arrow is both. Every hom-set is finite, so each property is decided by
+ * trying all pairs; a failure comes with the pair that breaks it.
+ */
+
+import { compose, FiniteCategory, hom, inverse, nonIdentityMorphisms } from './categoryEngine';
+
+export interface MorphismClassification {
+  morphism: string;
+  mono: boolean;
+  epi: boolean;
+  splitMono: boolean;
+  splitEpi: boolean;
+  iso: boolean;
+  inverse: string | null;
+  retractions: string[]; // r: B → A with r∘f = id_A
+  sections: string[]; // s: B → A with f∘s = id_B
+  monoWitness: [string, string] | null; // g ≠ h: X → A with f∘g = f∘h
+  epiWitness: [string, string] | null; // g ≠ h: B → Y with g∘f = h∘f
+}
+
+// Two different arrows with the same composite, or null when there are none
+function collision(arrows: string[], composite: (id: string) => string | null): [string, string] | null {
+  const seen = new Map<string, string>();
+  for (const g of arrows) {
+    const result = composite(g);
+    if (result === null) continue;
+    const h = seen.get(result);
+    if (h !== undefined) return [h, g];
+    seen.set(result, g);
+  }
+  return null;
+}
+
+export function classifyMorphism(cat: FiniteCategory, f: string): MorphismClassification {
+  const m = cat.morphismById.get(f)!;
+
+  // f∘g for every g into A, and g∘f for every g out of B
+  const monoWitness = collision(
+    cat.objects.flatMap((x) => hom(cat, x.id, m.source).map((g) => g.id)),
+    (g) => compose(cat, g, f)
+  );
+  const epiWitness = collision(
+    cat.objects.flatMap((y) => hom(cat, m.target, y.id).map((g) => g.id)),
+    (g) => compose(cat, f, g)
+  );
+
+  const back = hom(cat, m.target, m.source).map((g) => g.id);
+  const retractions = back.filter((r) => compose(cat, f, r) === cat.identities[m.source]);
+  const sections = back.filter((s) => compose(cat, s, f) === cat.identities[m.target]);
+  const inv = inverse(cat, f);
+
+  return {
+    morphism: f,
+    mono: monoWitness === null,
+    epi: epiWitness === null,
+    splitMono: retractions.length > 0,
+    splitEpi: sections.length > 0,
+    iso: inv !== null,
+    inverse: inv,
+    retractions,
+    sections,
+    monoWitness,
+    epiWitness,
+  };
+}
+
+// Every non-identity morphism, in the order the category lists them
+export function classifyMorphisms(cat: FiniteCategory): MorphismClassification[] {
+  return nonIdentityMorphisms(cat).map((m) => classifyMorphism(cat, m.id));
+}
@@ -0,0 +1,144 @@
+/**
+ * Natural transformations between functors of finite categories
+ *
+ * A transformation η: F ⇒ G is executable once its `components` map sends
+ * every object A of C to a morphism η_A: F(A) → G(A) of D. Naturality is
+ * then checked square by square: G(f)∘η_A = η_B∘F(f) for every f: A → B.
+ * Squares for identities commute by the identity laws, so only
+ * non-identity morphisms of C are listed.
+ */
+
+import { Morphism, NaturalTransformation } from './categoryTypes';
+import { compose, FiniteCategory, hom, nonIdentityMorphisms } from './categoryEngine';
+import { applyFunctor, FunctorMap } from './functorEngine';
+
+export interface ComponentIssue {
+  object: string; // object A of C whose component is wrong
+  message: string;
+}
+
+export interface NaturalitySquare {
+  morphism: string; // f: A → B in C
+  top: string | null; // η_B∘F(f), null when a component is missing
+  bottom: string | null; // G(f)∘η_A
+  commutes: boolean;
+}
+
+/**
+ * Components that are missing or do not go F(A) → G(A). Naturality is only
+ * meaningful once this list is empty.
+ */
+export function componentIssues(
+  source: FiniteCategory,
+  target: FiniteCategory,
+  F: FunctorMap,
+  G: FunctorMap,
+  eta: NaturalTransformation
+): ComponentIssue[] {
+  const objectLabel = (id: string) => target.objects.find((o) => o.id === id)?.label ?? id;
+  return source.objects.flatMap((a) => {
+    const component = eta.components.get(a.id);
+    const fa = F.objectMap[a.id];
+    const ga = G.objectMap[a.id];
+    if (component === undefined) {
+      return [{ object: a.id, message: `${eta.name}_${a.label} is not defined` }];
+    }
+    const m = target.morphismById.get(component);
+    if (!m) {
+      return [{ object: a.id, message: `${eta.name}_${a.label} = ${component}, which is not a morphism of ${target.name}` }];
+    }
+    if (m.source !== fa || m.target !== ga) {
+      return [{
+        object: a.id,
+        message: `${eta.name}_${a.label} must go F(${a.label}) = ${objectLabel(fa)} → G(${a.label}) = ${objectLabel(ga)}, but ${m.label} goes ${objectLabel(m.source)} → ${objectLabel(m.target)}`,
+      }];
+    }
+    return [];
+  });
+}
+
+// One naturality square per non-identity morphism of C
+export function naturalitySquares(
+  source: FiniteCategory,
+  target: FiniteCategory,
+  F: FunctorMap,
+  G: FunctorMap,
+  eta: NaturalTransformation
+): NaturalitySquare[] {
+  return nonIdentityMorphisms(source).map((f) => {
+    const etaA = eta.components.get(f.source);
+    const etaB = eta.components.get(f.target);
+    const ff = applyFunctor(source, target, F, f.id);
+    const gf = applyFunctor(source, target, G, f.id);
+    const top = etaB !== undefined && ff !== undefined ? compose(target, ff, etaB) : null;
+    const bottom = etaA !== undefined && gf !== undefined ? compose(target, etaA, gf) : null;
+    return { morphism: f.id, top, bottom, commutes: top !== null && top === bottom };
+  });
+}
+
+export function isNatural(
+  source: FiniteCategory,
+  target: FiniteCategory,
+  F: FunctorMap,
+  G: FunctorMap,
+  eta: NaturalTransformation
+): boolean {
+  return componentIssues(source, target, F, G, eta).length === 0
+    && naturalitySquares(source, target, F, G, eta).every((s) => s.commutes);
+}
+
+export interface NaturalTransformationEnumeration {
+  transformations: Map<string, string>[]; // components: object ID -> morphism ID
+  truncated: boolean; // stopped at the result limit
+}
+
+/**
+ * Every natural η: F ⇒ G, found by backtracking over the objects of C: η_A
+ * ranges over Hom(F(A), G(A)), and a branch is cut as soon as a square
+ * between two objects that already have components fails to commute.
+ */
+export function enumerateNaturalTransformations(
+  source: FiniteCategory,
+  target: FiniteCategory,
+  F: FunctorMap,
+  G: FunctorMap,
+  limit = 1000
+): NaturalTransformationEnumeration {
+  const arrows = nonIdentityMorphisms(source);
+  const components = new Map<string, string>();
+  const transformations: Map<string, string>[] = [];
+  let truncated = false;
+
+  const commutes = (f: Morphism) => {
+    const etaA = components.get(f.source);
+    const etaB = components.get(f.target);
+    if (etaA === undefined || etaB === undefined) return true;
+    const ff = applyFunctor(source, target, F, f.id);
+    const gf = applyFunctor(source, target, G, f.id);
+    if (ff === undefined || gf === undefined) return false;
+    const top = compose(target, ff, etaB);
+    return top !== null && top === compose(target, etaA, gf);
+  };
+
+  const assign = (i: number) => {
+    if (transformations.length >= limit) {
+      truncated = true;
+      return;
+    }
+    if (i === source.objects.length) {
+      transformations.push(new Map(components));
+      return;
+    }
+    const a = source.objects[i].id;
+    const squares = arrows.filter((f) => f.source === a || f.target === a);
+    hom(target, F.objectMap[a], G.objectMap[a]).forEach((m) => {
+      if (truncated) return;
+      components.set(a, m.id);
+      if (squares.every(commutes)) assign(i + 1);
+      components.delete(a);
+    });
+  };
+
+  assign(0);
+  return { transformations, truncated };
+}
@@ -0,0 +1,166 @@
+/**
+ * Finite posets as categories
+ *
+ * A poset is given by its elements and the covering pairs of its Hasse
+ * diagram; ≤ is their reflexive-transitive closure. As a category it has
+ * one arrow x≤y whenever x ≤ y, and a monotone map is exactly a functor.
+ */
+
+import { CategoryDefinition, CategoryObject, CompositeEntry } from './categoryTypes';
+import { identityId } from './categoryEngine';
+import { FunctorMap } from './functorEngine';
+
+export interface Poset {
+  id: string;
+  name: string;
+  elements: string[];
+  covers: [string, string][]; // [lower, upper] edges of the Hasse diagram
+}
+
+// Element -> every element above it, itself included
+export function upperSets(poset: Poset): Map<string, Set<string>> {
+  const above = new Map(poset.elements.map((x) => [x, new Set([x])]));
+  let changed = true;
+  while (changed) {
+    changed = false;
+    poset.covers.forEach(([lower, upper]) => {
+      const into = above.get(lower);
+      above.get(upper)?.forEach((z) => {
+        if (into && !into.has(z)) {
+          into.add(z);
+          changed = true;
+        }
+      });
+    });
+  }
+  return above;
+}
+
+// x ≤ y as a test, with the closure computed once
+export function ordering(poset: Poset): (x: string, y: string) => boolean {
+  const above = upperSets(poset);
+  return (x, y) => above.get(x)?.has(y) ?? false;
+}
+
+// Covers that are not implied by going through a third element
+export function hasseEdges(poset: Poset): [string, string][] {
+  const leq = ordering(poset);
+  return poset.covers.filter(([lower, upper]) =>
+    lower !== upper
+    && !poset.elements.some((z) => z !== lower && z !== upper && leq(lower, z) && leq(z, upper))
+  );
+}
+
+/**
+ * Read covers written as "a < b, b < c". Unknown elements and pairs that
+ * would make the order cyclic are reported instead of added.
+ */
+export function parseCovers(
+  text: string,
+  elements: string[]
+): { covers: [string, string][]; error: string | null } {
+  const covers: [string, string][] = [];
+  for (const part of text.split(',').map((p) => p.trim()).filter(Boolean)) {
+    const sides = part.split('<').map((x) => x.trim());
+    if (sides.length !== 2 || !sides[0] || !sides[1]) {
+      return { covers, error: `"${part}" should look like a < b` };
+    }
+    const [lower, upper] = sides;
+    const unknown = [lower, upper].find((x) => !elements.includes(x));
+    if (unknown !== undefined) return { covers, error: `${unknown} is not an element` };
+    if (ordering({ id: '', name: '', elements, covers })(upper, lower)) {
+      return { covers, error: `${lower} < ${upper} would make the order cyclic` };
+    }
+    covers.push([lower, upper]);
+  }
+  return { covers, error: null };
+}
+
+export function coversText(poset: Poset): string {
+  return poset.covers.map(([lower, upper]) => `${lower} < ${upper}`).join(', ');
+}
+
+/**
+ * Hasse diagram coordinates: an element sits one level above the highest
+ * element it covers, and each level is centred horizontally. Larger y is
+ * lower on screen, so the least elements come out at the bottom.
+ */
+export function hassePositions(poset: Poset, spacing = 60): Record<string, { x: number; y: number }> {
+  const level = new Map<string, number>();
+  const levelOf = (x: string, seen: Set<string>): number => {
+    if (level.has(x)) return level.get(x)!;
+    seen.add(x);
+    const below = poset.covers.filter(([lower, upper]) => upper === x && !seen.has(lower));
+    const value = below.length === 0 ? 0 : 1 + Math.max(...below.map(([lower]) => levelOf(lower, seen)));
+    seen.delete(x);
+    level.set(x, value);
+    return value;
+  };
+  poset.elements.forEach((x) => levelOf(x, new Set()));
+
+  const top = Math.max(0, ...level.values());
+  const positions: Record<string, { x: number; y: number }> = {};
+  for (let l = 0; l <= top; l++) {
+    const row = poset.elements.filter((x) => level.get(x) === l);
+    row.forEach((x, i) => {
+      positions[x] = { x: (i - (row.length - 1) / 2) * spacing, y: (top - l) * spacing };
+    });
+  }
+  return positions;
+}
+
+// Elements as category objects placed on their Hasse diagram
+export function posetObjects(poset: Poset): CategoryObject[] {
+  const positions = hassePositions(poset);
+  return poset.elements.map((x) => ({ id: x, label: x, ...positions[x] }));
+}
+
+// ID of the arrow x≤y, matching the ordinals in smallCategories
+export function orderArrowId(x: string, y: string): string {
+  return `${x}≤${y}`;
+}
+
+export function posetCategory(poset: Poset): CategoryDefinition {
+  const above = upperSets(poset);
+  const strict = (x: string, y: string) => x !== y && (above.get(x)?.has(y) ?? false);
+  const pairs = poset.elements.flatMap((x) =>
+    poset.elements.filter((y) => strict(x, y)).map((y) => [x, y] as const)
+  );
+  const compositions: CompositeEntry[] = pairs.flatMap(([x, y]) =>
+    poset.elements
+      .filter((z) => strict(y, z))
+      .map((z) => ({ before: orderArrowId(x, y), after: orderArrowId(y, z), result: orderArrowId(x, z) }))
+  );
+  return {
+    id: poset.id,
+    name: poset.name,
+    objects: posetObjects(poset),
+    morphisms: pairs.map(([x, y]) => ({ id: orderArrowId(x, y), label: orderArrowId(x, y), source: x, target: y })),
+    compositions,
+  };
+}
+
+/**
+ * The functor of a map between posets. Only meaningful for monotone maps:
+ * x ≤ y must give f(x) ≤ f(y), otherwise some arrow points nowhere.
+ */
+export function monotoneFunctor(source: Poset, map: Record<string, string>): FunctorMap {
+  const above = upperSets(source);
+  const morphismMap: Record<string, string> = {};
+  source.elements.forEach((x) => {
+    above.get(x)?.forEach((y) => {
+      if (x === y) return;
+      morphismMap[orderArrowId(x, y)] = map[x] === map[y] ? identityId(map[x]) : orderArrowId(map[x], map[y]);
+    });
+  });
+  return { objectMap: { ...map }, morphismMap };
+}
+
+export function chain(id: string, name: string, elements: string[]): Poset {
+  return {
+    id,
+    name,
+    elements,
+    covers: elements.slice(1).map((y, i) => [elements[i], y]),
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * Initial, terminal and zero objects of a finite category
+ *
+ * I is initial when every Hom(I, X) holds exactly one arrow, terminal when
+ * every Hom(X, I) does, and zero when it is both. Two initial objects are
+ * joined by a unique isomorphism: the only arrows between them compose to
+ * the only endomorphisms there are, the identities. Dually for terminals.
+ */
+
+import { compose, FiniteCategory, hom } from './categoryEngine';
+
+export interface HomSet {
+  source: string;
+  target: string;
+  arrows: string[]; // morphism IDs, identities included
+}
+
+export interface UniversalReport {
+  object: string;
+  initial: boolean;
+  terminal: boolean;
+  zero: boolean;
+  outgoing: HomSet[]; // Hom(object, X) that are empty or have several arrows
+  incoming: HomSet[]; // Hom(X, object) that are empty or have several arrows
+}
+
+export interface UniqueIso {
+  kind: 'initial' | 'terminal' | 'zero';
+  a: string;
+  b: string;
+  forward: string; // the only arrow a → b
+  backward: string; // the only arrow b → a
+  roundTrip: boolean; // backward∘forward = id_a and forward∘backward = id_b in the table
+}
+
+const homSet = (cat: FiniteCategory, a: string, b: string): HomSet => ({
+  source: a,
+  target: b,
+  arrows: hom(cat, a, b).map((m) => m.id),
+});
+
+export function universalObjects(cat: FiniteCategory): UniversalReport[] {
+  return cat.objects.map((o) => {
+    const outgoing = cat.objects
+      .map((x) => homSet(cat, o.id, x.id))
+      .filter((h) => h.arrows.length !== 1);
+    const incoming = cat.objects
+      .map((x) => homSet(cat, x.id, o.id))
+      .filter((h) => h.arrows.length !== 1);
+    const initial = outgoing.length === 0;
+    const terminal = incoming.length === 0;
+    return { object: o.id, initial, terminal, zero: initial && terminal, outgoing, incoming };
+  });
+}
+
+// The isomorphism from the first initial (terminal) object to each of the others.
+// Once there is a zero object the initial and terminal objects are the same
+// ones, so they are connected just once.
+export function uniqueIsomorphisms(cat: FiniteCategory, reports: UniversalReport[]): UniqueIso[] {
+  const connect = (kind: UniqueIso['kind'], objects: string[]): UniqueIso[] =>
+    objects.slice(1).map((b) => {
+      const a = objects[0];
+      const forward = hom(cat, a, b)[0].id;
+      const backward = hom(cat, b, a)[0].id;
+      return {
+        kind,
+        a,
+        b,
+        forward,
+        backward,
+        roundTrip: compose(cat, forward, backward) === cat.identities[a]
+          && compose(cat, backward, forward) === cat.identities[b],
+      };
+    });
+
+  const zeros = reports.filter((r) => r.zero).map((r) => r.object);
+  if (zeros.length > 0) return connect('zero', zeros);
+  return [
+    ...connect('initial', reports.filter((r) => r.initial).map((r) => r.object)),
+    ...connect('terminal', reports.filter((r) => r.terminal).map((r) => r.object)),
+  ];
+}